@@ -1,4 +1,9 @@
-import { TestConfig, TestResult, RelayerTestConfig } from './types'
+import {
+  TestConfig,
+  TestResult,
+  RelayerTestConfig,
+  IBCPathConfig,
+} from './types'
 import {
   ConnectionStabilityTest,
   PacketTransmissionTest,
@@ -8,6 +13,7 @@ import {
 import { logger } from './utils/logger'
 import { config, relayerConfig } from './config'
 import { ReportGenerator } from './utils/ReportGenerator'
+import { describePath, selectPaths } from './utils/ibcPaths'
 
 export class TestRunner {
   private results: TestResult[] = []
@@ -96,10 +102,50 @@ export class TestRunner {
     }
   }
 
-  async runRelayerTest(): Promise<TestResult> {
+  async runRelayerTest(pathId?: string): Promise<TestResult> {
     logger.title('Starting IBC Relayer Test')
 
-    const relayerTest = new IBCRelayerTest(relayerConfig)
+    const paths = selectPaths(relayerConfig, pathId)
+    const pathResults: Record<string, TestResult> = {}
+    const startTime = Date.now()
+
+    for (const path of paths) {
+      logger.separator()
+      logger.info(`🛣️  Testing path ${path.id}: ${describePath(path)}`)
+      pathResults[path.id] = await this.runRelayerTestForPath(path)
+    }
+
+    if (paths.length === 1) {
+      return pathResults[paths[0].id]
+    }
+
+    const failedPaths = Object.keys(pathResults).filter(
+      (id) => !pathResults[id].success
+    )
+    const result: TestResult = {
+      testName: 'IBC Relayer Test',
+      success: failedPaths.length === 0,
+      duration: Date.now() - startTime,
+      error:
+        failedPaths.length > 0
+          ? `Failed paths: ${failedPaths.join(', ')}`
+          : undefined,
+      details: { paths: pathResults },
+    }
+
+    if (result.success) {
+      logger.success(`✓ All ${paths.length} paths passed`)
+    } else {
+      logger.error(`✗ ${result.error}`)
+    }
+
+    return result
+  }
+
+  private async runRelayerTestForPath(
+    path: IBCPathConfig
+  ): Promise<TestResult> {
+    const relayerTest = new IBCRelayerTest(relayerConfig, path)
 
     try {
       const result = await relayerTest.run()
@@ -109,7 +155,11 @@ export class TestRunner {
       if (result.details && result.details.metrics) {
         const reportGenerator = new ReportGenerator(
           relayerTest.getRelayerLogs(),
-          result.details.metrics
+          result.details.metrics,
+          path,
+          relayerTest.getIdentityAnomalies(),
+          { trends: relayerTest.getMetricsTrends() },
+          relayerTest.getRelayRaceStats()
         )
         reportGenerator.saveReports()
 
@@ -117,16 +167,18 @@ export class TestRunner {
       }
 
       if (result.success) {
-        logger.success(`✓ ${result.testName} passed`)
+        logger.success(`✓ ${result.testName} [${path.id}] passed`)
       } else {
-        logger.error(`✗ ${result.testName} failed: ${result.error}`)
+        logger.error(
+          `✗ ${result.testName} [${path.id}] failed: ${result.error}`
+        )
       }
 
       return result
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error)
-      logger.error(`Relayer test execution error: ${errorMessage}`)
+      logger.error(`Relayer test execution error [${path.id}]: ${errorMessage}`)
 
       const failureResult: TestResult = {
         testName: 'IBC Relayer Test',
@@ -140,41 +192,52 @@ export class TestRunner {
     }
   }
 
-  async runContinuousRelayerTest(intervalHours: number = 1): Promise<void> {
+  async runContinuousRelayerTest(
+    intervalHours: number = 1,
+    pathId?: string
+  ): Promise<void> {
     logger.title(
       `Starting Continuous IBC Relayer Test (every ${intervalHours} hour(s))`
     )
 
     const intervalMs = intervalHours * 60 * 60 * 1000
+    const paths = selectPaths(relayerConfig, pathId)
 
     while (true) {
-      try {
-        logger.info(
-          `🔄 Starting scheduled relayer test at ${new Date().toLocaleString()}`
-        )
-
-        const relayerTest = new IBCRelayerTest(relayerConfig)
-        const singleTestLog = await relayerTest.runSingleTransferTest()
-
-        logger.info(
-          `Test completed: ${singleTestLog.success ? 'SUCCESS' : 'FAILED'}`
-        )
-        logger.info(`Latency: ${singleTestLog.latency}ms`)
-        logger.info(`Relayer: ${singleTestLog.memoIdentifier || 'Unknown'}`)
-        logger.info(`Signer: ${singleTestLog.relayerSigner || 'Unknown'}`)
-
-        // 生成简化报告
-        const reportGenerator = new ReportGenerator(
-          relayerTest.getRelayerLogs(),
-          relayerTest.getPerformanceMetrics()
-        )
-
-        const summary = reportGenerator.generateJSONSummary()
-        logger.info(
-          `Current success rate: ${summary.summary.successRate.toFixed(1)}%`
-        )
-      } catch (error) {
-        logger.error('Continuous test iteration failed:', error)
+      for (const path of paths) {
+        try {
+          logger.info(
+            `🔄 Starting scheduled relayer test on ${
+              path.id
+            } at ${new Date().toLocaleString()}`
+          )
+
+          const relayerTest = new IBCRelayerTest(relayerConfig, path)
+          const singleTestLog = await relayerTest.runSingleTransferTest()
+
+          logger.info(
+            `Test completed: ${singleTestLog.success ? 'SUCCESS' : 'FAILED'}`
+          )
+          logger.info(`Latency: ${singleTestLog.latency}ms`)
+          logger.info(`Relayer: ${singleTestLog.memoIdentifier || 'Unknown'}`)
+          logger.info(`Signer: ${singleTestLog.relayerSigner || 'Unknown'}`)
+
+          // 生成简化报告
+          const reportGenerator = new ReportGenerator(
+            relayerTest.getRelayerLogs(),
+            relayerTest.getPerformanceMetrics(),
+            path
+          )
+
+          const summary = reportGenerator.generateJSONSummary()
+          logger.info(
+            `Current success rate [${
+              path.id
+            }]: ${summary.summary.successRate.toFixed(1)}%`
+          )
+        } catch (error) {
+          logger.error(`Continuous test iteration failed on ${path.id}:`, error)
+        }
       }
 
       logger.info(`⏰ Next test scheduled in ${intervalHours} hour(s)`)
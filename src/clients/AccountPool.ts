@@ -0,0 +1,346 @@
+import {
+  SigningStargateClient,
+  DeliverTxResponse,
+  GasPrice,
+  calculateFee,
+  StdFee,
+  BroadcastTxError,
+  TimeoutError,
+} from '@cosmjs/stargate'
+import {
+  DirectSecp256k1HdWallet,
+  EncodeObject,
+  makeCosmoshubPath,
+} from '@cosmjs/proto-signing'
+import { TxRaw } from 'cosmjs-types/cosmos/tx/v1beta1/tx'
+import { Coin } from 'cosmjs-types/cosmos/base/v1beta1/coin'
+import { ChainConfig, GasConfig } from '../types'
+import { CosmosClient } from './CosmosClient'
+import { logger } from '../utils/logger'
+
+// 估算充值所需手续费时每笔交易的 gas
+const ESTIMATED_GAS_PER_TX = 250000
+// 未设置 GAS_ADJUSTMENT 时与 CosmJS 相同的默认倍数
+const DEFAULT_GAS_MULTIPLIER = 1.4
+// 广播超时后继续等待原交易上链的时间和轮询间隔
+const TX_WAIT_TIMEOUT_MS = 120000
+const TX_POLL_INTERVAL_MS = 3000
+
+export interface PoolAccount {
+  index: number // HD 路径 m/44'/118'/0'/0/{index}，0 为主账户，不在池中
+  address: string
+  accountNumber?: number
+  sequence?: number // 本地维护的下一个 sequence
+  busy: boolean
+}
+
+/**
+ * 从 TEST_MNEMONIC 的多个 HD 路径派生的发送账户池
+ * 每个账户同一时间只发送一笔交易，sequence 在本地递增，
+ * 不同账户并发发送，避免同一地址并发签名时的 sequence mismatch
+ */
+export class AccountPool {
+  private accounts: PoolAccount[] = []
+  private signingClient?: SigningStargateClient
+  private gasPrice: GasPrice
+  private gasMultiplier: number
+  private waiters: ((account: PoolAccount) => void)[] = []
+  private nextIndex = 0
+
+  constructor(
+    private config: ChainConfig,
+    private size: number,
+    gasConfig: GasConfig
+  ) {
+    this.gasPrice = GasPrice.fromString(
+      config.gasPrice || `${gasConfig.price}${gasConfig.denom}`
+    )
+    this.gasMultiplier = gasConfig.adjustment || DEFAULT_GAS_MULTIPLIER
+  }
+
+  async setup(mnemonic: string): Promise<void> {
+    const hdPaths = Array.from({ length: this.size }, (_, i) =>
+      makeCosmoshubPath(i + 1)
+    )
+    const wallet = await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, {
+      prefix: this.config.prefix,
+      hdPaths,
+    })
+
+    this.accounts = (await wallet.getAccounts()).map((account, i) => ({
+      index: i + 1,
+      address: account.address,
+      busy: false,
+    }))
+    this.signingClient = await SigningStargateClient.connectWithSigner(
+      this.config.rpc,
+      wallet
+    )
+
+    logger.info(
+      `👥 Account pool of ${this.size} senders on ${this.config.chainId}`
+    )
+    await Promise.all(this.accounts.map((account) => this.sync(account)))
+  }
+
+  getAddresses(): string[] {
+    return this.accounts.map((account) => account.address)
+  }
+
+  getFeeDenom(): string {
+    return this.gasPrice.denom
+  }
+
+  /**
+   * 按 ESTIMATED_GAS_PER_TX 估算 transfers 笔交易的手续费
+   */
+  estimateFees(transfers: number): string {
+    const fee = calculateFee(ESTIMATED_GAS_PER_TX, this.gasPrice)
+    return (BigInt(fee.amount[0].amount) * BigInt(transfers)).toString()
+  }
+
+  /**
+   * 从主账户补足每个池账户的余额，targets 为每个账户的目标余额
+   * 所有补足的 MsgSend 放在主账户的一笔交易中，返回充值交易的 hash
+   */
+  async fund(main: CosmosClient, targets: Coin[]): Promise<string | undefined> {
+    const client = main.getSigningClient()!
+    const sender = main.getAddress()!
+
+    const msgs: EncodeObject[] = []
+    for (const account of this.accounts) {
+      const amount: Coin[] = []
+      for (const target of targets) {
+        const balance = await this.signingClient!.getBalance(
+          account.address,
+          target.denom
+        )
+        const shortfall = BigInt(target.amount) - BigInt(balance.amount)
+        if (shortfall > BigInt(0)) {
+          amount.push({ denom: target.denom, amount: shortfall.toString() })
+        }
+      }
+      if (amount.length > 0) {
+        msgs.push({
+          typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+          value: { fromAddress: sender, toAddress: account.address, amount },
+        })
+      }
+    }
+
+    if (msgs.length === 0) {
+      logger.info('👥 Account pool already funded')
+      return undefined
+    }
+
+    const result = await client.signAndBroadcast(
+      sender,
+      msgs,
+      'auto',
+      'account pool funding'
+    )
+    if (result.code !== 0) {
+      throw new Error(
+        `Failed to fund account pool (code ${result.code}): ${result.rawLog}`
+      )
+    }
+    logger.info(
+      `👥 Funded ${msgs.length} pool accounts in ${result.transactionHash}`
+    )
+
+    // 新账户在收到转账后才有 account number
+    await Promise.all(this.accounts.map((account) => this.sync(account)))
+    return result.transactionHash
+  }
+
+  /**
+   * 把池账户中的 denoms 余额转回主账户，手续费 denom 留出本笔交易的手续费
+   * 返回已上链的回收交易 hash
+   */
+  async sweep(mainAddress: string, denoms: string[]): Promise<string[]> {
+    const feeDenom = this.getFeeDenom()
+    const txHashes: string[] = []
+
+    for (const account of this.accounts) {
+      try {
+        const balances = await Promise.all(
+          Array.from(new Set([...denoms, feeDenom])).map((denom) =>
+            this.signingClient!.getBalance(account.address, denom)
+          )
+        )
+        const fee = calculateFee(ESTIMATED_GAS_PER_TX, this.gasPrice)
+        const amount = balances
+          .map((coin) => ({
+            denom: coin.denom,
+            amount:
+              coin.denom === feeDenom
+                ? BigInt(coin.amount) - BigInt(fee.amount[0].amount)
+                : BigInt(coin.amount),
+          }))
+          .filter((coin) => coin.amount > BigInt(0))
+          .map((coin) => ({
+            denom: coin.denom,
+            amount: coin.amount.toString(),
+          }))
+        if (amount.length === 0) continue
+
+        const result = await this.broadcast(
+          account,
+          [
+            {
+              typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+              value: {
+                fromAddress: account.address,
+                toAddress: mainAddress,
+                amount,
+              },
+            },
+          ],
+          'account pool sweep',
+          fee
+        )
+        // 失败的交易同样支付了手续费
+        txHashes.push(result.transactionHash)
+        if (result.code !== 0) {
+          throw new Error(`code ${result.code}: ${result.rawLog}`)
+        }
+        logger.info(`🧹 Swept pool account #${account.index} to ${mainAddress}`)
+      } catch (error) {
+        logger.warn(
+          `Failed to sweep pool account #${account.index}:`,
+          error instanceof Error ? error.message : error
+        )
+      }
+    }
+    return txHashes
+  }
+
+  /**
+   * 取得一个空闲账户，全部忙碌时等待其他发送完成
+   */
+  acquire(): Promise<PoolAccount> {
+    for (let i = 0; i < this.accounts.length; i++) {
+      const account = this.accounts[(this.nextIndex + i) % this.accounts.length]
+      if (!account.busy) {
+        this.nextIndex = account.index % this.accounts.length
+        account.busy = true
+        return Promise.resolve(account)
+      }
+    }
+    return new Promise((resolve) => this.waiters.push(resolve))
+  }
+
+  release(account: PoolAccount): void {
+    const waiter = this.waiters.shift()
+    if (waiter) {
+      waiter(account)
+    } else {
+      account.busy = false
+    }
+  }
+
+  /**
+   * 用本地 sequence 签名并广播，等待交易上链
+   * 只有 CheckTx 拒绝时 sequence 未被消耗，从链上重新同步后重试一次；
+   * 等待上链超时时交易已在 mempool 中，继续等待原交易而不是重新签名
+   */
+  async broadcast(
+    account: PoolAccount,
+    msgs: EncodeObject[],
+    memo: string,
+    fee?: StdFee
+  ): Promise<DeliverTxResponse> {
+    const client = this.signingClient!
+    if (account.sequence === undefined) {
+      await this.sync(account)
+    }
+    if (account.sequence === undefined) {
+      throw new Error(
+        `Pool account #${account.index} (${account.address}) does not exist on ${this.config.chainId}, fund the pool first`
+      )
+    }
+
+    const txFee =
+      fee ||
+      calculateFee(
+        Math.round(
+          (await client.simulate(account.address, msgs, memo)) *
+            this.gasMultiplier
+        ),
+        this.gasPrice
+      )
+
+    for (let attempt = 0; ; attempt++) {
+      const txRaw = await client.sign(account.address, msgs, txFee, memo, {
+        accountNumber: account.accountNumber!,
+        sequence: account.sequence!,
+        chainId: this.config.chainId,
+      })
+      try {
+        const result = await client.broadcastTx(TxRaw.encode(txRaw).finish())
+        // 交易上链后无论执行成功与否都消耗了 sequence
+        account.sequence! += 1
+        return result
+      } catch (error) {
+        if (error instanceof TimeoutError) {
+          // 交易已通过 CheckTx 进入 mempool，sequence 已被占用
+          account.sequence! += 1
+          logger.warn(
+            `Pool account #${account.index} transaction ${error.txId} not committed yet, waiting...`
+          )
+          return this.waitForTx(error.txId)
+        }
+
+        await this.sync(account)
+        if (!(error instanceof BroadcastTxError) || attempt > 0) throw error
+        logger.warn(
+          `Pool account #${account.index} broadcast failed, retrying with sequence ${account.sequence}:`,
+          error instanceof Error ? error.message : error
+        )
+      }
+    }
+  }
+
+  private async waitForTx(txHash: string): Promise<DeliverTxResponse> {
+    const deadline = Date.now() + TX_WAIT_TIMEOUT_MS
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, TX_POLL_INTERVAL_MS))
+      const tx = await this.signingClient!.getTx(txHash)
+      if (tx) {
+        return {
+          code: tx.code,
+          height: tx.height,
+          txIndex: tx.txIndex,
+          events: tx.events,
+          rawLog: tx.rawLog,
+          transactionHash: txHash,
+          msgResponses: tx.msgResponses,
+          gasUsed: tx.gasUsed,
+          gasWanted: tx.gasWanted,
+        }
+      }
+    }
+    throw new TimeoutError(
+      `Transaction ${txHash} was submitted but was not found on ${this.config.chainId}`,
+      txHash
+    )
+  }
+
+  async disconnect(): Promise<void> {
+    this.signingClient?.disconnect()
+  }
+
+  private async sync(account: PoolAccount): Promise<void> {
+    try {
+      const { accountNumber, sequence } = await this.signingClient!.getSequence(
+        account.address
+      )
+      account.accountNumber = accountNumber
+      account.sequence = sequence
+    } catch (error) {
+      // 未收到过转账的账户在链上不存在，充值后再同步
+      account.accountNumber = undefined
+      account.sequence = undefined
+    }
+  }
+}
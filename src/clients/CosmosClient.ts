@@ -1,9 +1,55 @@
-import { StargateClient, SigningStargateClient } from '@cosmjs/stargate'
+import {
+  StargateClient,
+  SigningStargateClient,
+  QueryClient,
+  IbcExtension,
+  setupIbcExtension,
+  setupFeegrantExtension,
+  setupAuthzExtension,
+  createProtobufRpcClient,
+} from '@cosmjs/stargate'
 import { DirectSecp256k1HdWallet } from '@cosmjs/proto-signing'
 import { Tendermint34Client } from '@cosmjs/tendermint-rpc'
-import { ChainConfig, GasConfig } from '../types'
+import { toHex } from '@cosmjs/encoding'
+import { stateToJSON as connectionStateToJSON } from 'cosmjs-types/ibc/core/connection/v1/connection'
+import {
+  QueryClientImpl as ConnectionQueryClient,
+  QueryConnectionConsensusStateRequest,
+} from 'cosmjs-types/ibc/core/connection/v1/query'
+import {
+  stateToJSON as channelStateToJSON,
+  orderToJSON,
+} from 'cosmjs-types/ibc/core/channel/v1/channel'
+import {
+  ClientState as TendermintClientState,
+  ConsensusState as TendermintConsensusState,
+} from 'cosmjs-types/ibc/lightclients/tendermint/v1/tendermint'
+import {
+  ChainConfig,
+  GasConfig,
+  ConnectionState,
+  ChannelState,
+  ClientStateInfo,
+  ConsensusStateInfo,
+  IBCHeight,
+} from '../types'
 import { logger } from '../utils/logger'
 
+const TENDERMINT_CLIENT_STATE_TYPE =
+  '/ibc.lightclients.tendermint.v1.ClientState'
+const TENDERMINT_CONSENSUS_STATE_TYPE =
+  '/ibc.lightclients.tendermint.v1.ConsensusState'
+
+function toIBCHeight(height?: {
+  revisionNumber: bigint
+  revisionHeight: bigint
+}): IBCHeight {
+  return {
+    revisionNumber: Number(height?.revisionNumber ?? 0),
+    revisionHeight: Number(height?.revisionHeight ?? 0),
+  }
+}
+
 /**
  * 自定义的SigningStargateClient，允许配置gas倍数
  */
@@ -52,10 +98,17 @@ class CustomSigningStargateClient extends SigningStargateClient {
   }
 }
 
+// stargate 未导出 feegrant / authz 扩展的类型
+type ChainQueryClient = QueryClient &
+  IbcExtension &
+  ReturnType<typeof setupFeegrantExtension> &
+  ReturnType<typeof setupAuthzExtension>
+
 export class CosmosClient {
   private stargateClient?: StargateClient
   private signingClient?: CustomSigningStargateClient
   private tmClient?: Tendermint34Client
+  private queryClient?: ChainQueryClient
   private wallet?: DirectSecp256k1HdWallet
   private address?: string
 
@@ -67,6 +120,12 @@ export class CosmosClient {
 
       // 创建 Tendermint 客户端
       this.tmClient = await Tendermint34Client.connect(this.config.rpc)
+      this.queryClient = QueryClient.withExtensions(
+        this.tmClient,
+        setupIbcExtension,
+        setupFeegrantExtension,
+        setupAuthzExtension
+      )
 
       // 创建 Stargate 客户端
       this.stargateClient = await StargateClient.connect(this.config.rpc)
@@ -90,14 +149,16 @@ export class CosmosClient {
       // 设置SigningStargateClient的选项
       let clientOptions: any = {}
 
-      if (gasConfig) {
-        // 如果提供了gas配置，设置gasPrice用于auto gas
+      // 链配置中的 gasPrice 优先：反向测试时 Chain B 的手续费 denom 与 Chain A 不同
+      const gasPrice =
+        this.config.gasPrice ||
+        (gasConfig ? `${gasConfig.price}${gasConfig.denom}` : undefined)
+      if (gasPrice) {
+        // 设置gasPrice用于auto gas
         // gasPrice应该是 "amount" + "denom" 的字符串格式
-        clientOptions.gasPrice = `${gasConfig.price}${gasConfig.denom}`
+        clientOptions.gasPrice = gasPrice
 
-        logger.info(
-          `Setting up client with gas price: ${gasConfig.price}${gasConfig.denom}`
-        )
+        logger.info(`Setting up client with gas price: ${gasPrice}`)
       }
 
       // 提取gas倍数配置
@@ -119,12 +180,16 @@ export class CosmosClient {
     }
   }
 
-  async getBalance(denom: string = 'stake'): Promise<string> {
-    if (!this.stargateClient || !this.address) {
+  // address 默认为本钱包地址
+  async getBalance(denom: string, address?: string): Promise<string> {
+    if (!this.stargateClient || !(address || this.address)) {
       throw new Error('Client not initialized')
     }
 
-    const balance = await this.stargateClient.getBalance(this.address, denom)
+    const balance = await this.stargateClient.getBalance(
+      address || this.address!,
+      denom
+    )
     return balance.amount
   }
 
@@ -136,49 +201,196 @@ export class CosmosClient {
     return await this.stargateClient.getHeight()
   }
 
-  async getIBCConnections(): Promise<any[]> {
-    if (!this.tmClient) {
+  async getIBCConnections(): Promise<ConnectionState[]> {
+    if (!this.queryClient) {
       throw new Error('Tendermint client not initialized')
     }
 
     try {
-      const response = await this.tmClient.abciQuery({
-        path: '/ibc.core.connection.v1.Query/Connections',
-        data: new Uint8Array(),
-      })
+      // allConnections 会按 pagination.nextKey 翻页直到取完全部结果
+      const response = await this.queryClient.ibc.connection.allConnections()
+
+      return response.connections.map((connection) => ({
+        connectionId: connection.id,
+        state: connectionStateToJSON(connection.state),
+        clientId: connection.clientId,
+        counterpartyConnectionId: connection.counterparty.connectionId,
+        counterpartyClientId: connection.counterparty.clientId,
+      }))
+    } catch (error) {
+      logger.error('Failed to get IBC connections', error)
+      return []
+    }
+  }
 
-      if (response.code !== 0) {
-        throw new Error(`Query failed with code ${response.code}`)
-      }
+  async getIBCChannels(): Promise<ChannelState[]> {
+    if (!this.queryClient) {
+      throw new Error('Tendermint client not initialized')
+    }
 
-      // 这里需要根据实际的protobuf解码来处理响应
-      return []
+    try {
+      const response = await this.queryClient.ibc.channel.allChannels()
+
+      return response.channels.map((channel) => ({
+        channelId: channel.channelId,
+        portId: channel.portId,
+        state: channelStateToJSON(channel.state),
+        counterpartyChannelId: channel.counterparty.channelId,
+        counterpartyPortId: channel.counterparty.portId,
+        connectionHops: channel.connectionHops,
+        ordering: orderToJSON(channel.ordering),
+        version: channel.version,
+      }))
     } catch (error) {
-      logger.error('Failed to get IBC connections', error)
+      logger.error('Failed to get IBC channels', error)
       return []
     }
   }
 
-  async getIBCChannels(): Promise<any[]> {
-    if (!this.tmClient) {
+  /**
+   * 查询连接对应的轻客户端状态（仅支持 Tendermint 客户端）
+   */
+  async getConnectionClientState(
+    connectionId: string
+  ): Promise<ClientStateInfo | null> {
+    if (!this.queryClient) {
       throw new Error('Tendermint client not initialized')
     }
 
     try {
-      const response = await this.tmClient.abciQuery({
-        path: '/ibc.core.channel.v1.Query/Channels',
-        data: new Uint8Array(),
-      })
+      const response = await this.queryClient.ibc.connection.clientState(
+        connectionId
+      )
+      const identified = response.identifiedClientState
+      if (!identified?.clientState) {
+        return null
+      }
 
-      if (response.code !== 0) {
-        throw new Error(`Query failed with code ${response.code}`)
+      if (identified.clientState.typeUrl !== TENDERMINT_CLIENT_STATE_TYPE) {
+        logger.warn(
+          `Unsupported client state type for ${connectionId}: ${identified.clientState.typeUrl}`
+        )
+        return null
       }
 
-      // 这里需要根据实际的protobuf解码来处理响应
-      return []
+      const clientState = TendermintClientState.decode(
+        identified.clientState.value
+      )
+
+      return {
+        clientId: identified.clientId,
+        chainId: clientState.chainId,
+        latestHeight: toIBCHeight(clientState.latestHeight),
+        frozen:
+          !!clientState.frozenHeight &&
+          clientState.frozenHeight.revisionHeight > BigInt(0),
+        trustingPeriodSeconds: Number(clientState.trustingPeriod?.seconds ?? 0),
+        unbondingPeriodSeconds: Number(
+          clientState.unbondingPeriod?.seconds ?? 0
+        ),
+        maxClockDriftSeconds: Number(clientState.maxClockDrift?.seconds ?? 0),
+      }
     } catch (error) {
-      logger.error('Failed to get IBC channels', error)
-      return []
+      logger.error(`Failed to get client state for ${connectionId}`, error)
+      return null
+    }
+  }
+
+  /**
+   * 查询连接对应轻客户端在指定高度的共识状态，不指定高度时使用客户端最新高度
+   */
+  async getConnectionConsensusState(
+    connectionId: string,
+    height?: IBCHeight
+  ): Promise<ConsensusStateInfo | null> {
+    if (!this.queryClient) {
+      throw new Error('Tendermint client not initialized')
+    }
+
+    try {
+      let targetHeight = height
+      if (!targetHeight) {
+        const clientState = await this.getConnectionClientState(connectionId)
+        if (!clientState) {
+          return null
+        }
+        targetHeight = clientState.latestHeight
+      }
+
+      // stargate 的 ibc.connection.consensusState 运行时只接受 revisionHeight，
+      // 直接调用 Query 服务以同时传入 revisionNumber
+      const connectionQuery = new ConnectionQueryClient(
+        createProtobufRpcClient(this.queryClient)
+      )
+      const response = await connectionQuery.ConnectionConsensusState(
+        QueryConnectionConsensusStateRequest.fromPartial({
+          connectionId,
+          revisionNumber: BigInt(targetHeight.revisionNumber),
+          revisionHeight: BigInt(targetHeight.revisionHeight),
+        })
+      )
+      if (
+        !response.consensusState ||
+        response.consensusState.typeUrl !== TENDERMINT_CONSENSUS_STATE_TYPE
+      ) {
+        return null
+      }
+
+      const consensusState = TendermintConsensusState.decode(
+        response.consensusState.value
+      )
+
+      return {
+        clientId: response.clientId,
+        height: targetHeight,
+        timestamp: consensusState.timestamp
+          ? new Date(
+              Number(consensusState.timestamp.seconds) * 1000 +
+                Math.floor(consensusState.timestamp.nanos / 1000000)
+            )
+          : undefined,
+        root: toHex(consensusState.root?.hash ?? new Uint8Array()),
+        nextValidatorsHash: toHex(consensusState.nextValidatorsHash),
+      }
+    } catch (error) {
+      logger.error(`Failed to get consensus state for ${connectionId}`, error)
+      return null
+    }
+  }
+
+  /**
+   * granter 是否给 grantee 授予了 fee allowance
+   */
+  async hasFeeAllowance(granter: string, grantee: string): Promise<boolean> {
+    if (!this.queryClient) {
+      throw new Error('Client not connected')
+    }
+
+    try {
+      const response = await this.queryClient.feegrant.allowance(
+        granter,
+        grantee
+      )
+      return !!response.allowance
+    } catch (error) {
+      // 不存在时返回 NotFound 错误
+      return false
+    }
+  }
+
+  /**
+   * granter 是否给 grantee 授予了任意 authz 权限
+   */
+  async hasAuthzGrant(granter: string, grantee: string): Promise<boolean> {
+    if (!this.queryClient) {
+      throw new Error('Client not connected')
+    }
+
+    try {
+      const response = await this.queryClient.authz.grants(granter, grantee, '')
+      return response.grants.length > 0
+    } catch (error) {
+      return false
     }
   }
 
@@ -218,4 +430,12 @@ export class CosmosClient {
   getTendermintClient(): Tendermint34Client | undefined {
     return this.tmClient
   }
+
+  getQueryClient(): ChainQueryClient | undefined {
+    return this.queryClient
+  }
+
+  getChainConfig(): ChainConfig {
+    return this.config
+  }
 }
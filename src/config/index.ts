@@ -1,42 +1,83 @@
 import * as dotenv from 'dotenv'
-import { TestConfig, RelayerTestConfig, ValidatorInfo } from '../types'
+import { readFileSync } from 'fs'
+import {
+  TestConfig,
+  RelayerTestConfig,
+  ValidatorInfo,
+  ChainConfig,
+  IBCPathConfig,
+  IncentiveScoringConfig,
+  TimeoutPolicy,
+  LoadProfile,
+} from '../types'
+import { DEFAULT_PATH_ID, reversePath } from '../utils/ibcPaths'
+import { TIMEOUT_POLICY_MODES } from '../utils/timeoutPolicy'
+import { LOAD_PROFILE_MODES } from '../utils/loadProfile'
 
 dotenv.config()
 
+const DEFAULT_TIMEOUT_POLICY: TimeoutPolicy = {
+  mode: 'both',
+  heightOffset: 1000,
+  timestampSeconds: 60,
+}
+
+const DEFAULT_LOAD_PROFILE: LoadProfile = {
+  mode: 'constant',
+  rate: 0.1,
+  peakRate: 1,
+  durationSeconds: 300,
+  stepSeconds: 60,
+  burstSeconds: 10,
+  sampleSeconds: 30,
+}
+
 export function loadConfig(): TestConfig {
   const requiredEnvVars = [
     'CHAIN_A_RPC',
     'CHAIN_A_ID',
     'CHAIN_A_PREFIX',
-    'CHAIN_B_RPC',
-    'CHAIN_B_ID',
-    'CHAIN_B_PREFIX',
     'TEST_MNEMONIC',
-    'CONNECTION_ID',
-    'CHANNEL_ID',
   ]
 
+  // 配置了 RELAYER_PATHS 时，Chain B 和 IBC 参数默认取第一条路径
+  const rawPaths = readRawPaths()
+  if (!rawPaths) {
+    requiredEnvVars.push(
+      'CHAIN_B_RPC',
+      'CHAIN_B_ID',
+      'CHAIN_B_PREFIX',
+      'CONNECTION_ID',
+      'CHANNEL_ID'
+    )
+  }
+
   for (const envVar of requiredEnvVars) {
     if (!process.env[envVar]) {
       throw new Error(`Required environment variable ${envVar} is not set`)
     }
   }
 
+  const chainA: ChainConfig = {
+    rpc: process.env.CHAIN_A_RPC!,
+    chainId: process.env.CHAIN_A_ID!,
+    prefix: process.env.CHAIN_A_PREFIX!,
+  }
+  const firstPath = rawPaths ? parsePath(rawPaths[0], 0, chainA) : undefined
+
   return {
-    chainA: {
-      rpc: process.env.CHAIN_A_RPC!,
-      chainId: process.env.CHAIN_A_ID!,
-      prefix: process.env.CHAIN_A_PREFIX!,
-    },
+    chainA,
     chainB: {
-      rpc: process.env.CHAIN_B_RPC!,
-      chainId: process.env.CHAIN_B_ID!,
-      prefix: process.env.CHAIN_B_PREFIX!,
+      rpc: process.env.CHAIN_B_RPC || firstPath!.destination.rpc,
+      chainId: process.env.CHAIN_B_ID || firstPath!.destination.chainId,
+      prefix: process.env.CHAIN_B_PREFIX || firstPath!.destination.prefix,
+      gasPrice:
+        process.env.CHAIN_B_GAS_PRICE || firstPath?.destination.gasPrice,
     },
     ibc: {
-      connectionId: process.env.CONNECTION_ID!,
-      channelId: process.env.CHANNEL_ID!,
-      portId: process.env.PORT_ID || 'transfer',
+      connectionId: process.env.CONNECTION_ID || firstPath!.connectionId || '',
+      channelId: process.env.CHANNEL_ID || firstPath!.channelId,
+      portId: process.env.PORT_ID || firstPath?.portId || 'transfer',
       packetTimeoutHeight: parseInt(
         process.env.PACKET_TIMEOUT_HEIGHT || '1000'
       ),
@@ -48,6 +89,13 @@ export function loadConfig(): TestConfig {
       durationMinutes: parseInt(process.env.TEST_DURATION_MINUTES || '60'),
       maxConcurrentTxs: parseInt(process.env.MAX_CONCURRENT_TXS || '10'),
       mnemonic: process.env.TEST_MNEMONIC!,
+      accountPool: {
+        size: parseInt(process.env.ACCOUNT_POOL_SIZE || '0'),
+        transfersPerAccount: parseInt(
+          process.env.ACCOUNT_POOL_TRANSFERS || '20'
+        ),
+        sweep: process.env.ACCOUNT_POOL_SWEEP !== 'false',
+      },
     },
     gas: {
       price: process.env.GAS_PRICE || '25000000000',
@@ -79,20 +127,313 @@ export function loadRelayerTestConfig(): RelayerTestConfig {
     },
   ]
 
+  const relayer = {
+    testAmount: process.env.RELAYER_TEST_AMOUNT || '1000000000',
+    testDenom: process.env.RELAYER_TEST_DENOM || 'peaka',
+    timeoutSeconds: parseInt(process.env.RELAYER_TIMEOUT_SECONDS || '60'),
+    receiverChainReceiveAddress: process.env.RECEIVE_ADDRESS || '',
+    batchSize: parseInt(process.env.RELAYER_BATCH_SIZE || '10'),
+    testInterval: parseInt(process.env.RELAYER_TEST_INTERVAL || '3600'), // 1小时
+    probeSlotSeconds: parseInt(
+      process.env.PROBE_SLOT_SECONDS ||
+        process.env.RELAYER_TEST_INTERVAL ||
+        '3600'
+    ),
+    raceScanBlocks: parseInt(process.env.RELAYER_RACE_SCAN_BLOCKS || '3'),
+    dailyBudget: parseDailyBudget(
+      process.env.TEST_WALLET_DAILY_BUDGET,
+      baseConfig.gas.denom
+    ),
+    timeoutTestCount: parseInt(process.env.TIMEOUT_TEST_COUNT || '0'),
+    timeoutTestBlocks: parseInt(process.env.TIMEOUT_TEST_BLOCKS || '1'),
+    bidirectional: process.env.RELAYER_BIDIRECTIONAL === 'true',
+    multiMsgBatchSize: parseInt(process.env.MULTI_MSG_BATCH_SIZE || '0'),
+    multiMsgBatchCount: parseInt(process.env.MULTI_MSG_BATCH_COUNT || '1'),
+    load: parseLoadProfile(
+      {
+        mode: process.env.LOAD_PROFILE,
+        rate: process.env.LOAD_RATE,
+        peakRate: process.env.LOAD_PEAK_RATE,
+        durationSeconds: process.env.LOAD_DURATION_SECONDS,
+        stepSeconds: process.env.LOAD_STEP_SECONDS,
+        burstSeconds: process.env.LOAD_BURST_SECONDS,
+        sampleSeconds: process.env.LOAD_SAMPLE_SECONDS,
+      },
+      DEFAULT_LOAD_PROFILE,
+      'LOAD_PROFILE'
+    ),
+    useWebSocket: process.env.RELAYER_USE_WEBSOCKET !== 'false',
+  }
+  const timeout = parseTimeoutPolicy(
+    {
+      mode: process.env.PACKET_TIMEOUT_POLICY,
+      heightOffset: process.env.PACKET_TIMEOUT_BLOCKS,
+      timestampSeconds: process.env.PACKET_TIMEOUT_SECONDS,
+    },
+    { ...DEFAULT_TIMEOUT_POLICY, timestampSeconds: relayer.timeoutSeconds },
+    'PACKET_TIMEOUT'
+  )
+
+  const paths = loadPathsFromEnv(baseConfig, { ...relayer, timeout }) || [
+    {
+      id: DEFAULT_PATH_ID,
+      source: baseConfig.chainA,
+      destination: baseConfig.chainB,
+      portId: baseConfig.ibc.portId,
+      channelId: baseConfig.ibc.channelId,
+      connectionId: baseConfig.ibc.connectionId,
+      receiver: relayer.receiverChainReceiveAddress,
+      denom: relayer.testDenom,
+      amount: relayer.testAmount,
+      timeout,
+    },
+  ]
+
   return {
     ...baseConfig,
-    relayer: {
-      testAmount: process.env.RELAYER_TEST_AMOUNT || '1000000000',
-      testDenom: process.env.RELAYER_TEST_DENOM || 'peaka',
-      timeoutSeconds: parseInt(process.env.RELAYER_TIMEOUT_SECONDS || '60'),
-      receiverChainReceiveAddress: process.env.RECEIVE_ADDRESS || '',
-      batchSize: parseInt(process.env.RELAYER_BATCH_SIZE || '10'),
-      testInterval: parseInt(process.env.RELAYER_TEST_INTERVAL || '3600'), // 1小时
-    },
+    relayer,
+    incentive: loadIncentiveConfigFromEnv(),
+    // 双向测试：每条路径后追加把 voucher 转回源链的反向路径
+    paths: relayer.bidirectional
+      ? paths.flatMap((path) => [path, reversePath(path)])
+      : paths,
     validators: loadValidatorsFromEnv() || defaultValidators,
   }
 }
 
+/**
+ * 读取路径列表的原始JSON：RELAYER_PATHS 直接给出JSON，
+ * RELAYER_PATHS_FILE 指向一个JSON文件（多条路径时更易维护）
+ */
+function readRawPaths(): any[] | null {
+  let pathsJson = process.env.RELAYER_PATHS
+  if (!pathsJson && process.env.RELAYER_PATHS_FILE) {
+    pathsJson = readFileSync(process.env.RELAYER_PATHS_FILE, 'utf-8')
+  }
+  if (!pathsJson) return null
+
+  let parsed: any
+  try {
+    parsed = JSON.parse(pathsJson)
+  } catch (error) {
+    throw new Error(`Failed to parse RELAYER_PATHS: ${error}`)
+  }
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('RELAYER_PATHS must be a non-empty JSON array')
+  }
+  return parsed
+}
+
+function parsePath(
+  raw: any,
+  index: number,
+  defaultSource: ChainConfig,
+  defaults: { denom?: string; amount?: string; timeout?: TimeoutPolicy } = {}
+): IBCPathConfig {
+  const destination = raw?.destination
+  if (!destination?.rpc || !destination?.chainId || !destination?.prefix) {
+    throw new Error(
+      `RELAYER_PATHS[${index}]: destination.rpc, destination.chainId and destination.prefix are required`
+    )
+  }
+  if (!raw.channelId) {
+    throw new Error(`RELAYER_PATHS[${index}]: channelId is required`)
+  }
+
+  return {
+    id: raw.id || `${destination.chainId}-${raw.channelId}`,
+    source: raw.source || defaultSource,
+    destination,
+    portId: raw.portId || 'transfer',
+    channelId: raw.channelId,
+    connectionId: raw.connectionId,
+    receiver: raw.receiver || '',
+    denom: raw.denom || defaults.denom || '',
+    amount: raw.amount || defaults.amount || '',
+    timeout: parseTimeoutPolicy(
+      raw.timeout || {},
+      defaults.timeout || DEFAULT_TIMEOUT_POLICY,
+      `RELAYER_PATHS[${index}].timeout`
+    ),
+  }
+}
+
+/**
+ * 超时策略，未给出的字段取默认值
+ */
+function parseTimeoutPolicy(
+  raw: {
+    mode?: string
+    heightOffset?: string | number
+    timestampSeconds?: string | number
+  },
+  defaults: TimeoutPolicy,
+  label: string
+): TimeoutPolicy {
+  const mode = raw.mode || defaults.mode
+  if (!TIMEOUT_POLICY_MODES.includes(mode as TimeoutPolicy['mode'])) {
+    throw new Error(
+      `${label}: invalid mode ${mode}, expected ${TIMEOUT_POLICY_MODES.join(
+        ' / '
+      )}`
+    )
+  }
+
+  const number = (value: string | number | undefined, fallback: number) =>
+    value !== undefined && value !== '' ? Number(value) : fallback
+  const policy: TimeoutPolicy = {
+    mode: mode as TimeoutPolicy['mode'],
+    heightOffset: number(raw.heightOffset, defaults.heightOffset),
+    timestampSeconds: number(raw.timestampSeconds, defaults.timestampSeconds),
+  }
+
+  // 启用的超时维度必须为正整数，否则 packet 可能没有有效的超时
+  if (
+    policy.mode !== 'timestamp' &&
+    !(Number.isInteger(policy.heightOffset) && policy.heightOffset > 0)
+  ) {
+    throw new Error(
+      `${label}: height offset must be a positive integer, got ${
+        raw.heightOffset ?? policy.heightOffset
+      }`
+    )
+  }
+  if (
+    policy.mode !== 'height' &&
+    !(Number.isInteger(policy.timestampSeconds) && policy.timestampSeconds > 0)
+  ) {
+    throw new Error(
+      `${label}: timestamp seconds must be a positive integer, got ${
+        raw.timestampSeconds ?? policy.timestampSeconds
+      }`
+    )
+  }
+  return policy
+}
+
+/**
+ * 开环负载的速率曲线，未给出的字段取默认值
+ */
+export function parseLoadProfile(
+  raw: Partial<Record<keyof LoadProfile, string | number>>,
+  defaults: LoadProfile,
+  label: string
+): LoadProfile {
+  const mode = String(raw.mode || defaults.mode)
+  if (!LOAD_PROFILE_MODES.includes(mode as LoadProfile['mode'])) {
+    throw new Error(
+      `${label}: invalid mode ${mode}, expected ${LOAD_PROFILE_MODES.join(
+        ' / '
+      )}`
+    )
+  }
+
+  const number = (value: string | number | undefined, fallback: number) =>
+    value !== undefined && value !== '' ? parseFloat(String(value)) : fallback
+  const profile: LoadProfile = {
+    mode: mode as LoadProfile['mode'],
+    rate: number(raw.rate, defaults.rate),
+    peakRate: number(raw.peakRate, defaults.peakRate),
+    durationSeconds: number(raw.durationSeconds, defaults.durationSeconds),
+    stepSeconds: number(raw.stepSeconds, defaults.stepSeconds),
+    burstSeconds: number(raw.burstSeconds, defaults.burstSeconds),
+    sampleSeconds: number(raw.sampleSeconds, defaults.sampleSeconds),
+  }
+
+  if (
+    !(profile.rate >= 0 && profile.peakRate >= 0) ||
+    profile.rate + profile.peakRate === 0
+  ) {
+    throw new Error(`${label}: rate and peak rate must be >= 0, not both 0`)
+  }
+  if (
+    !(profile.durationSeconds > 0) ||
+    !(profile.stepSeconds > 0) ||
+    !(profile.sampleSeconds > 0) ||
+    !(profile.burstSeconds >= 0)
+  ) {
+    throw new Error(
+      `${label}: duration, step and sample seconds must be > 0, burst seconds >= 0`
+    )
+  }
+  return profile
+}
+
+function loadPathsFromEnv(
+  baseConfig: TestConfig,
+  relayer: { testDenom: string; testAmount: string; timeout: TimeoutPolicy }
+): IBCPathConfig[] | null {
+  const rawPaths = readRawPaths()
+  if (!rawPaths) return null
+
+  const paths = rawPaths.map((raw, index) =>
+    parsePath(raw, index, baseConfig.chainA, {
+      denom: relayer.testDenom,
+      amount: relayer.testAmount,
+      timeout: relayer.timeout,
+    })
+  )
+
+  const ids = new Set<string>()
+  for (const path of paths) {
+    if (ids.has(path.id)) {
+      throw new Error(`Duplicate path id in RELAYER_PATHS: ${path.id}`)
+    }
+    ids.add(path.id)
+  }
+
+  return paths
+}
+
+/**
+ * TEST_WALLET_DAILY_BUDGET: "5000000000000000000" (手续费 denom) 或 "5000000000000000000peaka"
+ */
+function parseDailyBudget(
+  value: string | undefined,
+  feeDenom: string
+): { amount: string; denom: string } | undefined {
+  if (!value) return undefined
+
+  const match = value.trim().match(/^(\d+)([a-zA-Z][\w/-]*)?$/)
+  if (!match) {
+    throw new Error(`Invalid TEST_WALLET_DAILY_BUDGET: ${value}`)
+  }
+  return { amount: match[1], denom: match[2] || feeDenom }
+}
+
+const defaultIncentiveConfig: IncentiveScoringConfig = {
+  weights: { successShare: 0.5, latency: 0.2, availability: 0.3 },
+  latencyPercentile: 90,
+  latencyTargetMs: 30000,
+  latencyMaxMs: 300000,
+  availabilityWindowMinutes: 60,
+  penalties: { identityAnomaly: 0.1, consecutiveFailure: 0.02, maxPenalty: 1 },
+  minSuccessfulRelays: 1,
+}
+
+/**
+ * INCENTIVE_SCORING_CONFIG 只需给出要覆盖的字段
+ */
+function loadIncentiveConfigFromEnv(): IncentiveScoringConfig {
+  const incentiveJson = process.env.INCENTIVE_SCORING_CONFIG
+  if (!incentiveJson) return defaultIncentiveConfig
+
+  let parsed: Partial<IncentiveScoringConfig>
+  try {
+    parsed = JSON.parse(incentiveJson)
+  } catch (error) {
+    throw new Error(`Failed to parse INCENTIVE_SCORING_CONFIG: ${error}`)
+  }
+
+  return {
+    ...defaultIncentiveConfig,
+    ...parsed,
+    weights: { ...defaultIncentiveConfig.weights, ...parsed.weights },
+    penalties: { ...defaultIncentiveConfig.penalties, ...parsed.penalties },
+  }
+}
+
 function loadValidatorsFromEnv(): ValidatorInfo[] | null {
   const validatorsJson = process.env.VALIDATORS_CONFIG
   if (!validatorsJson) return null
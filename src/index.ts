@@ -4,6 +4,8 @@ import { Command } from 'commander'
 import { config } from './config'
 import { logger } from './utils/logger'
 import TestRunner from './TestRunner'
+import { IncentiveInput } from './utils/IncentiveScorer'
+import { BatchRelayerStats, IBCPathConfig } from './types'
 
 const program = new Command()
 
@@ -68,6 +70,7 @@ program
     'Test interval in hours for continuous mode',
     '1'
   )
+  .option('-p, --path <id>', 'Only test the given path (default: all paths)')
   .action(async (options) => {
     if (options.verbose) {
       logger.setLogLevel('debug')
@@ -81,9 +84,9 @@ program
         logger.info(
           `Starting continuous relayer test with ${intervalHours}h interval`
         )
-        await runner.runContinuousRelayerTest(intervalHours)
+        await runner.runContinuousRelayerTest(intervalHours, options.path)
       } else {
-        const result = await runner.runRelayerTest()
+        const result = await runner.runRelayerTest(options.path)
         process.exit(result.success ? 0 : 1)
       }
     } catch (error) {
@@ -96,6 +99,7 @@ program
   .command('single-transfer')
   .description('Run a single IBC transfer test')
   .option('-v, --verbose', 'Enable verbose logging')
+  .option('-p, --path <id>', 'Only test the given path (default: all paths)')
   .action(async (options) => {
     if (options.verbose) {
       logger.setLogLevel('debug')
@@ -104,22 +108,49 @@ program
     try {
       const { IBCRelayerTest } = await import('./tests/IBCRelayerTest')
       const { relayerConfig } = await import('./config')
+      const { selectPaths } = await import('./utils/ibcPaths')
+      const { OUTCOME_LABELS, getLogOutcome } = await import(
+        './utils/packetOutcome'
+      )
 
-      const relayerTest = new IBCRelayerTest(relayerConfig)
-      const log = await relayerTest.runSingleTransferTest()
-
-      logger.info('Single Transfer Test Result:')
-      logger.info(`  Success: ${log.success ? '✅' : '❌'}`)
-      logger.info(`  TX Hash: ${log.txHash}`)
-      logger.info(`  Latency: ${log.latency}ms`)
-      logger.info(`  Relayer: ${log.memoIdentifier || 'Unknown'}`)
-      logger.info(`  Signer: ${log.relayerSigner || 'Unknown'}`)
+      let allSucceeded = true
+
+      for (const path of selectPaths(relayerConfig, options.path)) {
+        const relayerTest = new IBCRelayerTest(relayerConfig, path)
+        const log = await relayerTest.runSingleTransferTest()
+
+        logger.info(`Single Transfer Test Result [${path.id}]:`)
+        logger.info(`  Success: ${log.success ? '✅' : '❌'}`)
+        logger.info(`  Outcome: ${OUTCOME_LABELS[getLogOutcome(log)].en}`)
+        logger.info(`  TX Hash: ${log.txHash}`)
+        logger.info(`  Latency: ${log.latency}ms`)
+        logger.info(`  Relayer: ${log.memoIdentifier || 'Unknown'}`)
+        logger.info(`  Signer: ${log.relayerSigner || 'Unknown'}`)
+
+        if (log.lifecycle) {
+          const { recv, ack } = log.lifecycle
+          logger.info(
+            `  Recv leg: ${log.lifecycle.recvLatency ?? 'N/A'}ms (${
+              recv?.relayer || 'Unknown'
+            })`
+          )
+          logger.info(
+            `  Ack leg: ${log.lifecycle.ackLatency ?? 'N/A'}ms (${
+              ack?.relayer || 'Unknown'
+            })`
+          )
+          logger.info(
+            `  Round trip: ${log.lifecycle.roundTripLatency ?? 'N/A'}ms`
+          )
+        }
 
-      if (!log.success) {
-        logger.error(`  Error: ${log.errorMessage}`)
+        if (!log.success) {
+          logger.error(`  Error: ${log.errorMessage}`)
+          allSucceeded = false
+        }
       }
 
-      process.exit(log.success ? 0 : 1)
+      process.exit(allSucceeded ? 0 : 1)
     } catch (error) {
       logger.error('Failed to run single transfer test')
 
@@ -162,6 +193,7 @@ program
     '0'
   )
   .option('--stop-on-error', 'Stop testing when an error occurs')
+  .option('-p, --path <id>', 'Only test the given path (default: all paths)')
   .action(async (options) => {
     if (options.verbose) {
       logger.setLogLevel('debug')
@@ -181,10 +213,16 @@ program
     try {
       const { IBCRelayerTest } = await import('./tests/IBCRelayerTest')
       const { relayerConfig } = await import('./config')
+      const { selectPaths } = await import('./utils/ibcPaths')
 
-      const relayerTest = new IBCRelayerTest(relayerConfig)
+      const relayerTests = selectPaths(relayerConfig, options.path).map(
+        (path) => new IBCRelayerTest(relayerConfig, path)
+      )
 
       logger.info('🔄 Starting continuous IBC transfer tests...')
+      logger.info(
+        `   Paths: ${relayerTests.map((t) => t.getPath().id).join(', ')}`
+      )
       logger.info(`   Interval: ${interval} seconds`)
       logger.info(`   Max count: ${maxCount === 0 ? 'unlimited' : maxCount}`)
       logger.info(`   Stop on error: ${stopOnError ? 'yes' : 'no'}`)
@@ -192,6 +230,7 @@ program
       logger.separator()
 
       let count = 0
+      let transferCount = 0
       let successCount = 0
       let errorCount = 0
 
@@ -214,39 +253,55 @@ program
 
         logger.info(`\n📡 Test #${count} starting...`)
 
-        try {
-          const log = await relayerTest.runSingleTransferTest()
-
-          if (log.success) {
-            successCount++
-            logger.info(`✅ Test #${count} completed successfully`)
-            logger.info(`   TX Hash: ${log.txHash}`)
-            logger.info(`   Latency: ${log.latency}ms`)
-            logger.info(`   Relayer: ${log.memoIdentifier || 'Unknown'}`)
-            logger.info(`   Signer: ${log.relayerSigner || 'Unknown'}`)
-          } else {
+        let stopRequested = false
+        for (const relayerTest of relayerTests) {
+          const pathId = relayerTest.getPath().id
+          transferCount++
+
+          try {
+            const log = await relayerTest.runSingleTransferTest()
+
+            if (log.success) {
+              successCount++
+              logger.info(
+                `✅ Test #${count} [${pathId}] completed successfully`
+              )
+              logger.info(`   TX Hash: ${log.txHash}`)
+              logger.info(`   Latency: ${log.latency}ms`)
+              logger.info(`   Relayer: ${log.memoIdentifier || 'Unknown'}`)
+              logger.info(`   Signer: ${log.relayerSigner || 'Unknown'}`)
+            } else {
+              errorCount++
+              logger.error(
+                `❌ Test #${count} [${pathId}] failed: ${log.errorMessage}`
+              )
+
+              if (stopOnError) {
+                logger.error('Stopping due to --stop-on-error flag')
+                stopRequested = true
+                break
+              }
+            }
+          } catch (error) {
             errorCount++
-            logger.error(`❌ Test #${count} failed: ${log.errorMessage}`)
+            logger.error(`❌ Test #${count} [${pathId}] crashed:`, error)
 
             if (stopOnError) {
               logger.error('Stopping due to --stop-on-error flag')
+              stopRequested = true
               break
             }
           }
-        } catch (error) {
-          errorCount++
-          logger.error(`❌ Test #${count} crashed:`, error)
+        }
 
-          if (stopOnError) {
-            logger.error('Stopping due to --stop-on-error flag')
-            break
-          }
+        if (stopRequested) {
+          break
         }
 
         // 显示统计信息
-        const successRate = ((successCount / count) * 100).toFixed(1)
+        const successRate = ((successCount / transferCount) * 100).toFixed(1)
         logger.info(
-          `📊 Stats: ${successCount}/${count} success (${successRate}%), ${errorCount} errors`
+          `📊 Stats: ${successCount}/${transferCount} success (${successRate}%), ${errorCount} errors`
         )
 
         // 如果还有更多测试要运行，等待间隔时间
@@ -275,11 +330,12 @@ program
 
       logger.separator()
       logger.info('🏁 Continuous testing completed')
-      logger.info(`   Total tests: ${count}`)
+      logger.info(`   Total rounds: ${count}`)
+      logger.info(`   Total transfers: ${transferCount}`)
       logger.info(`   Successful: ${successCount}`)
       logger.info(`   Failed: ${errorCount}`)
       logger.info(
-        `   Success rate: ${((successCount / count) * 100).toFixed(1)}%`
+        `   Success rate: ${((successCount / transferCount) * 100).toFixed(1)}%`
       )
 
       process.exit(errorCount === 0 ? 0 : 1)
@@ -289,10 +345,154 @@ program
     }
   })
 
+program
+  .command('load-test')
+  .description(
+    'Submit packets at a target rate without waiting for acks and measure relayer throughput'
+  )
+  .option('-v, --verbose', 'Enable verbose logging')
+  .option('-m, --mode <mode>', 'Rate profile: constant, ramp, step or burst')
+  .option('-r, --rate <pps>', 'Packets per second (start / base rate)')
+  .option('--peak-rate <pps>', 'Final rate of ramp / step, peak of burst')
+  .option('-d, --duration <seconds>', 'Duration of the load')
+  .option('--step <seconds>', 'Step length, or burst period')
+  .option('--burst <seconds>', 'Burst length at the start of each period')
+  .option('--sample <seconds>', 'Sampling interval of throughput and backlog')
+  .option('-p, --path <id>', 'Only load the given path (default: all paths)')
+  .action(async (options) => {
+    if (options.verbose) {
+      logger.setLogLevel('debug')
+    }
+
+    try {
+      const { IBCRelayerTest } = await import('./tests/IBCRelayerTest')
+      const { relayerConfig, parseLoadProfile } = await import('./config')
+      const { selectPaths } = await import('./utils/ibcPaths')
+
+      const profile = parseLoadProfile(
+        {
+          mode: options.mode,
+          rate: options.rate,
+          peakRate: options.peakRate,
+          durationSeconds: options.duration,
+          stepSeconds: options.step,
+          burstSeconds: options.burst,
+          sampleSeconds: options.sample,
+        },
+        relayerConfig.relayer.load,
+        'load-test'
+      )
+
+      for (const path of selectPaths(relayerConfig, options.path)) {
+        const relayerTest = new IBCRelayerTest(relayerConfig, path)
+        const summary = await relayerTest.runLoadTest(profile)
+
+        logger.info(`Load Test Result [${path.id}] (${profile.mode}):`)
+        logger.info(
+          `  Submitted: ${summary.submitted}, Send failed: ${summary.sendFailed}, Max send lag: ${summary.maxSendLagMs}ms`
+        )
+        logger.info(
+          `  Relayed: ${summary.relayed}, Timed out: ${summary.timedOut}, Pending: ${summary.pending}`
+        )
+        logger.info(
+          `  Throughput: ${summary.relayedPerSecond.toFixed(3)} packets/s`
+        )
+        logger.info(
+          `  Peak backlog: ${Math.max(
+            0,
+            ...summary.samples.map((sample) => sample.backlog)
+          )}`
+        )
+        summary.relayers.forEach((relayer) => {
+          logger.info(
+            `  ${relayer.relayer}: ${
+              relayer.relayed
+            } relayed, peak ${relayer.peakRelayedRate.toFixed(3)}/s, ${
+              relayer.saturationRate !== undefined
+                ? `saturated at ${relayer.saturationRate.toFixed(3)}/s`
+                : 'not saturated'
+            }`
+          )
+        })
+      }
+    } catch (error) {
+      logger.error('Load test failed', error)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('multi-msg-test')
+  .description(
+    'Send several MsgTransfer in one transaction and check how relayers relay them'
+  )
+  .option('-v, --verbose', 'Enable verbose logging')
+  .option('-s, --size <number>', 'MsgTransfer messages per transaction')
+  .option('-c, --count <number>', 'Number of transactions')
+  .option('-p, --path <id>', 'Only test the given path (default: all paths)')
+  .action(async (options) => {
+    if (options.verbose) {
+      logger.setLogLevel('debug')
+    }
+
+    try {
+      const { IBCRelayerTest } = await import('./tests/IBCRelayerTest')
+      const { relayerConfig } = await import('./config')
+      const { selectPaths } = await import('./utils/ibcPaths')
+      const { BATCH_PATTERNS, BATCH_PATTERN_LABELS } = await import(
+        './utils/batchRelay'
+      )
+
+      const size = parseInt(
+        options.size || String(relayerConfig.relayer.multiMsgBatchSize || 5)
+      )
+      const count = parseInt(
+        options.count || String(relayerConfig.relayer.multiMsgBatchCount)
+      )
+      if (!(size > 1)) {
+        throw new Error('--size must be at least 2')
+      }
+
+      let allSucceeded = true
+      for (const path of selectPaths(relayerConfig, options.path)) {
+        const relayerTest = new IBCRelayerTest(relayerConfig, path)
+        const result = await relayerTest.runMultiMsgTest(size, count)
+        allSucceeded = allSucceeded && result.success
+
+        logger.info(`Multi-Message Test Result [${path.id}]:`)
+        if (result.error) {
+          logger.error(`  Error: ${result.error}`)
+          continue
+        }
+        logger.info(
+          `  Fully relayed: ${result.details.completeBatches}/${count} transactions of ${size} packets`
+        )
+        result.details.relayers.forEach((relayer: BatchRelayerStats) => {
+          logger.info(
+            `  ${relayer.relayer}: ${relayer.packets} packets in ${
+              relayer.batches
+            } batches (${BATCH_PATTERNS.filter(
+              (pattern) => relayer.patterns[pattern] > 0
+            )
+              .map(
+                (pattern) =>
+                  `${BATCH_PATTERN_LABELS[pattern].en} ${relayer.patterns[pattern]}`
+              )
+              .join(', ')})`
+          )
+        })
+      }
+      process.exit(allSucceeded ? 0 : 1)
+    } catch (error) {
+      logger.error('Multi-message test failed', error)
+      process.exit(1)
+    }
+  })
+
 program
   .command('config')
   .description('Show current configuration')
-  .action(() => {
+  .action(async () => {
     logger.info('Current Configuration:')
     logger.info('Chain A:', {
       rpc: config.chainA.rpc,
@@ -319,51 +519,76 @@ program
       adjustment: config.gas.adjustment,
       auto: config.gas.auto,
     })
+
+    const { relayerConfig } = await import('./config')
+    logger.info(`Relayer Test Paths (${relayerConfig.paths.length}):`)
+    relayerConfig.paths.forEach((path) => {
+      logger.info(`  ${path.id}:`, {
+        source: path.source.chainId,
+        destination: path.destination.chainId,
+        portId: path.portId,
+        channelId: path.channelId,
+        connectionId: path.connectionId,
+        receiver: path.receiver,
+        token: `${path.amount}${path.denom}`,
+        reverseOf: path.reverseOf,
+      })
+    })
   })
 
 program
   .command('show-logs')
   .description('Show recent relayer test logs')
   .option('--count <number>', 'Number of recent logs to show', '10')
+  .option('-p, --path <id>', 'Only show logs of the given path')
   .action(async (options) => {
     try {
       const { IBCRelayerTest } = await import('./tests/IBCRelayerTest')
       const { relayerConfig } = await import('./config')
+      const { selectPaths, describePath } = await import('./utils/ibcPaths')
+      const { OUTCOME_LABELS, getLogOutcome } = await import(
+        './utils/packetOutcome'
+      )
 
-      const relayerTest = new IBCRelayerTest(relayerConfig)
-      const logs = relayerTest.getRelayerLogs()
       const count = parseInt(options.count)
 
-      if (logs.length === 0) {
-        logger.info('No test logs found')
-        return
-      }
-
-      logger.info(`📊 Recent ${Math.min(count, logs.length)} test logs:`)
-      logger.separator()
-
-      const recentLogs = logs.slice(-count).reverse()
-      recentLogs.forEach((log, index) => {
-        const status = log.success ? '✅ SUCCESS' : '❌ FAILED'
-        const relayer =
-          log.memoIdentifier?.replace('relayed-by:', '') || 'Unknown'
+      for (const path of selectPaths(relayerConfig, options.path)) {
+        const relayerTest = new IBCRelayerTest(relayerConfig, path)
+        const logs = relayerTest.getRelayerLogs({ limit: count })
 
-        logger.info(
-          `${index + 1}. ${log.testTime.toLocaleString()} - ${status}`
-        )
-        logger.info(`   Latency: ${log.latency}ms | Relayer: ${relayer}`)
-        logger.info(
-          `   TX: ${log.txHash.slice(0, 16)}... | Seq: ${log.packetSequence}`
-        )
+        logger.title(`${path.id}: ${describePath(path)}`)
 
-        if (!log.success && log.errorMessage) {
-          logger.error(`   Error: ${log.errorMessage}`)
+        if (logs.length === 0) {
+          logger.info('No test logs found')
+          continue
         }
 
-        if (index < recentLogs.length - 1) {
-          logger.info('')
-        }
-      })
+        logger.info(`📊 Recent ${logs.length} test logs:`)
+        logger.separator()
+
+        const recentLogs = logs.reverse()
+        recentLogs.forEach((log, index) => {
+          const status = OUTCOME_LABELS[getLogOutcome(log)].en
+          const relayer =
+            log.memoIdentifier?.replace('relayed-by:', '') || 'Unknown'
+
+          logger.info(
+            `${index + 1}. ${log.testTime.toLocaleString()} - ${status}`
+          )
+          logger.info(`   Latency: ${log.latency}ms | Relayer: ${relayer}`)
+          logger.info(
+            `   TX: ${log.txHash.slice(0, 16)}... | Seq: ${log.packetSequence}`
+          )
+
+          if (!log.success && log.errorMessage) {
+            logger.error(`   Error: ${log.errorMessage}`)
+          }
+
+          if (index < recentLogs.length - 1) {
+            logger.info('')
+          }
+        })
+      }
     } catch (error) {
       logger.error('Failed to show logs', error)
       process.exit(1)
@@ -373,24 +598,59 @@ program
 program
   .command('generate-report')
   .description('Generate HTML and Markdown reports from existing test data')
-  .action(async () => {
+  .option('-p, --path <id>', 'Only generate the report of the given path')
+  .option('--from <time>', 'Only include logs from this time (ISO)')
+  .option('--to <time>', 'Only include logs up to this time (ISO)')
+  .option(
+    '-w, --window <window>',
+    'hourly, daily, weekly or epoch:<blocks>[:<index>] (height epochs)'
+  )
+  .action(async (options) => {
     try {
       const { IBCRelayerTest } = await import('./tests/IBCRelayerTest')
       const { ReportGenerator } = await import('./utils/ReportGenerator')
       const { relayerConfig } = await import('./config')
+      const { selectPaths } = await import('./utils/ibcPaths')
+      const { windowToQuery } = await import('./utils/metricsWindow')
+
+      let generated = 0
+
+      for (const path of selectPaths(relayerConfig, options.path)) {
+        const relayerTest = new IBCRelayerTest(relayerConfig, path)
+        const window = relayerTest.resolveWindow(options)
+        const query = windowToQuery(window?.range)
+        const logs = relayerTest.getRelayerLogs(query)
+        const metrics = relayerTest.getPerformanceMetrics(query)
+
+        if (logs.length === 0) {
+          logger.warn(
+            `No test data found for path ${path.id}${
+              window ? ` in ${window.range.label}` : ''
+            }`
+          )
+          continue
+        }
 
-      const relayerTest = new IBCRelayerTest(relayerConfig)
-      const logs = relayerTest.getRelayerLogs()
-      const metrics = relayerTest.getPerformanceMetrics()
+        const reportGenerator = new ReportGenerator(
+          logs,
+          metrics,
+          path,
+          relayerTest.getIdentityAnomalies(query),
+          {
+            range: window?.range,
+            trends: relayerTest.getMetricsTrends(window),
+          },
+          relayerTest.getRelayRaceStats(query)
+        )
+        reportGenerator.saveReports()
+        generated++
+      }
 
-      if (logs.length === 0) {
+      if (generated === 0) {
         logger.warn('No test data found to generate report')
         return
       }
 
-      const reportGenerator = new ReportGenerator(logs, metrics)
-      reportGenerator.saveReports()
-
       logger.success('Reports generated successfully! 📊')
     } catch (error) {
       logger.error('Failed to generate report', error)
@@ -401,51 +661,486 @@ program
 program
   .command('regenerate-metrics')
   .description('Regenerate metrics file from existing test logs')
-  .action(async () => {
+  .option('-p, --path <id>', 'Only regenerate metrics of the given path')
+  .option('--from <time>', 'Only include logs from this time (ISO)')
+  .option('--to <time>', 'Only include logs up to this time (ISO)')
+  .option(
+    '-w, --window <window>',
+    'hourly, daily, weekly or epoch:<blocks>[:<index>] (height epochs)'
+  )
+  .action(async (options) => {
     try {
       const { IBCRelayerTest } = await import('./tests/IBCRelayerTest')
       const { relayerConfig } = await import('./config')
+      const { selectPaths, pathScopedFileName } = await import(
+        './utils/ibcPaths'
+      )
+      const { getLogStoreFile } = await import('./storage')
+      const { windowToQuery } = await import('./utils/metricsWindow')
       const { writeFileSync } = await import('fs')
 
-      const relayerTest = new IBCRelayerTest(relayerConfig)
-      const logs = relayerTest.getRelayerLogs()
+      for (const path of selectPaths(relayerConfig, options.path)) {
+        const relayerTest = new IBCRelayerTest(relayerConfig, path)
+        const window = relayerTest.resolveWindow(options)
+        const query = windowToQuery(window?.range)
+        const logs = relayerTest.getRelayerLogs(query)
+        const logFile = getLogStoreFile(path.id)
+
+        if (logs.length === 0) {
+          logger.warn(`No test logs found to regenerate metrics (${path.id})`)
+          logger.info(`Make sure ${logFile} exists and contains test data`)
+          continue
+        }
+
+        // 重新计算metrics
+        const metrics = relayerTest.getPerformanceMetrics(query)
+
+        // 保存到文件，指定窗口时不覆盖全量的 metrics 文件
+        const metricsFile = pathScopedFileName(
+          window
+            ? `relayer-metrics-${window.range.label}.json`
+            : 'relayer-metrics.json',
+          path.id
+        )
+        writeFileSync(metricsFile, JSON.stringify(metrics, null, 2))
 
-      if (logs.length === 0) {
-        logger.warn('No test logs found to regenerate metrics')
+        logger.success(`✅ Metrics regenerated successfully for ${path.id}!`)
         logger.info(
-          'Make sure relayer-test-logs.json exists and contains test data'
+          `📊 Generated metrics for ${metrics.length} relayers from ${logs.length} test logs`
         )
+        logger.info(`💾 Saved to: ${metricsFile}`)
+
+        // 显示简要统计
+        metrics.forEach((metric, index) => {
+          logger.info(`${index + 1}. ${metric.validatorMoniker}`)
+          logger.info(
+            `   Tests: ${
+              metric.totalTests
+            }, Success Rate: ${metric.successRate.toFixed(1)}%`
+          )
+        })
+      }
+    } catch (error) {
+      logger.error('Failed to regenerate metrics', error)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('incentives')
+  .description('Score relayers and split an incentive budget for an epoch')
+  .requiredOption(
+    '-b, --budget <amount>',
+    'Budget to distribute, in the smallest unit of the denom'
+  )
+  .option('-d, --denom <denom>', 'Budget denom', 'peaka')
+  .option('--from <time>', 'Epoch start (ISO time)')
+  .option('--to <time>', 'Epoch end (ISO time)')
+  .option('-e, --epoch <label>', 'Epoch label used in the output file names')
+  .option('-f, --format <format>', 'Output format: json, csv or both', 'both')
+  .option('-p, --path <id>', 'Only score the given path (default: all paths)')
+  .action(async (options) => {
+    try {
+      const { IBCRelayerTest } = await import('./tests/IBCRelayerTest')
+      const { IncentiveScorer } = await import('./utils/IncentiveScorer')
+      const { relayerConfig } = await import('./config')
+      const { selectPaths } = await import('./utils/ibcPaths')
+
+      if (!/^\d+$/.test(options.budget)) {
+        throw new Error('--budget must be a non-negative integer')
+      }
+      const formats: ('json' | 'csv')[] =
+        options.format === 'both' ? ['json', 'csv'] : [options.format]
+      if (formats.some((f) => f !== 'json' && f !== 'csv')) {
+        throw new Error('--format must be json, csv or both')
+      }
+
+      const from = options.from ? new Date(options.from) : undefined
+      const to = options.to ? new Date(options.to) : undefined
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        throw new Error('--from/--to must be valid ISO times')
+      }
+
+      // 所有路径的日志合并后统一分配一份预算
+      const input: IncentiveInput = {
+        groups: new Map(),
+        logs: [],
+        anomalies: [],
+      }
+      for (const path of selectPaths(relayerConfig, options.path)) {
+        const pathInput = new IBCRelayerTest(
+          relayerConfig,
+          path
+        ).getIncentiveInput({ from, to })
+        pathInput.groups.forEach((logs, moniker) => {
+          input.groups.set(moniker, [
+            ...(input.groups.get(moniker) || []),
+            ...logs,
+          ])
+        })
+        input.logs.push(...pathInput.logs)
+        input.anomalies.push(...pathInput.anomalies)
+      }
+
+      if (input.logs.length === 0) {
+        logger.warn('No test logs found in the given epoch')
         return
       }
 
-      // 重新计算metrics
-      const metrics = relayerTest.getPerformanceMetrics()
+      const scorer = new IncentiveScorer(relayerConfig.incentive)
+      const allocation = scorer.allocate(
+        input,
+        { label: options.epoch, from, to },
+        { amount: options.budget, denom: options.denom }
+      )
+      scorer.save(allocation, formats, options.path)
 
-      // 保存到文件
-      const metricsFile = 'relayer-metrics.json'
-      writeFileSync(metricsFile, JSON.stringify(metrics, null, 2))
+      allocation.scores.forEach((score, index) => {
+        logger.info(
+          `${index + 1}. ${score.validatorMoniker}: score ${score.score.toFixed(
+            4
+          )}, reward ${score.reward}${options.denom}${
+            score.eligible ? '' : ' (not eligible)'
+          }`
+        )
+      })
+    } catch (error) {
+      logger.error('Failed to allocate incentives', error)
+      process.exit(1)
+    }
+  })
 
-      logger.success(`✅ Metrics regenerated successfully!`)
-      logger.info(
-        `📊 Generated metrics for ${metrics.length} relayers from ${logs.length} test logs`
+program
+  .command('import-logs')
+  .description('Import a legacy relayer-test-logs.json file into the log store')
+  .option('-p, --path <id>', 'Path the imported logs belong to')
+  .option(
+    '-f, --file <file>',
+    'JSON log file to import (default: the legacy log file of the path)'
+  )
+  .action(async (options) => {
+    try {
+      const { relayerConfig } = await import('./config')
+      const { selectPaths } = await import('./utils/ibcPaths')
+      const { createLogStore, getLegacyLogFile, importLegacyLogs } =
+        await import('./storage')
+
+      // 反向路径没有旧版日志文件
+      const paths = selectPaths(relayerConfig, options.path).filter(
+        (path) => !path.reverseOf
       )
-      logger.info(`💾 Saved to: ${metricsFile}`)
+      if (options.file && paths.length > 1) {
+        throw new Error('--file requires --path when multiple paths exist')
+      }
 
-      // 显示简要统计
-      metrics.forEach((metric, index) => {
-        logger.info(`${index + 1}. ${metric.validatorMoniker}`)
+      for (const path of paths) {
+        const file = options.file || getLegacyLogFile(path.id)
+        const { imported, skipped } = importLegacyLogs(
+          createLogStore(path.id),
+          file,
+          path.id
+        )
+        logger.success(
+          `[${path.id}] Imported ${imported} logs from ${file} (${skipped} already present)`
+        )
+      }
+    } catch (error) {
+      logger.error('Failed to import logs', error)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('resume-pending')
+  .description(
+    'Re-scan packets still waiting for a final outcome and back-fill their logs'
+  )
+  .option('-p, --path <id>', 'Only re-scan the given path')
+  .action(async (options) => {
+    try {
+      const { IBCRelayerTest } = await import('./tests/IBCRelayerTest')
+      const { relayerConfig } = await import('./config')
+      const { selectPaths } = await import('./utils/ibcPaths')
+
+      for (const path of selectPaths(relayerConfig, options.path)) {
+        const relayerTest = new IBCRelayerTest(relayerConfig, path)
+        const pending = relayerTest.getPendingPackets()
+
+        if (pending.length === 0) {
+          logger.info(`No pending packets (${path.id})`)
+          continue
+        }
+
+        const resolved = await relayerTest.runPendingRescan()
         logger.info(
-          `   Tests: ${
-            metric.totalTests
-          }, Success Rate: ${metric.successRate.toFixed(1)}%`
+          `[${path.id}] Resolved ${resolved}/${
+            pending.length
+          } pending packets, ${
+            relayerTest.getPendingPackets().length
+          } still pending`
         )
+      }
+
+      process.exit(0)
+    } catch (error) {
+      logger.error('Failed to re-scan pending packets', error)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('verify-relayers')
+  .description(
+    'Verify the relayer addresses declared by validators (signature, feegrant or authz)'
+  )
+  .option('-p, --path <id>', 'Only query the chains of the given path')
+  .action(async (options) => {
+    try {
+      const { CosmosClient } = await import('./clients/CosmosClient')
+      const { relayerConfig } = await import('./config')
+      const { selectPaths } = await import('./utils/ibcPaths')
+      const { RelayerRegistry } = await import('./utils/RelayerRegistry')
+
+      const registry = new RelayerRegistry(relayerConfig.validators)
+      if (!registry.hasBindings()) {
+        logger.warn(
+          'No relayer addresses declared in VALIDATORS_CONFIG, metrics fall back to memo attribution'
+        )
+        process.exit(0)
+      }
+
+      // 每条链只连接一次
+      const chains = new Map(
+        selectPaths(relayerConfig, options.path)
+          .flatMap((path) => [path.source, path.destination])
+          .map((chain) => [chain.chainId, chain])
+      )
+      const clients = Array.from(chains.values()).map(
+        (chain) => new CosmosClient(chain)
+      )
+      await Promise.all(clients.map((client) => client.connect()))
+
+      const results = await registry.verify(clients)
+      results.forEach((result) => {
+        const status = result.verified
+          ? `✅ ${result.method}`
+          : `❌ ${result.error || 'unverified'}`
+        logger.info(`${result.moniker} → ${result.address}: ${status}`)
       })
+
+      await Promise.all(clients.map((client) => client.disconnect()))
+      process.exit(results.every((result) => result.verified) ? 0 : 1)
     } catch (error) {
-      logger.error('Failed to regenerate metrics', error)
+      logger.error('Failed to verify relayer bindings', error)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('sweep-pool')
+  .description(
+    'Return the balances of the sender account pool to the main test account'
+  )
+  .option('-p, --path <id>', 'Only sweep the source chain of the given path')
+  .action(async (options) => {
+    try {
+      const { IBCRelayerTest } = await import('./tests/IBCRelayerTest')
+      const { relayerConfig } = await import('./config')
+      const { selectPaths } = await import('./utils/ibcPaths')
+
+      if (relayerConfig.test.accountPool.size <= 0) {
+        throw new Error('ACCOUNT_POOL_SIZE is not set')
+      }
+
+      for (const path of selectPaths(relayerConfig, options.path)) {
+        const relayerTest = new IBCRelayerTest(relayerConfig, path)
+        await relayerTest.sweepAccountPool()
+      }
+    } catch (error) {
+      logger.error('Failed to sweep account pool', error)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('spend')
+  .description('Show the fees paid by the test wallet per day (UTC)')
+  .option('-p, --path <id>', 'Only show the given path')
+  .option('-d, --days <days>', 'Number of days to show', '7')
+  .action(async (options) => {
+    try {
+      const { IBCRelayerTest } = await import('./tests/IBCRelayerTest')
+      const { relayerConfig } = await import('./config')
+      const { selectPaths } = await import('./utils/ibcPaths')
+
+      const days = parseInt(options.days)
+      const from = new Date(
+        new Date().toISOString().slice(0, 10) + 'T00:00:00Z'
+      )
+      from.setUTCDate(from.getUTCDate() - days + 1)
+      const budget = relayerConfig.relayer.dailyBudget
+
+      // 同一源链上的路径共用测试钱包，按钱包合计
+      const wallets = new Map<string, IBCPathConfig>()
+      selectPaths(relayerConfig, options.path).forEach((path) => {
+        if (!wallets.has(path.source.chainId)) {
+          wallets.set(path.source.chainId, path)
+        }
+      })
+
+      for (const [chainId, path] of wallets) {
+        const relayerTest = new IBCRelayerTest(relayerConfig, path)
+        const spend = relayerTest.getDailySpend({ from })
+        const pathIds = relayerTest.getWalletPaths().map((p) => p.id)
+        logger.info(
+          `[${chainId}] Test wallet spend over ${pathIds.join(', ')}${
+            budget ? ` (daily budget ${budget.amount}${budget.denom})` : ''
+          }`
+        )
+        if (spend.length === 0) {
+          logger.info('   No transfers with recorded fees')
+        }
+        spend.forEach((day) => {
+          const fees = Object.entries(day.fees)
+            .map(([denom, amount]) => `${amount}${denom}`)
+            .join(', ')
+          logger.info(
+            `${day.date}: ${day.transfers} transfers, ${
+              day.gasUsed
+            } gas, fees ${fees || '0'}${
+              day.overBudget ? ' ⚠️ over budget' : ''
+            }`
+          )
+        })
+      }
+    } catch (error) {
+      logger.error('Failed to show test wallet spend', error)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('discover-relayers')
+  .description(
+    'List every address that relayed the test packets, including those not attributed to a validator'
+  )
+  .option('-p, --path <id>', 'Only list relayers of the given path')
+  .action(async (options) => {
+    try {
+      const { IBCRelayerTest } = await import('./tests/IBCRelayerTest')
+      const { relayerConfig } = await import('./config')
+      const { selectPaths, pathScopedFileName } = await import(
+        './utils/ibcPaths'
+      )
+      const { writeFileSync } = await import('fs')
+
+      for (const path of selectPaths(relayerConfig, options.path)) {
+        const relayers = new IBCRelayerTest(
+          relayerConfig,
+          path
+        ).getDiscoveredRelayers()
+        const file = pathScopedFileName('discovered-relayers.json', path.id)
+        writeFileSync(file, JSON.stringify(relayers, null, 2))
+
+        logger.info(
+          `[${path.id}] ${relayers.length} relayer addresses, saved to ${file}`
+        )
+        relayers.forEach((relayer) => {
+          const owner = relayer.declaredBy
+            ? `${relayer.declaredBy}${
+                relayer.verified ? ' ✅' : ' (unverified)'
+              }`
+            : '❔ unmapped'
+          logger.info(
+            `${relayer.address} → ${owner} | ${relayer.roles.join('/')} | ${
+              relayer.packets
+            } packets | ${relayer.firstSeen.toISOString()} - ${relayer.lastSeen.toISOString()}`
+          )
+          if (relayer.memoVariants.length > 0) {
+            logger.info(`   memos: ${relayer.memoVariants.join(' | ')}`)
+          }
+        })
+      }
+    } catch (error) {
+      logger.error('Failed to discover relayers', error)
       process.exit(1)
     }
   })
 
+program
+  .command('map-relayer <address> <moniker>')
+  .description(
+    'Declare a discovered relayer address for a validator and print the updated VALIDATORS_CONFIG'
+  )
+  .option(
+    '--operator <address>',
+    'Operator address when adding a new validator'
+  )
+  .option('--signature <base64>', 'ADR-036 signature of the binding message')
+  .option('--pub-key <base64>', 'Public key of the operator account')
+  .option(
+    '--write-env <file>',
+    'Also update VALIDATORS_CONFIG in this env file'
+  )
+  .action(async (address: string, moniker: string, options) => {
+    try {
+      const { relayerConfig } = await import('./config')
+      const { mapRelayerToValidator } = await import('./utils/relayerDiscovery')
+      const { existsSync, readFileSync, writeFileSync } = await import('fs')
+
+      const validators = mapRelayerToValidator(
+        relayerConfig.validators,
+        address,
+        moniker,
+        {
+          operatorAddress: options.operator,
+          signature: options.signature,
+          pubKey: options.pubKey,
+        }
+      )
+      const line = `VALIDATORS_CONFIG=${JSON.stringify(validators)}`
+
+      if (options.writeEnv) {
+        const content = existsSync(options.writeEnv)
+          ? readFileSync(options.writeEnv, 'utf8')
+          : ''
+        writeFileSync(
+          options.writeEnv,
+          /^VALIDATORS_CONFIG=.*$/m.test(content)
+            ? content.replace(/^VALIDATORS_CONFIG=.*$/m, () => line)
+            : `${content.replace(/\n?$/, '\n')}${line}\n`
+        )
+        logger.info(`Updated VALIDATORS_CONFIG in ${options.writeEnv}`)
+      } else {
+        console.log(line)
+      }
+
+      // 声明任何地址后 metrics 改为按已验证的 signer 归属
+      if (!options.signature) {
+        logger.warn(
+          `${address} has no signature, run verify-relayers to verify it via feegrant or authz before it is credited`
+        )
+      }
+    } catch (error) {
+      logger.error(
+        `Failed to map relayer: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      process.exit(1)
+    }
+  })
+
+program
+  .command('binding-message <operator> <relayer>')
+  .description(
+    'Print the message a validator operator signs (ADR-036) to bind a relayer address'
+  )
+  .action(async (operator: string, relayer: string) => {
+    const { bindingMessage } = await import('./utils/RelayerRegistry')
+    console.log(bindingMessage(operator, relayer))
+  })
+
 program
   .command('health')
   .description('Check health of both chains')
@@ -499,89 +1194,74 @@ program
 program
   .command('query-ibc')
   .description('Query IBC connections and channels')
-  .action(async () => {
+  .option(
+    '--client-state',
+    'Also query client and consensus state per connection'
+  )
+  .action(async (options) => {
+    const { CosmosClient } = await import('./clients/CosmosClient')
+    const client = new CosmosClient(config.chainA)
+
     try {
       logger.info('🔍 Querying IBC connections and channels...')
+      await client.connect()
+
+      const connections = await client.getIBCConnections()
+      logger.info(`Chain A connections (${connections.length}):`)
+      for (const [index, conn] of connections.entries()) {
+        logger.info(`  ${index + 1}. Connection ID: ${conn.connectionId}`)
+        logger.info(`     Client ID: ${conn.clientId}`)
+        logger.info(`     State: ${conn.state}`)
+        logger.info(
+          `     Counterparty: ${conn.counterpartyConnectionId} (client: ${conn.counterpartyClientId})`
+        )
 
-      // 尝试使用REST API查询连接
-      try {
-        logger.info('🌐 Querying connections via REST API...')
-
-        const rpcUrl = config.chainA.rpc
-          .replace('/rpc', '')
-          .replace('https://', 'https://')
-        const connectionsUrl = `${rpcUrl}/ibc/core/connection/v1/connections`
-
-        logger.info(`Fetching from: ${connectionsUrl}`)
-
-        const response = await fetch(connectionsUrl)
-        if (response.ok) {
-          const data = (await response.json()) as any
-          logger.info('Chain A connections via REST:')
-          if (data.connections && Array.isArray(data.connections)) {
-            data.connections.forEach((conn: any, index: number) => {
-              logger.info(`  ${index + 1}. Connection ID: ${conn.id}`)
-              logger.info(`     Client ID: ${conn.client_id}`)
-              logger.info(`     State: ${conn.state}`)
-              if (conn.counterparty) {
-                logger.info(
-                  `     Counterparty: ${conn.counterparty.connection_id} (client: ${conn.counterparty.client_id})`
-                )
-              }
-              logger.info('')
-            })
-          } else {
-            logger.info('No connections found')
+        if (options.clientState) {
+          const clientState = await client.getConnectionClientState(
+            conn.connectionId
+          )
+          const consensusState = clientState
+            ? await client.getConnectionConsensusState(
+                conn.connectionId,
+                clientState.latestHeight
+              )
+            : null
+
+          if (clientState) {
+            logger.info(
+              `     Client: ${clientState.chainId} @ ${
+                clientState.latestHeight.revisionNumber
+              }-${clientState.latestHeight.revisionHeight}${
+                clientState.frozen ? ' (FROZEN)' : ''
+              }`
+            )
+          }
+          if (consensusState?.timestamp) {
+            logger.info(
+              `     Last update: ${consensusState.timestamp.toISOString()}`
+            )
           }
-        } else {
-          logger.warn(`REST API returned status: ${response.status}`)
         }
-      } catch (error) {
-        logger.error('Connections query failed:', error)
+        logger.info('')
       }
 
-      // 查询channels
-      try {
-        logger.info('🌐 Querying channels via REST API...')
-
-        const rpcUrl = config.chainA.rpc
-          .replace('/rpc', '')
-          .replace('https://', 'https://')
-        const channelsUrl = `${rpcUrl}/ibc/core/channel/v1/channels`
-
-        logger.info(`Fetching from: ${channelsUrl}`)
-
-        const response = await fetch(channelsUrl)
-        if (response.ok) {
-          const data = (await response.json()) as any
-          logger.info('Chain A channels via REST:')
-          if (data.channels && Array.isArray(data.channels)) {
-            data.channels.forEach((channel: any, index: number) => {
-              logger.info(`  ${index + 1}. Channel ID: ${channel.channel_id}`)
-              logger.info(`     Port ID: ${channel.port_id}`)
-              logger.info(`     State: ${channel.state}`)
-              if (
-                channel.connection_hops &&
-                channel.connection_hops.length > 0
-              ) {
-                logger.info(`     Connection ID: ${channel.connection_hops[0]}`)
-              }
-              if (channel.counterparty) {
-                logger.info(
-                  `     Counterparty: ${channel.counterparty.channel_id} (port: ${channel.counterparty.port_id})`
-                )
-              }
-              logger.info('')
-            })
-          } else {
-            logger.info('No channels found')
-          }
-        } else {
-          logger.warn(`REST API returned status: ${response.status}`)
+      const channels = await client.getIBCChannels()
+      logger.info(`Chain A channels (${channels.length}):`)
+      channels.forEach((channel, index) => {
+        logger.info(`  ${index + 1}. Channel ID: ${channel.channelId}`)
+        logger.info(`     Port ID: ${channel.portId}`)
+        logger.info(`     State: ${channel.state}`)
+        logger.info(`     Ordering: ${channel.ordering}`)
+        if (channel.connectionHops.length > 0) {
+          logger.info(`     Connection ID: ${channel.connectionHops[0]}`)
         }
-      } catch (error) {
-        logger.error('Channels query failed:', error)
-      }
+        logger.info(
+          `     Counterparty: ${channel.counterpartyChannelId} (port: ${channel.counterpartyPortId})`
+        )
+        logger.info('')
+      })
+
+      await client.disconnect()
     } catch (error) {
       logger.error('Failed to query IBC info:', error)
       process.exit(1)
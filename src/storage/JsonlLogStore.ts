@@ -0,0 +1,271 @@
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  fstatSync,
+  openSync,
+  readSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+  writeSync,
+} from 'fs'
+import { RelayerTestLog } from '../types'
+import { logger } from '../utils/logger'
+import {
+  LogQuery,
+  RelayerLogStore,
+  getLogRelayer,
+  getLogSendHeight,
+  logId,
+  reviveLog,
+} from './LogStore'
+
+// 索引行：日志在数据文件中的位置和可查询字段
+interface IndexEntry {
+  id: string
+  offset: number
+  length: number
+  time: number
+  pathId?: string
+  signer?: string
+  relayer?: string
+  sequence: number
+  height?: number
+}
+
+/**
+ * 追加写入的 JSONL 日志存储
+ *   <file>      每行一条日志，更新时追加新行（同ID以最后一行为准）
+ *   <file>.idx  每行一个 IndexEntry，查询时只读取匹配的日志行
+ * 索引落后或损坏时从数据文件重建
+ */
+export class JsonlLogStore implements RelayerLogStore {
+  private indexFile: string
+  private entries = new Map<string, IndexEntry>()
+  private indexBytesRead = 0
+
+  constructor(private dataFile: string) {
+    this.indexFile = `${dataFile}.idx`
+    this.refresh()
+  }
+
+  append(log: RelayerTestLog): void {
+    this.write(log)
+  }
+
+  update(log: RelayerTestLog): void {
+    this.write(log)
+  }
+
+  query(query: LogQuery = {}): RelayerTestLog[] {
+    return this.runQuery(query, false)
+  }
+
+  count(): number {
+    this.refresh()
+    return this.entries.size
+  }
+
+  private runQuery(query: LogQuery, retried: boolean): RelayerTestLog[] {
+    this.refresh()
+
+    let matched = Array.from(this.entries.values())
+      .filter((entry) => this.matches(entry, query))
+      .sort((a, b) => a.time - b.time)
+    if (query.limit !== undefined) {
+      matched = matched.slice(-query.limit)
+    }
+
+    const logs = this.readRecords(matched)
+    if (retried || logs.every((log) => log !== null)) {
+      return logs.filter((log): log is RelayerTestLog => log !== null)
+    }
+
+    // 索引指向的记录不一致（例如并发写入时偏移量计算错误），重建后重试
+    logger.warn(`Log index ${this.indexFile} is stale, rebuilding...`)
+    this.rebuildIndex()
+    return this.runQuery(query, true)
+  }
+
+  private write(log: RelayerTestLog): void {
+    const bytes = Buffer.from(JSON.stringify(log) + '\n')
+
+    // O_APPEND 保证整行追加；写入后文件末尾即为本条记录的结尾
+    const fd = openSync(this.dataFile, 'a')
+    let offset: number
+    try {
+      writeSync(fd, bytes)
+      offset = fstatSync(fd).size - bytes.length
+    } finally {
+      closeSync(fd)
+    }
+
+    const entry = this.toEntry(log, offset, bytes.length)
+    appendFileSync(this.indexFile, JSON.stringify(entry) + '\n')
+    this.entries.set(entry.id, entry)
+  }
+
+  private matches(entry: IndexEntry, query: LogQuery): boolean {
+    if (query.from && entry.time < query.from.getTime()) return false
+    if (query.to && entry.time > query.to.getTime()) return false
+    if (query.pathId && entry.pathId !== query.pathId) return false
+    if (query.sequence !== undefined && entry.sequence !== query.sequence)
+      return false
+    if (
+      (query.fromHeight !== undefined || query.toHeight !== undefined) &&
+      (entry.height === undefined ||
+        entry.height < (query.fromHeight ?? 0) ||
+        entry.height > (query.toHeight ?? Infinity))
+    )
+      return false
+    if (
+      query.relayer &&
+      entry.relayer !== query.relayer &&
+      entry.signer !== query.relayer
+    )
+      return false
+    return true
+  }
+
+  /**
+   * 读取索引文件中新增的行（其他进程也可能在追加）
+   */
+  private refresh(): void {
+    if (!existsSync(this.indexFile)) {
+      if (existsSync(this.dataFile)) {
+        this.rebuildIndex()
+      }
+      return
+    }
+
+    const size = statSync(this.indexFile).size
+    if (size < this.indexBytesRead) {
+      // 索引被重建过，重新读取
+      this.entries.clear()
+      this.indexBytesRead = 0
+    }
+    if (size === this.indexBytesRead) return
+
+    const chunk = this.readBytes(
+      this.indexFile,
+      this.indexBytesRead,
+      size - this.indexBytesRead
+    )
+    // 只处理完整的行，末尾未写完的行留到下次
+    const lastNewline = chunk.lastIndexOf('\n')
+    if (lastNewline === -1) return
+
+    chunk
+      .slice(0, lastNewline)
+      .split('\n')
+      .forEach((line) => {
+        if (!line.trim()) return
+        try {
+          const entry: IndexEntry = JSON.parse(line)
+          this.entries.set(entry.id, entry)
+        } catch (error) {
+          logger.debug(`Skipping malformed index line: ${line}`)
+        }
+      })
+    this.indexBytesRead += Buffer.byteLength(chunk.slice(0, lastNewline + 1))
+  }
+
+  /**
+   * 用同一个文件描述符读取匹配的日志行，不必每条记录都打开一次数据文件
+   */
+  private readRecords(entries: IndexEntry[]): (RelayerTestLog | null)[] {
+    if (entries.length === 0) return []
+    // 数据文件不存在时索引已失效，交给调用方重建
+    if (!existsSync(this.dataFile)) return entries.map(() => null)
+
+    const fd = openSync(this.dataFile, 'r')
+    try {
+      return entries.map((entry) => {
+        try {
+          const line = this.readAt(fd, entry.offset, entry.length)
+          const log = reviveLog(JSON.parse(line))
+          return logId(log) === entry.id ? log : null
+        } catch (error) {
+          return null
+        }
+      })
+    } finally {
+      closeSync(fd)
+    }
+  }
+
+  /**
+   * 扫描数据文件重建索引，写入临时文件后替换以免读到一半的索引
+   */
+  private rebuildIndex(): void {
+    const entries = new Map<string, IndexEntry>()
+
+    if (existsSync(this.dataFile)) {
+      const data = this.readBytes(
+        this.dataFile,
+        0,
+        statSync(this.dataFile).size
+      )
+      let offset = 0
+      for (const line of data.split('\n')) {
+        const length = Buffer.byteLength(line) + 1
+        if (line.trim()) {
+          try {
+            const log = reviveLog(JSON.parse(line))
+            const entry = this.toEntry(log, offset, length)
+            entries.set(entry.id, entry)
+          } catch (error) {
+            logger.debug(`Skipping malformed log line at offset ${offset}`)
+          }
+        }
+        offset += length
+      }
+    }
+
+    const tmpFile = `${this.indexFile}.tmp`
+    writeFileSync(
+      tmpFile,
+      Array.from(entries.values())
+        .map((entry) => JSON.stringify(entry) + '\n')
+        .join('')
+    )
+    renameSync(tmpFile, this.indexFile)
+
+    this.entries = entries
+    this.indexBytesRead = statSync(this.indexFile).size
+  }
+
+  private toEntry(
+    log: RelayerTestLog,
+    offset: number,
+    length: number
+  ): IndexEntry {
+    return {
+      id: logId(log),
+      offset,
+      length,
+      time: new Date(log.testTime).getTime(),
+      pathId: log.pathId,
+      signer: log.relayerSigner,
+      relayer: getLogRelayer(log),
+      sequence: log.packetSequence,
+      height: getLogSendHeight(log),
+    }
+  }
+
+  private readBytes(file: string, offset: number, length: number): string {
+    const fd = openSync(file, 'r')
+    try {
+      return this.readAt(fd, offset, length)
+    } finally {
+      closeSync(fd)
+    }
+  }
+
+  private readAt(fd: number, offset: number, length: number): string {
+    const buffer = Buffer.alloc(length)
+    readSync(fd, buffer, 0, length, offset)
+    return buffer.toString('utf-8')
+  }
+}
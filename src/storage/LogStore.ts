@@ -0,0 +1,51 @@
+import { RelayerTestLog } from '../types'
+
+// 日志查询条件，均为可选，结果按测试时间升序
+export interface LogQuery {
+  from?: Date
+  to?: Date
+  pathId?: string
+  relayer?: string // relayerSigner 或 memo 中的 moniker
+  sequence?: number
+  // 源链发送高度，没有记录高度的日志不匹配
+  fromHeight?: number
+  toHeight?: number
+  limit?: number // 只返回最新的 N 条
+}
+
+/**
+ * relayer 测试日志存储
+ * 写入只追加，不重写整个文件；多个进程可同时读写
+ */
+export interface RelayerLogStore {
+  append(log: RelayerTestLog): void
+  // 以 logId 为键覆盖已有日志（例如 pending packet 补全结果）
+  update(log: RelayerTestLog): void
+  query(query?: LogQuery): RelayerTestLog[]
+  count(): number
+}
+
+/**
+ * 日志的唯一标识，补全结果时保持 testTime 不变因此ID不变
+ */
+export function logId(log: RelayerTestLog): string {
+  return `${log.pathId || 'default'}-${new Date(log.testTime).getTime()}-${
+    log.packetSequence
+  }-${log.txHash || 'none'}`
+}
+
+export function getLogSendHeight(log: RelayerTestLog): number | undefined {
+  return log.sendHeight ?? log.lifecycle?.send.height
+}
+
+export function getLogRelayer(log: RelayerTestLog): string | undefined {
+  return log.memoIdentifier?.replace('relayed-by:', '') || log.relayerSigner
+}
+
+/**
+ * JSON 反序列化时还原日期字段
+ */
+export function reviveLog(log: RelayerTestLog): RelayerTestLog {
+  log.testTime = new Date(log.testTime)
+  return log
+}
@@ -0,0 +1,62 @@
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { RelayerTestLog } from '../types'
+import { pathScopedFileName } from '../utils/ibcPaths'
+import { JsonlLogStore } from './JsonlLogStore'
+import { RelayerLogStore, logId } from './LogStore'
+
+export * from './LogStore'
+export * from './JsonlLogStore'
+
+export function getLogStoreFile(pathId?: string): string {
+  return join(
+    process.cwd(),
+    pathScopedFileName('relayer-test-logs.jsonl', pathId)
+  )
+}
+
+// 旧版本的整文件 JSON 日志
+export function getLegacyLogFile(pathId?: string): string {
+  return join(
+    process.cwd(),
+    pathScopedFileName('relayer-test-logs.json', pathId)
+  )
+}
+
+export function createLogStore(pathId?: string): RelayerLogStore {
+  return new JsonlLogStore(getLogStoreFile(pathId))
+}
+
+/**
+ * 把旧版 relayer-test-logs.json 导入存储，已存在的日志（相同ID）跳过
+ */
+export function importLegacyLogs(
+  store: RelayerLogStore,
+  file: string,
+  pathId: string
+): { imported: number; skipped: number } {
+  if (!existsSync(file)) {
+    throw new Error(`Log file not found: ${file}`)
+  }
+
+  const logs: RelayerTestLog[] = JSON.parse(readFileSync(file, 'utf-8'))
+  const existingIds = new Set(store.query().map((log) => logId(log)))
+
+  let imported = 0
+  let skipped = 0
+  logs.forEach((log) => {
+    // 旧版本日志没有 pathId，按所在文件归属
+    log.pathId = log.pathId || pathId
+    log.testTime = new Date(log.testTime)
+
+    if (existingIds.has(logId(log))) {
+      skipped++
+      return
+    }
+    store.append(log)
+    existingIds.add(logId(log))
+    imported++
+  })
+
+  return { imported, skipped }
+}
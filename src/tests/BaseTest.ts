@@ -1,9 +1,12 @@
 import { TestResult, TestStats } from '../types'
 import { logger } from '../utils/logger'
+import { LatencySketch } from '../utils/statistics'
 
 export abstract class BaseTest {
   protected stats: TestStats
   protected startTime: Date
+  // 长时间运行也不保存全部样本
+  protected latencySketch = new LatencySketch()
 
   constructor(protected testName: string) {
     this.stats = {
@@ -40,6 +43,7 @@ export abstract class BaseTest {
     const totalLatency =
       this.stats.averageLatency * (this.stats.totalTests - 1) + latency
     this.stats.averageLatency = totalLatency / this.stats.totalTests
+    this.latencySketch.add(latency)
   }
 
   protected recordSuccess(): void {
@@ -64,7 +68,7 @@ export abstract class BaseTest {
       error,
       details: {
         ...details,
-        stats: this.stats,
+        stats: this.getStats(),
       },
     }
   }
@@ -81,6 +85,10 @@ export abstract class BaseTest {
   }
 
   getStats(): TestStats {
-    return { ...this.stats, endTime: new Date() }
+    return {
+      ...this.stats,
+      endTime: new Date(),
+      latencyDistribution: this.latencySketch.toDistribution(),
+    }
   }
 }
@@ -129,15 +129,44 @@ export class ConnectionStabilityTest extends BaseTest {
       // 测试IBC连接状态
       const connectionsA = await this.clientA.getIBCConnections()
       const connectionsB = await this.clientB.getIBCConnections()
+      const channelsA = await this.clientA.getIBCChannels()
+
+      const connection = connectionsA.find(
+        (c) => c.connectionId === this.config.ibc.connectionId
+      )
+      const channel = channelsA.find(
+        (c) =>
+          c.channelId === this.config.ibc.channelId &&
+          c.portId === this.config.ibc.portId
+      )
+
+      const connectionOpen = connection?.state === 'STATE_OPEN'
+      const channelOpen = channel?.state === 'STATE_OPEN'
+
+      // 检查连接使用的轻客户端是否被冻结
+      const clientState = connection
+        ? await this.clientA.getConnectionClientState(connection.connectionId)
+        : null
+      const clientActive = !!clientState && !clientState.frozen
 
       logger.info('Health monitoring test completed', {
         chainAHealthy: healthA,
         chainBHealthy: healthB,
         connectionsA: connectionsA.length,
         connectionsB: connectionsB.length,
+        channelsA: channelsA.length,
+        connectionState: connection?.state || 'NOT_FOUND',
+        channelState: channel?.state || 'NOT_FOUND',
+        counterpartyChannel: channel?.counterpartyChannelId,
+        clientId: clientState?.clientId,
+        clientChainId: clientState?.chainId,
+        clientLatestHeight: clientState
+          ? `${clientState.latestHeight.revisionNumber}-${clientState.latestHeight.revisionHeight}`
+          : undefined,
+        clientFrozen: clientState?.frozen,
       })
 
-      return true
+      return connectionOpen && channelOpen && clientActive
     } catch (error) {
       logger.error('Health monitoring test failed', error)
       return false
@@ -6,37 +6,149 @@ import {
   PacketAcknowledgement,
   RelayerTestLog,
   RelayerPerformanceMetrics,
+  IBCPathConfig,
+  PacketLifecycle,
+  PendingPacket,
+  IdentityAnomaly,
+  MetricsTrendPoint,
+  RelayRace,
+  RelayRaceStats,
+  DiscoveredRelayer,
+  DailySpend,
+  TxCost,
+  WalletFee,
+  ReceiptVerification,
+  RefundVerification,
+  RelayScenario,
+  TimeoutPolicy,
+  LoadProfile,
+  LoadTestSummary,
+  MultiMsgBatch,
+  BatchRelayerStats,
 } from '../types'
 import { CosmosClient } from '../clients/CosmosClient'
+import { AccountPool, PoolAccount } from '../clients/AccountPool'
 import { logger } from '../utils/logger'
-import { IBCQueryHelper } from '../utils/IBCQueryHelper'
-import { writeFileSync, readFileSync, existsSync } from 'fs'
+import { IBCQueryHelper, extractPacketSigner } from '../utils/IBCQueryHelper'
+import { PacketWatcher } from '../utils/PacketWatcher'
+import { PendingPacketStore } from '../utils/PendingPacketStore'
+import { WalletFeeStore } from '../utils/WalletFeeStore'
+import { RelayerRegistry } from '../utils/RelayerRegistry'
+import { IncentiveInput } from '../utils/IncentiveScorer'
+import { computeRelayerMetrics } from '../utils/relayerMetrics'
+import { computeAvailability } from '../utils/availability'
+import { summarizeRelayRaces } from '../utils/relayRace'
+import { discoverRelayers } from '../utils/relayerDiscovery'
+import { extractRelayMemo } from '../utils/relayerFingerprint'
+import { getTxCost, summarizeDailySpend } from '../utils/txCost'
+import { receiveDenom } from '../utils/ics20'
+import {
+  computePacketTimeout,
+  parseRevisionNumber,
+} from '../utils/timeoutPolicy'
+import { mean, summarizeLatencies } from '../utils/statistics'
+import { loadSchedule, maxRateOf } from '../utils/loadProfile'
+import { LoadPacket, summarizeLoadTest } from '../utils/loadMetrics'
+import {
+  BATCH_PATTERN_LABELS,
+  extractSendSequences,
+  summarizeMultiMsgBatches,
+} from '../utils/batchRelay'
+import {
+  LatestLogPosition,
+  ResolvedWindow,
+  WindowOptions,
+  getTrendWindows,
+  resolveMetricsWindow,
+  windowToQuery,
+} from '../utils/metricsWindow'
+import {
+  detectIdentityAnomalies,
+  getMemoMoniker,
+} from '../utils/identityAnomalies'
+import {
+  LogQuery,
+  RelayerLogStore,
+  createLogStore,
+  getLegacyLogFile,
+  getLogStoreFile,
+  getLogSendHeight,
+  importLegacyLogs,
+} from '../storage'
+import { describePath, pathScopedFileName } from '../utils/ibcPaths'
+import {
+  DecodedAcknowledgement,
+  describeOutcomeError,
+  extractAcknowledgement,
+  getLogOutcome,
+  isExpectedOutcome,
+  isFinalOutcome,
+  isSuccessfulRelay,
+  outcomeFromAcknowledgement,
+} from '../utils/packetOutcome'
+import { writeFileSync, existsSync } from 'fs'
 import { join } from 'path'
 import { Tendermint34Client } from '@cosmjs/tendermint-rpc'
 
+// pending packet 最长跟踪时间
+const PENDING_PACKET_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+// 趋势中滚动成功率包含的桶数
+const ROLLING_TREND_BUCKETS = 7
+// CosmJS 等待交易上链的轮询间隔，单个账户每笔发送至少需要这么久
+const BROADCAST_POLL_INTERVAL_MS = 3000
+// 估算出块间隔时采样的区块数
+const BLOCK_INTERVAL_SAMPLE = 20
+
 export class IBCRelayerTest extends BaseTest {
   private votaClient: CosmosClient
   private receiverChainClient: CosmosClient
   private ibcQueryHelper?: IBCQueryHelper
-  private relayerLogs: RelayerTestLog[] = []
-  private logFile: string
+  // 目标链 recv_packet / 源链 acknowledge_packet、timeout_packet 订阅
+  private recvWatcher?: PacketWatcher
+  private sourceWatcher?: PacketWatcher
+  private logStore: RelayerLogStore
+  // 同一源链上的路径共用测试钱包，每日预算按这些路径的日志合计
+  private walletStores?: RelayerLogStore[]
+  private walletFeeStore = new WalletFeeStore()
+  // 已广播但尚未写入日志的发送（txHash -> 手续费），等待 ack 期间同样计入预算
+  private unloggedSends = new Map<string, WalletFee>()
   private metricsFile: string
-
-  constructor(private config: RelayerTestConfig) {
+  private path: IBCPathConfig
+  private pendingStore: PendingPacketStore
+  private relayerRegistry: RelayerRegistry
+  private transferDenoms?: { packetDenom: string; receiveDenom: string }
+  private revisionNumber?: number
+  private accountPool?: AccountPool
+  // 负载测试中多个 packet 同时在途，余额变化不能归到单个 packet
+  private overlappingSends = false
+
+  constructor(private config: RelayerTestConfig, path?: IBCPathConfig) {
     super('IBC Relayer Test')
-    this.votaClient = new CosmosClient(config.chainA)
-    this.receiverChainClient = new CosmosClient(config.chainB)
-    this.logFile = join(process.cwd(), 'relayer-test-logs.json')
-    this.metricsFile = join(process.cwd(), 'relayer-metrics.json')
-    this.loadExistingLogs()
+    this.path = path || config.paths[0]
+    this.votaClient = new CosmosClient(this.path.source)
+    this.receiverChainClient = new CosmosClient(this.path.destination)
+    this.logStore = createLogStore(this.path.id)
+    this.metricsFile = join(
+      process.cwd(),
+      pathScopedFileName('relayer-metrics.json', this.path.id)
+    )
+    this.pendingStore = new PendingPacketStore(this.path.id)
+    this.relayerRegistry = new RelayerRegistry(config.validators)
+    this.importLegacyLogsOnce()
   }
 
   async run(): Promise<TestResult> {
-    logger.info('🚀 Starting IBC Relayer Test')
+    logger.info(
+      `🚀 Starting IBC Relayer Test on path ${describePath(this.path)}`
+    )
 
     try {
       // 初始化客户端连接
       await this.initializeClients()
+      await this.checkReverseFunding()
+
+      // 补全上次运行遗留的 pending packet
+      await this.resumePendingPackets()
 
       // 运行基础测试
       const basicTestResult = await this.runBasicRelayTest()
@@ -50,6 +162,21 @@ export class IBCRelayerTest extends BaseTest {
       // 运行稳定性测试
       const stabilityTestResult = await this.runStabilityTest()
 
+      // 运行超时测试
+      const timeoutTestResult =
+        this.config.relayer.timeoutTestCount > 0
+          ? await this.runTimeoutTest()
+          : undefined
+
+      // 运行多消息批量测试
+      const multiMsgTestResult =
+        this.config.relayer.multiMsgBatchSize > 1
+          ? await this.runMultiMsgBatchTest(
+              this.config.relayer.multiMsgBatchSize,
+              this.config.relayer.multiMsgBatchCount
+            )
+          : undefined
+
       // 生成性能报告
       const metrics = this.generatePerformanceMetrics()
 
@@ -58,14 +185,18 @@ export class IBCRelayerTest extends BaseTest {
       const overallSuccess =
         basicTestResult.success &&
         batchTestResult.success &&
-        stabilityTestResult.success
+        stabilityTestResult.success &&
+        (timeoutTestResult?.success ?? true) &&
+        (multiMsgTestResult?.success ?? true)
 
       return this.createResult(overallSuccess, undefined, {
         basicTest: basicTestResult,
         batchTest: batchTestResult,
         stabilityTest: stabilityTestResult,
+        timeoutTest: timeoutTestResult,
+        multiMsgTest: multiMsgTestResult,
         metrics,
-        totalLogs: this.relayerLogs.length,
+        totalLogs: this.logStore.count(),
       })
     } catch (error) {
       const errorMessage =
@@ -80,8 +211,12 @@ export class IBCRelayerTest extends BaseTest {
   private async initializeClients(): Promise<void> {
     try {
       logger.info('🔌 Connecting to chains...')
-      logger.info(`  Chain A (vota-bobtail): ${this.config.chainA.rpc}`)
-      logger.info(`  Chain B (receiverChain): ${this.config.chainB.rpc}`)
+      logger.info(
+        `  Chain A (${this.path.source.chainId}): ${this.path.source.rpc}`
+      )
+      logger.info(
+        `  Chain B (${this.path.destination.chainId}): ${this.path.destination.rpc}`
+      )
 
       // 连接到区块链客户端
       await Promise.all([
@@ -107,6 +242,13 @@ export class IBCRelayerTest extends BaseTest {
       logger.info(`  receiverChain address: ${receiverChainAddress}`)
       logger.info('✅ Wallets setup completed')
 
+      if (this.relayerRegistry.hasBindings()) {
+        await this.relayerRegistry.verify([
+          this.votaClient,
+          this.receiverChainClient,
+        ])
+      }
+
       // 初始化IBC查询助手
       try {
         logger.info('🔍 Initializing IBC Query Helper...')
@@ -123,7 +265,8 @@ export class IBCRelayerTest extends BaseTest {
           votaStargateClient,
           receiverChainStargateClient,
           votaTmClient,
-          receiverChainTmClient
+          receiverChainTmClient,
+          this.relayerRegistry
         )
 
         logger.info('✅ IBC Query Helper initialized')
@@ -138,6 +281,14 @@ export class IBCRelayerTest extends BaseTest {
         }
       }
 
+      if (this.path.reverseOf) {
+        await this.resolveReversePath()
+      }
+
+      if (this.config.relayer.useWebSocket) {
+        await this.initializePacketWatchers()
+      }
+
       logger.success('✅ All clients initialized successfully')
     } catch (error) {
       logger.error('❌ Failed to initialize clients')
@@ -160,6 +311,86 @@ export class IBCRelayerTest extends BaseTest {
     }
   }
 
+  /**
+   * 反向路径：经正向 channel 的对端把 voucher 转回源链
+   * channel 取正向 channel 在目标链上的对端，denom 为正向转账到账的 voucher
+   */
+  private async resolveReversePath(): Promise<void> {
+    const forward = this.config.paths.find((p) => p.id === this.path.reverseOf)
+    if (!forward) {
+      throw new Error(
+        `Forward path ${this.path.reverseOf} of ${this.path.id} not found`
+      )
+    }
+
+    // 正向路径的查询：源链即本路径的目标链
+    const forwardHelper = new IBCQueryHelper(
+      this.receiverChainClient.getStargateClient()!,
+      this.votaClient.getStargateClient()!,
+      this.receiverChainClient.getTendermintClient()!,
+      this.votaClient.getTendermintClient()!
+    )
+    const counterparty = await forwardHelper.getCounterparty(
+      forward.portId,
+      forward.channelId
+    )
+    const voucher = receiveDenom(
+      await forwardHelper.getFullDenomPath(forward.denom),
+      forward.portId,
+      forward.channelId,
+      counterparty.portId,
+      counterparty.channelId
+    )
+
+    this.path = {
+      ...this.path,
+      portId: counterparty.portId,
+      channelId: counterparty.channelId,
+      receiver: this.path.receiver || this.receiverChainClient.getAddress()!,
+      denom: voucher,
+    }
+    logger.info(`↩️ Reverse path resolved: ${describePath(this.path)}`)
+    logger.info(`  Returning ${this.path.amount}${voucher} to ${forward.id}`)
+  }
+
+  /**
+   * 反向路径发送的 voucher 来自正向转账，余额不足时给出明确提示
+   */
+  private async checkReverseFunding(): Promise<void> {
+    if (!this.path.reverseOf) return
+
+    const balance = await this.votaClient.getBalance(this.path.denom)
+    if (BigInt(balance) < BigInt(this.path.amount)) {
+      throw new Error(
+        `Insufficient ${this.path.denom} on ${this.path.source.chainId} to test the reverse path ` +
+          `(have ${balance}, need ${this.path.amount}); set the receiver of ` +
+          `${
+            this.path.reverseOf
+          } to ${this.votaClient.getAddress()} so forward transfers fund it`
+      )
+    }
+  }
+
+  /**
+   * 订阅 packet 事件，必须在发送转账之前完成以免错过事件
+   */
+  private async initializePacketWatchers(): Promise<void> {
+    this.recvWatcher = new PacketWatcher(
+      this.path.destination.rpc,
+      this.path.channelId,
+      ['recv_packet']
+    )
+    this.sourceWatcher = new PacketWatcher(
+      this.path.source.rpc,
+      this.path.channelId,
+      ['acknowledge_packet', 'timeout_packet']
+    )
+    await Promise.all([
+      this.recvWatcher.connect(),
+      this.sourceWatcher.connect(),
+    ])
+  }
+
   private async runBasicRelayTest(): Promise<TestResult> {
     logger.info('🧪 Running basic relay test...')
 
@@ -180,41 +411,19 @@ export class IBCRelayerTest extends BaseTest {
       }
 
       // Step 3: 等待并检查 acknowledgement
-      const ackResult = await this.waitForAcknowledgement(
-        transferResult.sequence!
-      )
+      const ackResult = await this.waitForAcknowledgement(transferResult)
 
-      if (!ackResult.acknowledged) {
-        const log: RelayerTestLog = {
-          testTime: new Date(),
-          txHash: transferResult.txHash,
-          packetSequence: transferResult.sequence!,
-          success: false,
-          latency: this.config.relayer.timeoutSeconds * 1000,
-          errorMessage: 'Timeout waiting for acknowledgement',
-        }
-        this.relayerLogs.push(log)
-        return this.createResult(false, 'Timeout waiting for acknowledgement')
+      const log = this.buildRelayerLog(transferResult, ackResult)
+      if (!log.success) {
+        this.logStore.append(log)
+        return this.createResult(false, log.errorMessage)
       }
 
       // Step 4: 验证目标链交易
       const targetTxResult = await this.verifyTargetChainTransaction(ackResult)
 
       // 记录测试日志
-      const log: RelayerTestLog = {
-        testTime: new Date(),
-        txHash: transferResult.txHash,
-        packetSequence: transferResult.sequence!,
-        success: true,
-        latency: ackResult.ackTime
-          ? ackResult.ackTime.getTime() - transferResult.timestamp.getTime()
-          : 0,
-        targetChainTxHash: ackResult.targetTxHash,
-        relayerSigner: ackResult.relayerAddress,
-        memoIdentifier: ackResult.memo,
-        receivedAmount: this.config.relayer.testAmount,
-      }
-      this.relayerLogs.push(log)
+      this.logStore.append(log)
 
       logger.success('✅ Basic relay test passed')
       return this.createResult(true, undefined, { log, targetTxResult })
@@ -238,40 +447,17 @@ export class IBCRelayerTest extends BaseTest {
 
         const transferResult = await this.sendIBCTransfer(`batch-test-${i}`)
         if (!transferResult.success) {
-          results.push({
-            testTime: new Date(),
-            txHash: transferResult.txHash,
-            packetSequence: 0,
-            success: false,
-            latency: 0,
-            errorMessage: transferResult.error,
-          })
+          results.push(this.buildSendFailedLog(transferResult))
           continue
         }
 
-        const ackResult = await this.waitForAcknowledgement(
-          transferResult.sequence!
-        )
-        const log: RelayerTestLog = {
-          testTime: new Date(),
-          txHash: transferResult.txHash,
-          packetSequence: transferResult.sequence!,
-          success: ackResult.acknowledged,
-          latency: ackResult.ackTime
-            ? ackResult.ackTime.getTime() - transferResult.timestamp.getTime()
-            : this.config.relayer.timeoutSeconds * 1000,
-          targetChainTxHash: ackResult.targetTxHash,
-          relayerSigner: ackResult.relayerAddress,
-          memoIdentifier: ackResult.memo,
-          errorMessage: ackResult.acknowledged
-            ? undefined
-            : 'Acknowledgement timeout',
-        }
+        const ackResult = await this.waitForAcknowledgement(transferResult)
+        const log = this.buildRelayerLog(transferResult, ackResult)
 
         results.push(log)
-        this.relayerLogs.push(log)
+        this.logStore.append(log)
 
-        if (ackResult.acknowledged) {
+        if (log.success) {
           successCount++
         }
 
@@ -316,21 +502,12 @@ export class IBCRelayerTest extends BaseTest {
         const transferResult = await this.sendIBCTransfer(`stability-test-${i}`)
         if (!transferResult.success) {
           consecutiveFailures++
-          results.push({
-            testTime: new Date(),
-            txHash: transferResult.txHash,
-            packetSequence: 0,
-            success: false,
-            latency: 0,
-            errorMessage: transferResult.error,
-          })
+          results.push(this.buildSendFailedLog(transferResult))
         } else {
-          const ackResult = await this.waitForAcknowledgement(
-            transferResult.sequence!
-          )
-          const success = ackResult.acknowledged
+          const ackResult = await this.waitForAcknowledgement(transferResult)
+          const log = this.buildRelayerLog(transferResult, ackResult)
 
-          if (success) {
+          if (log.success) {
             consecutiveFailures = 0
           } else {
             consecutiveFailures++
@@ -341,22 +518,8 @@ export class IBCRelayerTest extends BaseTest {
             consecutiveFailures
           )
 
-          const log: RelayerTestLog = {
-            testTime: new Date(),
-            txHash: transferResult.txHash,
-            packetSequence: transferResult.sequence!,
-            success,
-            latency: ackResult.ackTime
-              ? ackResult.ackTime.getTime() - transferResult.timestamp.getTime()
-              : this.config.relayer.timeoutSeconds * 1000,
-            targetChainTxHash: ackResult.targetTxHash,
-            relayerSigner: ackResult.relayerAddress,
-            memoIdentifier: ackResult.memo,
-            errorMessage: success ? undefined : 'Acknowledgement timeout',
-          }
-
           results.push(log)
-          this.relayerLogs.push(log)
+          this.logStore.append(log)
         }
 
         if (i < testCount - 1) {
@@ -383,6 +546,9 @@ export class IBCRelayerTest extends BaseTest {
           successfulTests: successCount,
           successRate,
           averageLatency: avgLatency,
+          latencyDistribution: summarizeLatencies(
+            results.filter((r) => r.success).map((r) => r.latency)
+          ),
           maxConsecutiveFailures,
           results,
         }
@@ -394,11 +560,296 @@ export class IBCRelayerTest extends BaseTest {
     }
   }
 
-  private async sendIBCTransfer(memo?: string): Promise<IBCTransferResult> {
+  /**
+   * 超时场景：发送几个区块后即超时的 packet，等待 relayer 提交 MsgTimeout
+   * 并核对退款，提交 MsgTimeout 的 relayer 计为成功
+   */
+  private async runTimeoutTest(): Promise<TestResult> {
+    logger.info('⏰ Running timeout relay test...')
+
+    const testCount = this.config.relayer.timeoutTestCount
+    const results: RelayerTestLog[] = []
+
+    try {
+      for (let i = 0; i < testCount; i++) {
+        logger.info(`Timeout test ${i + 1}/${testCount}`)
+
+        const transferResult = await this.sendIBCTransfer(
+          `timeout-test-${i}`,
+          'timeout'
+        )
+        if (!transferResult.success) {
+          results.push(this.buildSendFailedLog(transferResult))
+          continue
+        }
+
+        const ackResult = await this.waitForAcknowledgement(transferResult)
+        const log = this.buildRelayerLog(transferResult, ackResult)
+
+        results.push(log)
+        this.logStore.append(log)
+      }
+
+      const timeoutsRelayed = results.filter((r) => r.success).length
+      const refunded = results.filter((r) => r.refund?.refunded).length
+      logger.info(
+        `Timeout test completed: ${timeoutsRelayed}/${testCount} timeouts relayed, ${refunded} refunded`
+      )
+
+      return this.createResult(
+        timeoutsRelayed === testCount && refunded === testCount,
+        undefined,
+        {
+          totalTests: testCount,
+          timeoutsRelayed,
+          refunded,
+          results,
+        }
+      )
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error)
+      return this.createResult(false, errorMessage)
+    }
+  }
+
+  /**
+   * 多消息批量场景：每笔交易包含 size 个 MsgTransfer，
+   * 所有 packet 并发跟踪，再看各 relayer 是一起、按序还是只接收了一部分
+   */
+  private async runMultiMsgBatchTest(
+    size: number,
+    count: number
+  ): Promise<TestResult> {
+    logger.info(`📦 Running multi-message batch test (${size} x ${count})...`)
+
+    const results: RelayerTestLog[] = []
+
+    try {
+      for (let i = 0; i < count; i++) {
+        logger.info(`Multi-message batch ${i + 1}/${count}`)
+
+        const transfers = await this.sendMultiMsgTransfer(
+          size,
+          `multi-msg-test-${i}`
+        )
+        if (!transfers[0].success) {
+          results.push(this.buildSendFailedLog(transfers[0]))
+          continue
+        }
+
+        const logs = await Promise.all(
+          transfers.map(async (transfer) =>
+            this.buildRelayerLog(
+              transfer,
+              await this.waitForAcknowledgement(transfer)
+            )
+          )
+        )
+        logs.forEach((log) => this.logStore.append(log))
+        results.push(...logs)
+      }
+
+      const { batches, relayers } = this.summarizeBatches(results)
+      batches.forEach((batch) => {
+        logger.info(
+          `  ${batch.txHash}: ${batch.received}/${
+            batch.sequences.length
+          } received in ${batch.recvTxs} txs (${
+            BATCH_PATTERN_LABELS[batch.pattern].en
+          })`
+        )
+      })
+
+      const complete = batches.filter((batch) => batch.pattern !== 'partial')
+      logger.info(
+        `Multi-message batch test completed: ${complete.length}/${count} batches fully relayed`
+      )
+
+      return this.createResult(complete.length === count, undefined, {
+        totalBatches: count,
+        batchSize: size,
+        completeBatches: complete.length,
+        batches,
+        relayers,
+        results,
+      })
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error)
+      return this.createResult(false, errorMessage)
+    }
+  }
+
+  /**
+   * 在一笔交易中发送 size 个相同的 MsgTransfer，返回每个 packet 的发送结果
+   * 发送失败时只返回一个失败结果；手续费只记在第一个 packet 上，避免重复计入花费
+   */
+  private async sendMultiMsgTransfer(
+    size: number,
+    memo: string
+  ): Promise<IBCTransferResult[]> {
+    const budgetError = this.checkDailyBudget()
+    if (budgetError) {
+      logger.warn(`💸 ${budgetError}`)
+      return [
+        {
+          txHash: '',
+          success: false,
+          error: budgetError,
+          timestamp: new Date(),
+          scenario: 'relay',
+        },
+      ]
+    }
+
     try {
       const client = this.votaClient.getSigningClient()!
       const address = this.votaClient.getAddress()!
 
+      const timeout = computePacketTimeout(this.path.timeout, {
+        revisionNumber: await this.resolveRevisionNumber(),
+        revisionHeight: await this.receiverChainClient.getHeight(),
+      })
+      const timeoutHeight = timeout.timeoutHeight.revisionHeight || undefined
+      const timeoutTimestampMs = timeout.timeoutTimestampMs
+
+      const msgs = Array.from({ length: size }, (_, i) => ({
+        typeUrl: '/ibc.applications.transfer.v1.MsgTransfer',
+        value: {
+          sourcePort: this.path.portId,
+          sourceChannel: this.path.channelId,
+          token: {
+            denom: this.path.denom,
+            amount: this.path.amount,
+          },
+          sender: address,
+          receiver: this.path.receiver,
+          timeoutHeight: timeout.timeoutHeight,
+          timeoutTimestamp: timeoutTimestampMs
+            ? BigInt(timeoutTimestampMs) * BigInt(1000000)
+            : BigInt(0),
+          memo: `${memo}-${i}`,
+        },
+      }))
+
+      logger.info(`🔐 Broadcasting ${size} MsgTransfer in one transaction...`)
+      const result = await client.signAndBroadcast(
+        address,
+        msgs,
+        this.config.gas.adjustment || 'auto',
+        memo
+      )
+      const cost = await this.getSendCost(result.transactionHash)
+      this.trackUnloggedSend(result.transactionHash, cost)
+
+      if (result.code !== 0) {
+        return [
+          {
+            txHash: result.transactionHash,
+            success: false,
+            error: `Transaction failed with code ${result.code}: ${result.rawLog}`,
+            timestamp: new Date(),
+            cost,
+            scenario: 'relay',
+          },
+        ]
+      }
+
+      const sequences = extractSendSequences(
+        result.events,
+        this.path.portId,
+        this.path.channelId
+      )
+      if (sequences.length === 0) {
+        return [
+          {
+            txHash: result.transactionHash,
+            success: false,
+            error: 'No send_packet events found in the transaction',
+            timestamp: new Date(),
+            cost,
+            scenario: 'relay',
+          },
+        ]
+      }
+      if (sequences.length !== size) {
+        logger.warn(
+          `⚠️ Expected ${size} send_packet events in ${result.transactionHash}, found ${sequences.length}`
+        )
+      }
+      logger.info(
+        `✅ Multi-message transfer ${
+          result.transactionHash
+        } sent packets ${sequences.join(', ')}`
+      )
+
+      const sendTime = new Date().toISOString()
+      return sequences.map((sequence, i) => {
+        this.pendingStore.add({
+          pathId: this.path.id,
+          sequence,
+          txHash: result.transactionHash,
+          sendTime,
+          height: result.height,
+          timeoutHeight,
+          timeoutTimestampMs,
+          scenario: 'relay',
+          sender: address,
+        })
+        return {
+          txHash: result.transactionHash,
+          success: true,
+          sequence,
+          timestamp: new Date(),
+          height: result.height,
+          timeoutHeight,
+          timeoutTimestampMs,
+          cost: i === 0 ? cost : undefined,
+          sender: address,
+          scenario: 'relay',
+        }
+      })
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error)
+      logger.error('❌ Exception in sendMultiMsgTransfer:', errorMessage)
+      return [
+        {
+          txHash: '',
+          success: false,
+          error: `Exception during multi-message transfer: ${errorMessage}`,
+          timestamp: new Date(),
+          scenario: 'relay',
+        },
+      ]
+    }
+  }
+
+  /**
+   * account 为账户池中的发送账户，缺省由主账户发送
+   */
+  private async sendIBCTransfer(
+    memo?: string,
+    scenario: RelayScenario = 'relay',
+    account?: PoolAccount
+  ): Promise<IBCTransferResult> {
+    const budgetError = this.checkDailyBudget()
+    if (budgetError) {
+      logger.warn(`💸 ${budgetError}`)
+      return {
+        txHash: '',
+        success: false,
+        error: budgetError,
+        timestamp: new Date(),
+        scenario,
+      }
+    }
+
+    try {
+      const client = this.votaClient.getSigningClient()!
+      const address = account?.address || this.votaClient.getAddress()!
+
       logger.info(`📝 Preparing IBC transfer from address: ${address}`)
 
       const timestamp = Date.now()
@@ -407,12 +858,44 @@ export class IBCRelayerTest extends BaseTest {
       // 获取目标链当前高度
       logger.info('🔍 Getting target chain height for timeout calculation...')
       const ReceiverChainHeight = await this.receiverChainClient.getHeight()
-      const timeoutHeight = ReceiverChainHeight + 1000 
+      // 超时场景的 packet 几个区块后即超时，不会被接收
+      const policy: TimeoutPolicy =
+        scenario === 'timeout'
+          ? {
+              ...this.path.timeout,
+              mode: 'height',
+              heightOffset: this.config.relayer.timeoutTestBlocks,
+            }
+          : this.path.timeout
+      const timeout = computePacketTimeout(policy, {
+        revisionNumber: await this.resolveRevisionNumber(),
+        revisionHeight: ReceiverChainHeight,
+      })
+      const timeoutHeight = timeout.timeoutHeight.revisionHeight || undefined
+      const timeoutTimestampMs = timeout.timeoutTimestampMs
 
       logger.info(
-        `📏 Receiver Chain heights: ${ReceiverChainHeight}, Timeout: ${timeoutHeight}`
+        `📏 Receiver Chain heights: ${ReceiverChainHeight}, Timeout (${
+          policy.mode
+        }): ${timeout.timeoutHeight.revisionNumber}-${
+          timeout.timeoutHeight.revisionHeight
+        }${
+          timeoutTimestampMs
+            ? ` / ${new Date(timeoutTimestampMs).toISOString()}`
+            : ''
+        }`
       )
 
+      // 事件中没有到账 / 退款记录时用余额变化核对；
+      // 发送重叠时其他 packet 也会改变余额，只用事件核对
+      const snapshotBalances = !this.overlappingSends && !account
+      const receiverBalanceBefore = snapshotBalances
+        ? await this.getReceiverBalance()
+        : undefined
+      const senderBalanceBefore = snapshotBalances
+        ? await this.getSenderBalance(address)
+        : undefined
+
       const gasConfig = this.config.gas
 
       const gasValue = gasConfig.adjustment ? gasConfig.adjustment : 'auto'
@@ -438,21 +921,18 @@ export class IBCRelayerTest extends BaseTest {
       const msg = {
         typeUrl: '/ibc.applications.transfer.v1.MsgTransfer',
         value: {
-          sourcePort: this.config.ibc.portId,
-          sourceChannel: this.config.ibc.channelId,
+          sourcePort: this.path.portId,
+          sourceChannel: this.path.channelId,
           token: {
-            denom: this.config.relayer.testDenom,
-            amount: this.config.relayer.testAmount,
+            denom: this.path.denom,
+            amount: this.path.amount,
           },
           sender: address,
-          receiver: this.config.relayer.receiverChainReceiveAddress,
-          timeoutHeight: {
-            revisionNumber: 5,
-            revisionHeight: timeoutHeight,
-          },
-          timeoutTimestamp:
-            BigInt(Date.now() + this.config.relayer.timeoutSeconds * 1000) *
-            BigInt(1000000),
+          receiver: this.path.receiver,
+          timeoutHeight: timeout.timeoutHeight,
+          timeoutTimestamp: timeoutTimestampMs
+            ? BigInt(timeoutTimestampMs) * BigInt(1000000)
+            : BigInt(0),
           memo: testMemo,
         },
       }
@@ -471,12 +951,9 @@ export class IBCRelayerTest extends BaseTest {
       })
 
       logger.info('🔐 Signing and broadcasting transaction...')
-      const result = await client.signAndBroadcast(
-        address,
-        [msg],
-        gasValue,
-        testMemo
-      )
+      const result = account
+        ? await this.accountPool!.broadcast(account, [msg], testMemo)
+        : await client.signAndBroadcast(address, [msg], gasValue, testMemo)
 
       logger.info('📡 Broadcast result received:', {
         code: result.code,
@@ -486,6 +963,9 @@ export class IBCRelayerTest extends BaseTest {
         height: result.height,
         rawLogLength: result.rawLog?.length || 0,
       })
+      // 失败的交易同样支付了手续费
+      const cost = await this.getSendCost(result.transactionHash)
+      this.trackUnloggedSend(result.transactionHash, cost)
 
       if (result.code !== 0) {
         logger.error('❌ Transaction failed with non-zero code:', {
@@ -498,6 +978,8 @@ export class IBCRelayerTest extends BaseTest {
           success: false,
           error: `Transaction failed with code ${result.code}: ${result.rawLog}`,
           timestamp: new Date(),
+          cost,
+          scenario,
         }
       }
 
@@ -510,6 +992,18 @@ export class IBCRelayerTest extends BaseTest {
         logger.debug('Raw log content:', result.rawLog)
       } else {
         logger.info(`✅ Packet sequence extracted: ${sequence}`)
+        // 在等待ack之前持久化，进程中断后可重新扫描
+        this.pendingStore.add({
+          pathId: this.path.id,
+          sequence,
+          txHash: result.transactionHash,
+          sendTime: new Date().toISOString(),
+          height: result.height,
+          timeoutHeight,
+          timeoutTimestampMs,
+          scenario,
+          sender: address,
+        })
       }
 
       logger.info(
@@ -521,6 +1015,14 @@ export class IBCRelayerTest extends BaseTest {
         success: true,
         sequence,
         timestamp: new Date(),
+        height: result.height,
+        timeoutHeight,
+        timeoutTimestampMs,
+        cost,
+        receiverBalanceBefore,
+        senderBalanceBefore,
+        sender: address,
+        scenario,
       }
     } catch (error) {
       logger.error('❌ Exception in sendIBCTransfer:')
@@ -543,17 +1045,84 @@ export class IBCRelayerTest extends BaseTest {
         success: false,
         error: `Exception during IBC transfer: ${errorMessage}`,
         timestamp: new Date(),
+        scenario,
       }
     }
   }
 
+  /**
+   * 从链上查询发送交易的实际手续费，查询失败时不记录成本
+   */
+  private async getSendCost(txHash: string): Promise<TxCost | undefined> {
+    try {
+      const tx = await this.votaClient.getStargateClient()!.getTx(txHash)
+      return tx ? getTxCost(tx) : undefined
+    } catch (error) {
+      logger.warn(`Failed to query fee of ${txHash}:`, error)
+      return undefined
+    }
+  }
+
+  private trackUnloggedSend(txHash: string, cost?: TxCost): void {
+    if (!cost) return
+    this.unloggedSends.set(txHash, {
+      time: new Date(),
+      chainId: this.path.source.chainId,
+      txHash,
+      purpose: 'send',
+      cost,
+    })
+  }
+
+  /**
+   * 当天（UTC）的手续费达到 TEST_WALLET_DAILY_BUDGET 时返回错误信息
+   */
+  private checkDailyBudget(): string | undefined {
+    const budget = this.config.relayer.dailyBudget
+    if (!budget) return undefined
+
+    const today = this.getDailySpend().find(
+      (day) => day.date === new Date().toISOString().slice(0, 10)
+    )
+    if (!today?.overBudget) return undefined
+
+    return `Daily test wallet budget reached: spent ${
+      today.fees[budget.denom]
+    }${budget.denom} of ${budget.amount}${budget.denom} today`
+  }
+
   private async waitForAcknowledgement(
-    sequence: number
+    transfer: IBCTransferResult
+  ): Promise<PacketAcknowledgement> {
+    const ack = await this.pollAcknowledgement(transfer)
+    ack.lifecycle = await this.traceLifecycle(transfer, ack)
+    ack.relayRace = await this.scanRelayRace(ack.lifecycle, transfer.sequence!)
+    ack.receipt = await this.verifyReceipt(ack, transfer.receiverBalanceBefore)
+    ack.refund = await this.verifyRefund(ack, transfer)
+
+    // 未得到最终结果的 packet 留在 pending 中，之后重新扫描补全
+    if (isFinalOutcome(ack.outcome)) {
+      this.pendingStore.remove(transfer.sequence!)
+    }
+    return ack
+  }
+
+  private async pollAcknowledgement(
+    transfer: IBCTransferResult
   ): Promise<PacketAcknowledgement> {
+    const sequence = transfer.sequence!
     const timeout = this.config.relayer.timeoutSeconds * 1000
     const startTime = Date.now()
     const pollInterval = 3000 // 3秒轮询一次
 
+    // 优先等待 websocket 事件，断线时在剩余时间内回退到轮询
+    const watched = await this.watchAcknowledgement(sequence, timeout)
+    if (watched && watched.outcome !== 'pending') {
+      return watched
+    }
+    // 已接收但还没有 ack 的结果先记下，继续轮询 ack
+    let received = watched || undefined
+
     logger.info(
       `⏳ Waiting for acknowledgement (sequence: ${sequence}, timeout: ${
         timeout / 1000
@@ -562,30 +1131,68 @@ export class IBCRelayerTest extends BaseTest {
 
     while (Date.now() - startTime < timeout) {
       try {
+        // 先查询链上的权威状态：目标链尚未写入 packet receipt 时无需搜索交易
+        if (this.ibcQueryHelper) {
+          const state = await this.ibcQueryHelper.queryPacketState(
+            this.path.portId,
+            this.path.channelId,
+            sequence
+          )
+          if (!state.received) {
+            // 未被接收但源链 commitment 已删除：relayer 已提交 MsgTimeout
+            if (!state.commitmentExists) {
+              const timeoutResult = await this.resolveTimeoutRelay(sequence)
+              if (timeoutResult) {
+                return timeoutResult
+              }
+            }
+
+            logger.debug(
+              `Packet ${sequence} not yet received on ${state.destinationPort}/${state.destinationChannel}`
+            )
+            await this.sleep(pollInterval)
+            continue
+          }
+          logger.info(
+            `✅ Packet receipt found on receiverChain (ack written: ${state.acknowledgementWritten}, ack relayed: ${state.ackRelayed})`
+          )
+        }
+
         // 方法1: 直接在receiverChain上搜索recv_packet事件（最有效的方法优先）
-        const receiverChainRecv = await this.searchreceiverChainRecvPacket(
-          sequence
-        )
+        // 已找到接收交易时只需再查询 ack
+        const receiverChainRecv = received
+          ? null
+          : await this.searchreceiverChainRecvPacket(sequence)
         if (receiverChainRecv) {
           logger.info('✅ Found recv_packet event on receiverChain')
-          return {
+          received = {
             sequence,
             acknowledged: true,
             ackTime: new Date(),
             relayerAddress: receiverChainRecv.relayerAddress,
             memo: receiverChainRecv.memo,
             targetTxHash: receiverChainRecv.txHash,
+            ...outcomeFromAcknowledgement(receiverChainRecv.acknowledgement),
+          }
+          if (received.outcome !== 'pending') {
+            return received
           }
         }
 
-        // 方法2: 查询 packet acknowledgement
+        // 方法2: 查询 packet acknowledgement（不限高度范围查找接收交易）
         const ack = await this.queryPacketAcknowledgement(sequence)
-        if (ack.acknowledged) {
+        if (ack.acknowledged && ack.outcome !== 'pending') {
           logger.info('✅ Acknowledgement found via packet query')
           return ack
         }
-
-        logger.debug(
+        if (ack.acknowledged) {
+          received = received || ack
+          logger.debug(
+            `Packet ${sequence} received, acknowledgement not found yet`
+          )
+        }
+
+        logger.debug(
           `Polling attempt ${
             Math.floor((Date.now() - startTime) / pollInterval) + 1
           }`
@@ -597,10 +1204,475 @@ export class IBCRelayerTest extends BaseTest {
       await this.sleep(pollInterval)
     }
 
-    logger.warn('⏰ Acknowledgement timeout reached')
+    // 已接收但未找到 ack：保留为 pending，由之后的补写确定结果
+    if (received) {
+      logger.warn(
+        `⏰ Packet ${sequence} was received but no acknowledgement was found`
+      )
+      return received
+    }
+
+    // 超过 packet 的超时高度或时间仍未被接收，则该 packet 已无法再被接收
+    const expired = await this.isPacketExpired(
+      transfer.timeoutHeight,
+      transfer.timeoutTimestampMs
+    )
+    logger.warn(
+      expired
+        ? '⏰ Packet timed out without being received'
+        : '⏰ Acknowledgement timeout reached'
+    )
     return {
       sequence,
       acknowledged: false,
+      outcome: expired ? 'timed-out' : 'pending',
+    }
+  }
+
+  /**
+   * packet 是否已到达超时高度（目标链当前高度）或超时时间
+   */
+  private async isPacketExpired(
+    timeoutHeight?: number,
+    timeoutTimestampMs?: number
+  ): Promise<boolean> {
+    if (timeoutTimestampMs !== undefined && Date.now() >= timeoutTimestampMs) {
+      return true
+    }
+    if (timeoutHeight === undefined) {
+      return false
+    }
+
+    try {
+      return (await this.receiverChainClient.getHeight()) >= timeoutHeight
+    } catch (error) {
+      logger.debug('Failed to query receiver chain height:', error)
+      return false
+    }
+  }
+
+  /**
+   * 目标链的 revision number：优先取源链上对方轻客户端的最新高度，
+   * 查询失败时按 chain ID 解析（osmo-test-5 → 5，没有后缀为 0）
+   */
+  private async resolveRevisionNumber(): Promise<number> {
+    if (this.revisionNumber !== undefined) {
+      return this.revisionNumber
+    }
+
+    try {
+      const connectionId =
+        this.path.connectionId ||
+        (await this.ibcQueryHelper?.getChannelConnection(
+          this.path.portId,
+          this.path.channelId
+        ))
+      const clientState = connectionId
+        ? await this.votaClient.getConnectionClientState(connectionId)
+        : null
+      if (clientState) {
+        if (clientState.chainId !== this.path.destination.chainId) {
+          logger.warn(
+            `⚠️ Light client of ${connectionId} tracks ${clientState.chainId}, but the path destination is ${this.path.destination.chainId}`
+          )
+        }
+        this.revisionNumber = clientState.latestHeight.revisionNumber
+        return this.revisionNumber
+      }
+    } catch (error) {
+      logger.warn(
+        'Failed to read revision number from the counterparty client:',
+        error instanceof Error ? error.message : error
+      )
+    }
+
+    // 不缓存回退值，下次发送时重新查询轻客户端
+    return parseRevisionNumber(this.path.destination.chainId)
+  }
+
+  /**
+   * 通过 websocket 等待 recv_packet 或 timeout_packet 事件
+   */
+  private async watchAcknowledgement(
+    sequence: number,
+    timeout: number
+  ): Promise<PacketAcknowledgement | null> {
+    if (!this.recvWatcher?.isConnected()) {
+      return null
+    }
+
+    logger.info(`📡 Waiting for packet ${sequence} events via WebSocket...`)
+
+    const recvWatcher = this.recvWatcher
+    const sourceWatcher = this.sourceWatcher?.isConnected()
+      ? this.sourceWatcher
+      : undefined
+    const waits = [recvWatcher.waitFor('recv_packet', sequence, timeout)]
+    if (sourceWatcher) {
+      waits.push(sourceWatcher.waitFor('timeout_packet', sequence, timeout))
+    }
+    const event = await Promise.race(waits)
+
+    // 取消未触发的等待，避免每个 packet 留下等待者和计时器
+    if (event?.type !== 'recv_packet') {
+      recvWatcher.cancel('recv_packet', sequence)
+    }
+    if (sourceWatcher && event?.type !== 'timeout_packet') {
+      sourceWatcher.cancel('timeout_packet', sequence)
+    }
+
+    if (!event) {
+      if (!this.recvWatcher.isConnected()) {
+        logger.warn('⚠️ WebSocket disconnected, falling back to polling')
+      }
+      return null
+    }
+
+    if (event.type === 'timeout_packet') {
+      logger.warn(
+        `↩️ Packet ${sequence} timed out, timeout relayed in ${event.txHash}`
+      )
+      return {
+        sequence,
+        acknowledged: false,
+        relayerAddress: event.signer,
+        memo: event.memo,
+        outcome: 'timeout-relayed',
+      }
+    }
+
+    logger.info(
+      `✅ recv_packet event received via WebSocket: ${event.txHash} at height ${event.height}`
+    )
+    return {
+      sequence,
+      acknowledged: true,
+      ackTime: new Date(),
+      relayerAddress: event.signer,
+      memo: event.memo,
+      targetTxHash: event.txHash,
+      ...outcomeFromAcknowledgement(
+        extractAcknowledgement(event.events, this.path.channelId, sequence)
+      ),
+    }
+  }
+
+  /**
+   * 基于区块时间追踪 packet 的各个阶段
+   * 已被接收的 packet 会继续等待 ack 被 relay 回源链
+   */
+  private async traceLifecycle(
+    transfer: IBCTransferResult,
+    ack: PacketAcknowledgement
+  ): Promise<PacketLifecycle | undefined> {
+    if (!this.ibcQueryHelper || !transfer.height) {
+      return undefined
+    }
+
+    const timeout = this.config.relayer.timeoutSeconds * 1000
+    const startTime = Date.now()
+    const pollInterval = 3000
+
+    try {
+      // 订阅可用时先等待 ack 被 relay 回源链，再查询区块时间
+      if (ack.acknowledged && this.sourceWatcher?.isConnected()) {
+        await this.sourceWatcher.waitFor(
+          'acknowledge_packet',
+          transfer.sequence!,
+          timeout
+        )
+      }
+
+      while (true) {
+        const lifecycle = await this.ibcQueryHelper.tracePacketLifecycle(
+          transfer.txHash,
+          transfer.height,
+          this.path.channelId,
+          transfer.sequence!
+        )
+
+        const completed = !!lifecycle.ack || !!lifecycle.timeout
+        if (
+          completed ||
+          !ack.acknowledged ||
+          Date.now() - startTime >= timeout
+        ) {
+          if (lifecycle.ack) {
+            logger.info(
+              `📬 Ack relayed back in ${lifecycle.ack.txHash} by ${
+                lifecycle.ack.relayer || 'unknown'
+              } (recv: ${lifecycle.recvLatency}ms, ack: ${
+                lifecycle.ackLatency
+              }ms, round trip: ${lifecycle.roundTripLatency}ms)`
+            )
+          } else if (ack.acknowledged) {
+            logger.warn('⏰ Timeout waiting for ack to be relayed back')
+          }
+          return lifecycle
+        }
+
+        await this.sleep(pollInterval)
+      }
+    } catch (error) {
+      logger.warn('Failed to trace packet lifecycle:', error)
+      return undefined
+    }
+  }
+
+  /**
+   * 查找与获胜 recv 竞争的重复 relay 交易，只记录确实有多个提交的 packet
+   */
+  private async scanRelayRace(
+    lifecycle: PacketLifecycle | undefined,
+    sequence: number
+  ): Promise<RelayRace | undefined> {
+    const blocks = this.config.relayer.raceScanBlocks
+    if (!this.ibcQueryHelper || !lifecycle?.recv || blocks <= 0) {
+      return undefined
+    }
+
+    try {
+      const race = await this.ibcQueryHelper.findRelayRace(
+        this.path.channelId,
+        sequence,
+        lifecycle.recv.height,
+        blocks
+      )
+      if (race.attempts.length <= 1) {
+        return undefined
+      }
+
+      const redundant = race.attempts.filter((a) => !a.won)
+      logger.info(
+        `🏁 Packet ${sequence} was relayed ${
+          race.attempts.length
+        } times, redundant: ${redundant
+          .map((a) => a.signer || a.txHash)
+          .join(', ')}`
+      )
+      return race
+    } catch (error) {
+      logger.warn('Failed to scan competing relays:', error)
+      return undefined
+    }
+  }
+
+  /**
+   * 转账 packet 中的 denom 及其在目标链上到账的 denom（voucher 为 ibc/<hash>）
+   */
+  private async resolveTransferDenoms(): Promise<
+    { packetDenom: string; receiveDenom: string } | undefined
+  > {
+    if (this.transferDenoms || !this.ibcQueryHelper) {
+      return this.transferDenoms
+    }
+
+    try {
+      const packetDenom = await this.ibcQueryHelper.getFullDenomPath(
+        this.path.denom
+      )
+      const counterparty = await this.ibcQueryHelper.getCounterparty(
+        this.path.portId,
+        this.path.channelId
+      )
+      this.transferDenoms = {
+        packetDenom,
+        receiveDenom: receiveDenom(
+          packetDenom,
+          this.path.portId,
+          this.path.channelId,
+          counterparty.portId,
+          counterparty.channelId
+        ),
+      }
+      logger.info(
+        `🪙 ${this.path.denom} arrives on ${this.path.destination.chainId} as ${this.transferDenoms.receiveDenom}`
+      )
+    } catch (error) {
+      logger.warn(
+        `Failed to resolve receive denom of ${this.path.denom}:`,
+        error instanceof Error ? error.message : error
+      )
+    }
+    return this.transferDenoms
+  }
+
+  private async getReceiverBalance(): Promise<string | undefined> {
+    const denoms = await this.resolveTransferDenoms()
+    if (!denoms) return undefined
+
+    try {
+      return await this.receiverChainClient.getBalance(
+        denoms.receiveDenom,
+        this.path.receiver
+      )
+    } catch (error) {
+      logger.warn('Failed to query receiver balance:', error)
+      return undefined
+    }
+  }
+
+  /**
+   * 核对成功 ack 的 packet 在目标链上到账的 denom 和金额
+   * 优先使用 recv 交易事件，事件缺失时比较发送前后的余额
+   */
+  private async verifyReceipt(
+    ack: PacketAcknowledgement,
+    balanceBefore?: string
+  ): Promise<ReceiptVerification | undefined> {
+    const recvTxHash = ack.lifecycle?.recv?.txHash || ack.targetTxHash
+    if (ack.outcome !== 'acked-success' || !recvTxHash) {
+      return undefined
+    }
+
+    const denoms = await this.resolveTransferDenoms()
+    if (!denoms) return undefined
+
+    try {
+      let receipt = await this.ibcQueryHelper!.verifyReceipt(recvTxHash, {
+        receiver: this.path.receiver,
+        packetDenom: denoms.packetDenom,
+        denom: denoms.receiveDenom,
+        amount: this.path.amount,
+      })
+
+      if (!receipt && balanceBefore !== undefined) {
+        const balanceAfter = await this.getReceiverBalance()
+        if (balanceAfter === undefined) return undefined
+
+        const delta = BigInt(balanceAfter) - BigInt(balanceBefore)
+        receipt = {
+          receiver: this.path.receiver,
+          expectedDenom: denoms.receiveDenom,
+          expectedAmount: this.path.amount,
+          receivedDenom: denoms.receiveDenom,
+          receivedAmount: delta.toString(),
+          method: 'balance',
+          verified: delta >= BigInt(this.path.amount),
+        }
+        if (!receipt.verified) {
+          receipt.error = `Balance of ${denoms.receiveDenom} increased by ${delta}, expected ${this.path.amount}`
+        }
+      }
+
+      if (receipt && !receipt.verified) {
+        logger.warn(
+          `⚠️ Packet ${ack.sequence} receipt mismatch: ${receipt.error}`
+        )
+      }
+      return receipt
+    } catch (error) {
+      logger.warn('Failed to verify receipt on destination:', error)
+      return undefined
+    }
+  }
+
+  private async getSenderBalance(sender?: string): Promise<string | undefined> {
+    try {
+      return await this.votaClient.getBalance(this.path.denom, sender)
+    } catch (error) {
+      logger.warn('Failed to query sender balance:', error)
+      return undefined
+    }
+  }
+
+  /**
+   * 核对超时或错误 ack 的 packet 是否已退款给发送方
+   * 优先使用 MsgTimeout / MsgAcknowledgement 交易事件，查不到交易时比较余额
+   */
+  private async verifyRefund(
+    ack: PacketAcknowledgement,
+    transfer?: IBCTransferResult
+  ): Promise<RefundVerification | undefined> {
+    if (ack.outcome !== 'timeout-relayed' && ack.outcome !== 'acked-error') {
+      return undefined
+    }
+
+    const refundTx =
+      ack.outcome === 'timeout-relayed'
+        ? ack.lifecycle?.timeout
+        : ack.lifecycle?.ack
+    // 错误 ack 还没有 relay 回源链时尚未退款
+    if (ack.outcome === 'acked-error' && !refundTx) {
+      return undefined
+    }
+
+    const expected = {
+      sender: transfer?.sender || this.votaClient.getAddress()!,
+      denom: this.path.denom,
+      amount: this.path.amount,
+    }
+
+    try {
+      let refund = refundTx
+        ? await this.ibcQueryHelper!.verifyRefund(refundTx.txHash, expected)
+        : undefined
+
+      if (!refund && transfer?.senderBalanceBefore !== undefined) {
+        const balanceAfter = await this.getSenderBalance(transfer.sender)
+        if (balanceAfter === undefined) return undefined
+
+        // 转账 denom 同时是手续费 denom 时，发送手续费不会退还
+        const fee =
+          transfer.cost?.feeDenom === this.path.denom
+            ? BigInt(transfer.cost.feeAmount || '0')
+            : BigInt(0)
+        const refunded =
+          BigInt(balanceAfter) -
+          (BigInt(transfer.senderBalanceBefore) -
+            BigInt(this.path.amount) -
+            fee)
+        refund = {
+          ...expected,
+          expectedAmount: this.path.amount,
+          refundedAmount: refunded.toString(),
+          method: 'balance',
+          refunded: refunded >= BigInt(this.path.amount),
+        }
+        if (!refund.refunded) {
+          refund.error = `Balance of ${this.path.denom} recovered by ${refunded}, expected ${this.path.amount}`
+        }
+      }
+
+      if (refund?.refunded) {
+        logger.info(
+          `💸 Packet ${ack.sequence} refunded ${refund.refundedAmount}${this.path.denom}`
+        )
+      } else if (refund) {
+        logger.warn(
+          `⚠️ Packet ${ack.sequence} refund mismatch: ${refund.error}`
+        )
+      }
+      return refund
+    } catch (error) {
+      logger.warn('Failed to verify refund on source chain:', error)
+      return undefined
+    }
+  }
+
+  /**
+   * 在源链上查找 MsgTimeout 交易，记录提交超时的 relayer
+   */
+  private async resolveTimeoutRelay(
+    sequence: number
+  ): Promise<PacketAcknowledgement | null> {
+    const timeoutTx = await this.ibcQueryHelper!.findTimeoutPacketTx(
+      this.path.channelId,
+      sequence
+    )
+    if (!timeoutTx) {
+      return null
+    }
+
+    logger.warn(
+      `↩️ Packet ${sequence} timed out, timeout relayed in ${timeoutTx.txHash}`
+    )
+    return {
+      sequence,
+      acknowledged: false,
+      relayerAddress: timeoutTx.signer,
+      memo: timeoutTx.memo,
+      outcome: 'timeout-relayed',
     }
   }
 
@@ -608,10 +1680,11 @@ export class IBCRelayerTest extends BaseTest {
     txHash: string
     relayerAddress: string
     memo?: string
+    acknowledgement: DecodedAcknowledgement | null
   } | null> {
     try {
       // 使用receiverChain RPC搜索recv_packet事件，限制搜索最近的交易
-      const rpcUrl = this.config.chainB.rpc
+      const rpcUrl = this.path.destination.rpc
 
       // 等待一小段时间让relayer有机会处理IBC包
       logger.info('⏳ Waiting briefly for relayer to process IBC packet...')
@@ -665,7 +1738,7 @@ export class IBCRelayerTest extends BaseTest {
       const maxSearchHeight = maxHeight + searchBuffer // 向后也要搜索
 
       // 构建带有高度范围的搜索查询
-      const searchQuery = `recv_packet.packet_sequence='${sequence}' AND recv_packet.packet_src_channel='${this.config.ibc.channelId}' AND tx.height>=${minHeight} AND tx.height<=${maxSearchHeight}`
+      const searchQuery = `recv_packet.packet_sequence='${sequence}' AND recv_packet.packet_src_channel='${this.path.channelId}' AND tx.height>=${minHeight} AND tx.height<=${maxSearchHeight}`
 
       logger.info(
         `🔍 Searching receiverChain for sequence ${sequence} in height range ${minHeight}-${maxSearchHeight} (current: ${maxHeight})`
@@ -835,10 +1908,20 @@ export class IBCRelayerTest extends BaseTest {
           logger.debug('   No relayer memo found')
         }
 
+        const acknowledgement = extractAcknowledgement(
+          tx.tx_result?.events || [],
+          this.path.channelId,
+          sequence
+        )
+        if (acknowledgement && !acknowledgement.success) {
+          logger.warn(`   Error acknowledgement: ${acknowledgement.error}`)
+        }
+
         return {
           txHash: tx.hash,
           relayerAddress,
           memo: relayerMemo,
+          acknowledgement,
         }
       }
 
@@ -872,12 +1955,12 @@ export class IBCRelayerTest extends BaseTest {
       logger.info(
         `🔍 Starting broad search for recv_packet events with sequence ${sequence}`
       )
-      const rpcUrl = this.config.chainB.rpc
+      const rpcUrl = this.path.destination.rpc
 
       // 先尝试不带高度限制的搜索
       const queries = [
         `recv_packet.packet_sequence='${sequence}'`,
-        `recv_packet.packet_src_channel='${this.config.ibc.channelId}'`,
+        `recv_packet.packet_src_channel='${this.path.channelId}'`,
         `message.action='/ibc.core.channel.v1.MsgRecvPacket'`,
       ]
 
@@ -901,7 +1984,7 @@ export class IBCRelayerTest extends BaseTest {
             { key: 'recv_packet.packet_sequence', value: sequence.toString() },
             {
               key: 'recv_packet.packet_src_channel',
-              value: this.config.ibc.channelId,
+              value: this.path.channelId,
             },
           ],
           [{ key: 'recv_packet.packet_sequence', value: sequence.toString() }],
@@ -944,7 +2027,7 @@ export class IBCRelayerTest extends BaseTest {
 
                     if (
                       packetSeq === sequence.toString() &&
-                      srcChannel === this.config.ibc.channelId
+                      srcChannel === this.path.channelId
                     ) {
                       logger.info(
                         `✅ Found matching recv_packet transaction via cosmjs: ${tx.hash} at height ${tx.height}`
@@ -1055,7 +2138,7 @@ export class IBCRelayerTest extends BaseTest {
 
                       if (
                         packetSeq === sequence.toString() &&
-                        srcChannel === this.config.ibc.channelId
+                        srcChannel === this.path.channelId
                       ) {
                         logger.info(
                           `✅ Found matching recv_packet transaction: ${tx.hash}`
@@ -1151,8 +2234,8 @@ export class IBCRelayerTest extends BaseTest {
       if (this.ibcQueryHelper) {
         const packetDetails =
           await this.ibcQueryHelper.queryPacketAcknowledgement(
-            this.config.ibc.portId,
-            this.config.ibc.channelId,
+            this.path.portId,
+            this.path.channelId,
             sequence
           )
 
@@ -1163,6 +2246,9 @@ export class IBCRelayerTest extends BaseTest {
           relayerAddress: packetDetails.relayerAddress,
           memo: undefined, // memo需要从原始交易中获取
           targetTxHash: packetDetails.targetTxHash,
+          ...(packetDetails.acknowledged
+            ? outcomeFromAcknowledgement(packetDetails.acknowledgement || null)
+            : {}),
         }
       }
 
@@ -1187,15 +2273,15 @@ export class IBCRelayerTest extends BaseTest {
 
       // 查询packet commitment来确认packet是否存在
       const packetCommitmentKey = this.generatePacketCommitmentKey(
-        this.config.ibc.portId,
-        this.config.ibc.channelId,
+        this.path.portId,
+        this.path.channelId,
         sequence
       )
 
       // 检查acknowledgement是否存在
       const ackKey = this.generateAckKey(
-        this.config.ibc.portId,
-        this.config.ibc.channelId,
+        this.path.portId,
+        this.path.channelId,
         sequence
       )
 
@@ -1227,11 +2313,11 @@ export class IBCRelayerTest extends BaseTest {
       const client = this.votaClient.getStargateClient()!
 
       // 使用REST API查询channel状态
-      const channelPath = `/ibc/core/channel/v1/channels/${this.config.ibc.channelId}/ports/${this.config.ibc.portId}`
+      const channelPath = `/ibc/core/channel/v1/channels/${this.path.channelId}/ports/${this.path.portId}`
 
       try {
         // 尝试使用客户端查询
-        const response = await fetch(`${this.config.chainA.rpc}${channelPath}`)
+        const response = await fetch(`${this.path.source.rpc}${channelPath}`)
         if (response.ok) {
           const data = (await response.json()) as any
           const channelState = data.channel?.state
@@ -1384,7 +2470,7 @@ export class IBCRelayerTest extends BaseTest {
         const searchResults = await client.searchTx([
           {
             key: 'recv_packet.packet_src_channel',
-            value: this.config.ibc.channelId,
+            value: this.path.channelId,
           },
           {
             key: 'recv_packet.packet_sequence',
@@ -1401,7 +2487,7 @@ export class IBCRelayerTest extends BaseTest {
           if (recentTxs.length > 0) {
             // 取最新的交易（最高的高度）
             const tx = recentTxs.sort((a, b) => b.height - a.height)[0]
-            const relayerAddress = this.extractRelayerFromTx(tx)
+            const relayerAddress = extractPacketSigner(tx.tx, tx.events)
 
             logger.info(
               `✅ Found recent recv_packet transaction: ${tx.hash} at height ${tx.height}`
@@ -1411,7 +2497,7 @@ export class IBCRelayerTest extends BaseTest {
               txHash: tx.hash,
               relayerAddress: relayerAddress || 'unknown',
               timestamp: new Date(), // IndexedTx doesn't have timestamp, use current time
-              memo: this.extractMemoFromTx(tx),
+              memo: extractRelayMemo(tx),
             }
           } else {
             logger.warn(
@@ -1462,13 +2548,13 @@ export class IBCRelayerTest extends BaseTest {
               const tx = await client.getTx(txHash)
 
               if (tx && this.isMatchingRecvPacketTx(tx, sequence)) {
-                const relayerAddress = this.extractRelayerFromTx(tx)
+                const relayerAddress = extractPacketSigner(tx.tx, tx.events)
 
                 return {
                   txHash: tx.hash,
                   relayerAddress: relayerAddress || 'unknown',
                   timestamp: new Date(), // IndexedTx doesn't have timestamp, use current time
-                  memo: this.extractMemoFromTx(tx),
+                  memo: extractRelayMemo(tx),
                 }
               }
             } catch (txError) {
@@ -1511,7 +2597,7 @@ export class IBCRelayerTest extends BaseTest {
 
         if (
           packetSequence === sequence.toString() &&
-          packetSrcChannel === this.config.ibc.channelId
+          packetSrcChannel === this.path.channelId
         ) {
           return true
         }
@@ -1521,37 +2607,6 @@ export class IBCRelayerTest extends BaseTest {
     return false
   }
 
-  private extractRelayerFromTx(tx: any): string | null {
-    try {
-      // 方法1: 从交易事件中提取
-      if (tx.events) {
-        for (const event of tx.events) {
-          if (event.type === 'message') {
-            const senderAttr = event.attributes?.find(
-              (attr: any) => attr.key === 'sender'
-            )
-            if (senderAttr) {
-              return senderAttr.value
-            }
-          }
-        }
-      }
-
-      // 方法2: 从交易消息中提取
-      if (tx.tx?.body?.messages?.[0]) {
-        const firstMsg = tx.tx.body.messages[0]
-        if (firstMsg.typeUrl === '/ibc.core.channel.v1.MsgRecvPacket') {
-          return firstMsg.value?.signer || null
-        }
-      }
-
-      return null
-    } catch (error) {
-      logger.error('Error extracting relayer address:', error)
-      return null
-    }
-  }
-
   /**
    * 清理从Protobuf二进制数据中提取的memo，移除字段标识符等artifacts
    */
@@ -1599,49 +2654,250 @@ export class IBCRelayerTest extends BaseTest {
     return result
   }
 
-  private extractMemoFromTx(tx: any): string | undefined {
-    try {
-      // 从交易中提取memo信息
-      if (tx.tx?.body?.memo) {
-        return tx.tx.body.memo
-      }
-
-      // 从IBC packet数据中提取memo
-      if (tx.events) {
-        for (const event of tx.events) {
-          if (event.type === 'recv_packet') {
-            const attributes = event.attributes || []
-            const dataAttr = attributes.find(
-              (attr: any) => attr.key === 'packet_data'
-            )
-            if (dataAttr) {
-              try {
-                const packetData = JSON.parse(dataAttr.value)
-                return packetData.memo
-              } catch (parseError) {
-                // 忽略解析错误
-              }
-            }
-          }
+  /**
+   * 重新扫描持久化的 pending packet，把最终结果补写到已有日志
+   */
+  private async resumePendingPackets(): Promise<number> {
+    const pending = this.pendingStore.list()
+    if (pending.length === 0 || !this.ibcQueryHelper) {
+      return 0
+    }
+
+    logger.info(`🔁 Re-scanning ${pending.length} pending packet(s)...`)
+
+    let resolved = 0
+    let changed = false
+
+    for (const packet of pending) {
+      try {
+        const ack = await this.resolvePendingPacket(packet)
+        this.pendingStore.update(packet.sequence, {
+          lastCheckedAt: new Date().toISOString(),
+        })
+
+        if (ack && this.backfillLog(packet, ack)) {
+          changed = true
         }
+
+        if (ack && isFinalOutcome(ack.outcome)) {
+          this.pendingStore.remove(packet.sequence)
+          resolved++
+          logger.info(
+            `✅ Pending packet ${packet.sequence} resolved: ${ack.outcome}`
+          )
+        } else if (
+          Date.now() - new Date(packet.sendTime).getTime() >
+          PENDING_PACKET_MAX_AGE_MS
+        ) {
+          // 长时间没有任何结果（例如超时一直没有被relay），不再跟踪
+          this.pendingStore.remove(packet.sequence)
+          logger.warn(`Dropping stale pending packet ${packet.sequence}`)
+        }
+      } catch (error) {
+        logger.warn(
+          `Failed to re-scan pending packet ${packet.sequence}:`,
+          error
+        )
       }
+    }
 
-      return undefined
-    } catch (error) {
-      logger.error('Error extracting memo:', error)
-      return undefined
+    if (changed) {
+      await this.saveTestResults()
+    }
+
+    logger.info(`🔁 Pending packets resolved: ${resolved}/${pending.length}`)
+    return resolved
+  }
+
+  /**
+   * 按链上状态确定 pending packet 的当前结果，仍在传输中时返回 null
+   */
+  private async resolvePendingPacket(
+    packet: PendingPacket
+  ): Promise<PacketAcknowledgement | null> {
+    const state = await this.ibcQueryHelper!.queryPacketState(
+      this.path.portId,
+      this.path.channelId,
+      packet.sequence
+    )
+
+    let ack: PacketAcknowledgement | null = null
+    if (state.received) {
+      ack = await this.queryPacketAcknowledgement(packet.sequence)
+    } else if (!state.commitmentExists) {
+      ack = await this.resolveTimeoutRelay(packet.sequence)
+    } else if (
+      await this.isPacketExpired(
+        packet.timeoutHeight,
+        packet.timeoutTimestampMs
+      )
+    ) {
+      ack = {
+        sequence: packet.sequence,
+        acknowledged: false,
+        outcome: 'timed-out',
+      }
+    }
+
+    if (ack && packet.height) {
+      ack.lifecycle = await this.ibcQueryHelper!.tracePacketLifecycle(
+        packet.txHash,
+        packet.height,
+        this.path.channelId,
+        packet.sequence
+      )
+      ack.relayRace = await this.scanRelayRace(ack.lifecycle, packet.sequence)
+      ack.receipt = await this.verifyReceipt(ack)
+      ack.refund = await this.verifyRefund(ack, this.toTransferResult(packet))
+    }
+    return ack
+  }
+
+  /**
+   * pending 记录对应的发送结果，用于补写日志和核对退款
+   */
+  private toTransferResult(packet: PendingPacket): IBCTransferResult {
+    return {
+      txHash: packet.txHash,
+      success: true,
+      sequence: packet.sequence,
+      timestamp: new Date(packet.sendTime),
+      height: packet.height,
+      timeoutHeight: packet.timeoutHeight,
+      timeoutTimestampMs: packet.timeoutTimestampMs,
+      sender: packet.sender,
+      scenario: packet.scenario,
+    }
+  }
+
+  /**
+   * 用重新扫描得到的结果更新对应日志，日志缺失（进程在写日志前退出）时补建
+   * 结果未变化时返回 false
+   */
+  private backfillLog(
+    packet: PendingPacket,
+    ack: PacketAcknowledgement
+  ): boolean {
+    const log = this.buildRelayerLog(this.toTransferResult(packet), ack)
+    log.backfilledAt = new Date().toISOString()
+
+    const existing = this.logStore
+      .query({ sequence: packet.sequence })
+      .find((l) => l.txHash === packet.txHash)
+    if (!existing) {
+      log.testTime = new Date(packet.sendTime)
+      this.logStore.append(log)
+      return true
+    }
+
+    if (getLogOutcome(existing) === log.outcome) {
+      return false
     }
+
+    // testTime 不变则日志ID不变，更新会覆盖原有日志
+    this.logStore.update({ ...log, testTime: existing.testTime })
+    return true
   }
 
-  private generatePerformanceMetrics(): RelayerPerformanceMetrics[] {
-    const metrics: RelayerPerformanceMetrics[] = []
+  /**
+   * 根据 packet 结果构建测试日志
+   */
+  private buildRelayerLog(
+    transfer: IBCTransferResult,
+    ack: PacketAcknowledgement
+  ): RelayerTestLog {
+    const outcome =
+      ack.outcome || (ack.acknowledged ? 'acked-success' : 'pending')
+    const success = isExpectedOutcome(outcome, transfer.scenario)
+
+    return {
+      testTime: new Date(),
+      pathId: this.path.id,
+      scenario: transfer.scenario,
+      txHash: transfer.txHash,
+      packetSequence: transfer.sequence!,
+      sendHeight: transfer.height,
+      sendCost: transfer.cost,
+      success,
+      outcome,
+      // 优先使用区块时间计算的 send → recv 延迟，不含轮询间隔
+      latency:
+        ack.lifecycle?.recvLatency ??
+        (ack.ackTime
+          ? ack.ackTime.getTime() - transfer.timestamp.getTime()
+          : this.config.relayer.timeoutSeconds * 1000),
+      targetChainTxHash: ack.targetTxHash,
+      relayerSigner: ack.relayerAddress,
+      memoIdentifier: ack.memo,
+      ackError: ack.ackError,
+      lifecycle: ack.lifecycle,
+      relayRace: ack.relayRace,
+      receipt: ack.receipt,
+      receivedAmount: ack.receipt?.receivedAmount,
+      refund: ack.refund,
+      errorMessage: success
+        ? undefined
+        : describeOutcomeError(outcome, ack.ackError) ||
+          'Packet was received before its timeout',
+    }
+  }
 
-    // 按 validator 分组统计
+  private buildSendFailedLog(
+    transfer: IBCTransferResult,
+    errorMessage?: string
+  ): RelayerTestLog {
+    return {
+      testTime: new Date(),
+      pathId: this.path.id,
+      scenario: transfer.scenario,
+      txHash: transfer.txHash,
+      packetSequence: 0,
+      success: false,
+      outcome: 'send-failed',
+      latency: 0,
+      sendCost: transfer.cost,
+      errorMessage: errorMessage || transfer.error,
+    }
+  }
+
+  private generatePerformanceMetrics(
+    query: LogQuery = {}
+  ): RelayerPerformanceMetrics[] {
+    const logs = this.logStore.query(query)
+    const groups = this.groupLogsByValidator(logs)
+    const unattributed = this.groupUnattributedLogs(logs)
+    const availability = computeAvailability(
+      logs,
+      new Map([...groups, ...unattributed]),
+      this.config.relayer.probeSlotSeconds,
+      this.config.validators.filter((v) => v.isActive).map((v) => v.moniker)
+    )
+
+    return [
+      ...computeRelayerMetrics(
+        groups,
+        this.relayerRegistry.hasBindings() ? 'verified-signer' : 'memo',
+        availability
+      ),
+      ...computeRelayerMetrics(
+        unattributed,
+        'unattributed-signer',
+        availability
+      ),
+    ]
+  }
+
+  /**
+   * 按 validator 分组；登记了绑定时只认已验证的签名地址，memo 可被伪造
+   */
+  private groupLogsByValidator(
+    logs: RelayerTestLog[]
+  ): Map<string, RelayerTestLog[]> {
     const validatorGroups = new Map<string, RelayerTestLog[]>()
 
-    this.relayerLogs.forEach((log) => {
-      if (log.memoIdentifier) {
-        const moniker = log.memoIdentifier.replace('relayed-by:', '')
+    logs.forEach((log) => {
+      const moniker = this.getAttributedMoniker(log)
+      if (moniker) {
         if (!validatorGroups.has(moniker)) {
           validatorGroups.set(moniker, [])
         }
@@ -1649,102 +2905,85 @@ export class IBCRelayerTest extends BaseTest {
       }
     })
 
-    validatorGroups.forEach((logs, moniker) => {
-      const successful = logs.filter((l) => l.success)
-      const failed = logs.filter((l) => !l.success)
-
-      const avgLatency =
-        successful.length > 0
-          ? successful.reduce((sum, l) => sum + l.latency, 0) /
-            successful.length
-          : 0
-
-      const latencies = successful.map((l) => l.latency)
-      const maxLatency = latencies.length > 0 ? Math.max(...latencies) : 0
-      const minLatency = latencies.length > 0 ? Math.min(...latencies) : 0
-
-      metrics.push({
-        validatorMoniker: moniker,
-        totalTests: logs.length,
-        successfulRelays: successful.length,
-        failedRelays: failed.length,
-        averageLatency: avgLatency,
-        maxLatency,
-        minLatency,
-        successRate: (successful.length / logs.length) * 100,
-        uptimeHours: this.calculateUptimeHours(logs),
-        continuousFailures: this.calculateContinuousFailures(logs),
-        lastActiveTime:
-          logs.length > 0 ? logs[logs.length - 1].testTime : undefined,
-      })
-    })
-
-    return metrics
+    return validatorGroups
   }
 
-  private calculateContinuousFailures(logs: RelayerTestLog[]): number {
-    let maxContinuous = 0
-    let current = 0
-
-    for (const log of logs) {
-      if (!log.success) {
-        current++
-        maxContinuous = Math.max(maxContinuous, current)
-      } else {
-        current = 0
+  /**
+   * 无法归属到 validator 的日志（没有 memo 或 signer 未验证）按 signer 地址分组
+   * 只用于展示，不参与激励分配
+   */
+  private groupUnattributedLogs(
+    logs: RelayerTestLog[]
+  ): Map<string, RelayerTestLog[]> {
+    const signerGroups = new Map<string, RelayerTestLog[]>()
+
+    logs.forEach((log) => {
+      const signer = log.relayerSigner
+      if (this.getAttributedMoniker(log) || !signer || signer === 'unknown') {
+        return
       }
-    }
+      if (!signerGroups.has(signer)) {
+        signerGroups.set(signer, [])
+      }
+      signerGroups.get(signer)!.push(log)
+    })
 
-    return maxContinuous
+    return signerGroups
   }
 
-  private calculateUptimeHours(logs: RelayerTestLog[]): number {
-    if (logs.length === 0) return 0
-
-    // 计算从第一次测试到最后一次测试的时间跨度
-    const sortedLogs = logs.sort(
-      (a, b) => a.testTime.getTime() - b.testTime.getTime()
-    )
-    const firstTestTime = sortedLogs[0].testTime
-    const lastTestTime = sortedLogs[sortedLogs.length - 1].testTime
+  private getAttributedMoniker(log: RelayerTestLog): string | undefined {
+    return this.relayerRegistry.hasBindings()
+      ? this.relayerRegistry.resolve(log.relayerSigner)?.moniker
+      : getMemoMoniker(log)
+  }
 
-    const totalHours =
-      (lastTestTime.getTime() - firstTestTime.getTime()) / (1000 * 60 * 60)
+  private getLatestLogPosition(): LatestLogPosition {
+    const logs = this.logStore.query()
+    const heights = logs
+      .map((log) => getLogSendHeight(log))
+      .filter((h): h is number => h !== undefined)
 
-    // 如果时间跨度小于1小时，返回实际的小时数
-    return Math.max(0.1, totalHours)
+    return {
+      time: logs.length > 0 ? logs[logs.length - 1].testTime : undefined,
+      height: heights.length > 0 ? Math.max(...heights) : undefined,
+    }
   }
 
-  private loadExistingLogs(): void {
+  /**
+   * 首次使用日志存储时导入旧版 relayer-test-logs.json
+   */
+  private importLegacyLogsOnce(): void {
+    const legacyFile = getLegacyLogFile(this.path.id)
+    if (existsSync(getLogStoreFile(this.path.id)) || !existsSync(legacyFile)) {
+      return
+    }
+
     try {
-      if (existsSync(this.logFile)) {
-        const data = readFileSync(this.logFile, 'utf-8')
-        this.relayerLogs = JSON.parse(data, (key, value) => {
-          if (key === 'testTime' && typeof value === 'string') {
-            return new Date(value)
-          }
-          return value
-        })
-        logger.info(`Loaded ${this.relayerLogs.length} existing logs`)
-      }
+      const { imported } = importLegacyLogs(
+        this.logStore,
+        legacyFile,
+        this.path.id
+      )
+      logger.info(`Imported ${imported} logs from ${legacyFile}`)
     } catch (error) {
-      logger.warn('Failed to load existing logs:', error)
-      this.relayerLogs = []
+      logger.warn(`Failed to import legacy logs from ${legacyFile}:`, error)
     }
   }
 
   private async saveTestResults(): Promise<void> {
     try {
-      // 保存测试日志
-      writeFileSync(this.logFile, JSON.stringify(this.relayerLogs, null, 2))
-
-      // 保存性能指标
+      // 测试日志在产生时已追加到日志存储，这里只保存性能指标
       const metrics = this.generatePerformanceMetrics()
       writeFileSync(this.metricsFile, JSON.stringify(metrics, null, 2))
 
-      logger.info(
-        `Test results saved to ${this.logFile} and ${this.metricsFile}`
-      )
+      logger.info(`Test results saved to ${this.metricsFile}`)
+
+      const anomalies = this.getIdentityAnomalies()
+      if (anomalies.length > 0) {
+        logger.warn(
+          `⚠️ ${anomalies.length} relayer identity anomalies detected, see the report for details`
+        )
+      }
     } catch (error) {
       logger.error('Failed to save test results:', error)
     }
@@ -1752,6 +2991,8 @@ export class IBCRelayerTest extends BaseTest {
 
   private async cleanup(): Promise<void> {
     try {
+      this.recvWatcher?.close()
+      this.sourceWatcher?.close()
       await Promise.all([
         this.votaClient.disconnect(),
         this.receiverChainClient.disconnect(),
@@ -1770,8 +3011,11 @@ export class IBCRelayerTest extends BaseTest {
       // 初始化客户端
       logger.info('📡 Initializing blockchain clients...')
       await this.initializeClients()
+      await this.checkReverseFunding()
       logger.info('✅ Clients initialized successfully')
 
+      await this.resumePendingPackets()
+
       // 发送IBC转账
       logger.info('💸 Sending IBC transfer...')
       const transferResult = await this.sendIBCTransfer()
@@ -1790,16 +3034,10 @@ export class IBCRelayerTest extends BaseTest {
         logger.error(errorMsg)
 
         // 返回失败的测试日志而不是抛出错误
-        const failedLog: RelayerTestLog = {
-          testTime: new Date(),
-          txHash: transferResult.txHash || 'N/A',
-          packetSequence: 0,
-          success: false,
-          latency: 0,
-          errorMessage: errorMsg,
-        }
+        const failedLog = this.buildSendFailedLog(transferResult, errorMsg)
+        failedLog.txHash = transferResult.txHash || 'N/A'
 
-        this.relayerLogs.push(failedLog)
+        this.logStore.append(failedLog)
         await this.saveTestResults()
         await this.cleanup()
 
@@ -1810,34 +3048,20 @@ export class IBCRelayerTest extends BaseTest {
       logger.info(
         `⏳ Waiting for acknowledgement (sequence: ${transferResult.sequence})...`
       )
-      const ackResult = await this.waitForAcknowledgement(
-        transferResult.sequence!
-      )
+      const ackResult = await this.waitForAcknowledgement(transferResult)
 
       logger.info('📨 Acknowledgement result:', {
         acknowledged: ackResult.acknowledged,
+        outcome: ackResult.outcome,
+        ackError: ackResult.ackError,
         relayerAddress: ackResult.relayerAddress,
         memo: ackResult.memo,
         targetTxHash: ackResult.targetTxHash,
       })
 
-      const log: RelayerTestLog = {
-        testTime: new Date(),
-        txHash: transferResult.txHash,
-        packetSequence: transferResult.sequence!,
-        success: ackResult.acknowledged,
-        latency: ackResult.ackTime
-          ? ackResult.ackTime.getTime() - transferResult.timestamp.getTime()
-          : this.config.relayer.timeoutSeconds * 1000,
-        targetChainTxHash: ackResult.targetTxHash,
-        relayerSigner: ackResult.relayerAddress,
-        memoIdentifier: ackResult.memo,
-        errorMessage: ackResult.acknowledged
-          ? undefined
-          : 'Acknowledgement timeout',
-      }
-
-      this.relayerLogs.push(log)
+      const log = this.buildRelayerLog(transferResult, ackResult)
+
+      this.logStore.append(log)
       await this.saveTestResults()
       await this.cleanup()
 
@@ -1870,11 +3094,446 @@ export class IBCRelayerTest extends BaseTest {
     }
   }
 
-  getRelayerLogs(): RelayerTestLog[] {
-    return [...this.relayerLogs]
+  /**
+   * 只重新扫描 pending packet，不发送新的转账
+   */
+  async runPendingRescan(): Promise<number> {
+    try {
+      await this.initializeClients()
+      return await this.resumePendingPackets()
+    } finally {
+      await this.cleanup()
+    }
   }
 
-  getPerformanceMetrics(): RelayerPerformanceMetrics[] {
-    return this.generatePerformanceMetrics()
+  /**
+   * 开环负载测试：按速率曲线提交 packet，不等待之前 packet 的结果，
+   * 所有未完成的 packet 并发跟踪，结束后汇总吞吐量、积压和各 relayer 的饱和点
+   */
+  async runLoadTest(
+    profile: LoadProfile = this.config.relayer.load
+  ): Promise<LoadTestSummary> {
+    try {
+      await this.initializeClients()
+      await this.checkReverseFunding()
+      await this.resumePendingPackets()
+      await this.checkSendCapacity(profile)
+      await this.setupAccountPool()
+
+      const schedule = loadSchedule(profile)
+      logger.info(
+        `🚦 Starting ${profile.mode} load test: ${schedule.length} packets in ${profile.durationSeconds}s`
+      )
+
+      const startTime = Date.now()
+      const packets: LoadPacket[] = []
+      const tracking: Promise<void>[] = []
+      this.overlappingSends = true
+
+      for (let i = 0; i < schedule.length; i++) {
+        const plannedAt = startTime + schedule[i]
+        const delay = plannedAt - Date.now()
+        if (delay > 0) {
+          await this.sleep(delay)
+        }
+
+        // 同一账户的交易只能依次提交：没有账户池时等待发送完成，
+        // 账户池全部忙碌时等待空闲账户；启动前已检查发送能力，剩余的落后体现为 maxSendLagMs
+        const account = await this.accountPool?.acquire()
+        const sentAt = Date.now()
+        const sending = this.sendIBCTransfer(
+          `load-test-${i}`,
+          'relay',
+          account
+        ).finally(() => account && this.accountPool!.release(account))
+        if (!account) {
+          await sending
+        }
+
+        let sent: IBCTransferResult | undefined
+        tracking.push(
+          sending
+            .then(async (transfer) => {
+              sent = transfer
+              if (!transfer.success) {
+                packets.push({
+                  plannedAt,
+                  sentAt,
+                  log: this.buildSendFailedLog(transfer),
+                })
+                return
+              }
+
+              const ack = await this.waitForAcknowledgement(transfer)
+              const log = this.buildRelayerLog(transfer, ack)
+              this.logStore.append(log)
+              packets.push({ plannedAt, sentAt, log })
+            })
+            .catch((error) => {
+              const errorMessage =
+                error instanceof Error ? error.message : String(error)
+              logger.warn(`Failed to track load-test-${i}:`, errorMessage)
+
+              // packet 仍在 pending 中，之后重新扫描补全；摘要中计为未确定结果
+              packets.push({
+                plannedAt,
+                sentAt,
+                log: sent?.success
+                  ? this.buildRelayerLog(sent, {
+                      sequence: sent.sequence!,
+                      acknowledged: false,
+                      outcome: 'pending',
+                    })
+                  : this.buildSendFailedLog(
+                      sent || {
+                        txHash: '',
+                        success: false,
+                        timestamp: new Date(sentAt),
+                        scenario: 'relay',
+                      },
+                      errorMessage
+                    ),
+              })
+            })
+        )
+      }
+
+      logger.info(
+        `⏳ All packets submitted, waiting for ${tracking.length} outstanding packets...`
+      )
+      await Promise.all(tracking)
+
+      const summary = summarizeLoadTest(
+        this.path.id,
+        profile,
+        startTime,
+        packets,
+        (log) =>
+          this.getAttributedMoniker(log) || log.relayerSigner || 'unknown'
+      )
+      const summaryFile = join(
+        process.cwd(),
+        pathScopedFileName('load-test-summary.json', this.path.id)
+      )
+      writeFileSync(summaryFile, JSON.stringify(summary, null, 2))
+      logger.info(`Load test summary saved to ${summaryFile}`)
+
+      await this.saveTestResults()
+      return summary
+    } finally {
+      this.overlappingSends = false
+      await this.releaseAccountPool()
+      await this.cleanup()
+    }
+  }
+
+  /**
+   * 每个发送账户等待上一笔交易上链后才能发送下一笔，
+   * 目标速率超过发送账户能提交的速率时直接报错，而不是少发 packet
+   */
+  private async checkSendCapacity(profile: LoadProfile): Promise<void> {
+    const senders = Math.max(1, this.config.test.accountPool.size)
+    const client = this.votaClient.getStargateClient()!
+    const latestHeight = await client.getHeight()
+    const sampleHeight = Math.max(1, latestHeight - BLOCK_INTERVAL_SAMPLE)
+    const [latest, sample] = await Promise.all([
+      client.getBlock(latestHeight),
+      client.getBlock(sampleHeight),
+    ])
+    const blockIntervalMs =
+      latestHeight > sampleHeight
+        ? (new Date(latest.header.time).getTime() -
+            new Date(sample.header.time).getTime()) /
+          (latestHeight - sampleHeight)
+        : 0
+
+    const capacity =
+      (senders * 1000) / Math.max(blockIntervalMs, BROADCAST_POLL_INTERVAL_MS)
+    const maxRate = maxRateOf(profile)
+    if (maxRate > capacity) {
+      const blockSeconds = (blockIntervalMs / 1000).toFixed(1)
+      const neededSenders = Math.ceil((maxRate / capacity) * senders)
+      const maxSendRate = capacity.toFixed(2)
+      throw new Error(
+        `Load profile peaks at ${maxRate} packets/s, but ${senders} sender(s) can submit about ${maxSendRate} packets/s (${blockSeconds}s blocks); set ACCOUNT_POOL_SIZE to at least ${neededSenders} or lower the rate`
+      )
+    }
+  }
+
+  /**
+   * 只运行多消息批量场景
+   */
+  async runMultiMsgTest(size: number, count: number): Promise<TestResult> {
+    try {
+      await this.initializeClients()
+      await this.checkReverseFunding()
+      await this.resumePendingPackets()
+
+      const result = await this.runMultiMsgBatchTest(size, count)
+      await this.saveTestResults()
+      return result
+    } finally {
+      await this.cleanup()
+    }
+  }
+
+  /**
+   * 配置了 ACCOUNT_POOL_SIZE 时派生发送账户池，并从主账户补足
+   * transfersPerAccount 笔转账所需的转账金额和手续费
+   */
+  private async setupAccountPool(): Promise<void> {
+    const { size, transfersPerAccount } = this.config.test.accountPool
+    if (size <= 0) return
+
+    this.accountPool = new AccountPool(this.path.source, size, this.config.gas)
+    await this.accountPool.setup(this.config.test.mnemonic)
+
+    const targets = new Map<string, bigint>()
+    const addTarget = (denom: string, amount: bigint) =>
+      targets.set(denom, (targets.get(denom) || BigInt(0)) + amount)
+    addTarget(
+      this.path.denom,
+      BigInt(this.path.amount) * BigInt(transfersPerAccount)
+    )
+    addTarget(
+      this.accountPool.getFeeDenom(),
+      BigInt(this.accountPool.estimateFees(transfersPerAccount))
+    )
+
+    const fundingTx = await this.accountPool.fund(
+      this.votaClient,
+      Array.from(targets.entries()).map(([denom, amount]) => ({
+        denom,
+        amount: amount.toString(),
+      }))
+    )
+    if (fundingTx) {
+      await this.recordWalletFees([fundingTx], 'pool-funding')
+    }
+  }
+
+  private async releaseAccountPool(): Promise<void> {
+    if (!this.accountPool) return
+
+    try {
+      if (this.config.test.accountPool.sweep) {
+        const sweepTxs = await this.accountPool.sweep(
+          this.votaClient.getAddress()!,
+          [this.path.denom]
+        )
+        await this.recordWalletFees(sweepTxs, 'pool-sweep')
+      }
+      await this.accountPool.disconnect()
+    } catch (error) {
+      logger.warn('Failed to release account pool:', error)
+    }
+    this.accountPool = undefined
+  }
+
+  /**
+   * 把账户池余额转回主账户，例如测试中断后
+   * 反向路径的 voucher denom 要连接链后才能确定
+   */
+  async sweepAccountPool(): Promise<void> {
+    const { size } = this.config.test.accountPool
+    try {
+      await this.initializeClients()
+
+      const pool = new AccountPool(this.path.source, size, this.config.gas)
+      await pool.setup(this.config.test.mnemonic)
+      logger.info(`[${this.path.id}] Sweeping ${size} pool accounts...`)
+      const sweepTxs = await pool.sweep(this.votaClient.getAddress()!, [
+        this.path.denom,
+      ])
+      await this.recordWalletFees(sweepTxs, 'pool-sweep')
+      await pool.disconnect()
+    } finally {
+      await this.cleanup()
+    }
+  }
+
+  /**
+   * 账户池的手续费来自测试钱包充值的余额，同样计入每日预算
+   */
+  private async recordWalletFees(
+    txHashes: string[],
+    purpose: WalletFee['purpose']
+  ): Promise<void> {
+    for (const txHash of txHashes) {
+      const cost = await this.getSendCost(txHash)
+      if (!cost) continue
+      this.walletFeeStore.record({
+        time: new Date(),
+        chainId: this.path.source.chainId,
+        txHash,
+        purpose,
+        cost,
+      })
+    }
+  }
+
+  getPendingPackets(): PendingPacket[] {
+    return this.pendingStore.list()
+  }
+
+  getRelayerLogs(query?: LogQuery): RelayerTestLog[] {
+    return this.logStore.query(query)
+  }
+
+  getPath(): IBCPathConfig {
+    return this.path
+  }
+
+  getPerformanceMetrics(query?: LogQuery): RelayerPerformanceMetrics[] {
+    return this.generatePerformanceMetrics(query)
+  }
+
+  /**
+   * 解析 --from/--to/--window，默认窗口取决于最新日志的时间和高度
+   */
+  resolveWindow(options: WindowOptions): ResolvedWindow | undefined {
+    return resolveMetricsWindow(options, this.getLatestLogPosition())
+  }
+
+  /**
+   * 按窗口分桶的成功率 / 延迟趋势，附带最近几个桶的滚动成功率
+   */
+  getMetricsTrends(resolved?: ResolvedWindow): MetricsTrendPoint[] {
+    const points: MetricsTrendPoint[] = []
+    const totals: { tests: number; successes: number }[] = []
+
+    getTrendWindows(resolved, this.getLatestLogPosition()).forEach((window) => {
+      const logs = this.logStore.query(windowToQuery(window))
+      const successful = logs.filter(isSuccessfulRelay)
+      totals.push({ tests: logs.length, successes: successful.length })
+
+      const rolling = totals.slice(-ROLLING_TREND_BUCKETS)
+      const rollingTests = rolling.reduce((sum, t) => sum + t.tests, 0)
+      const rollingSuccesses = rolling.reduce((sum, t) => sum + t.successes, 0)
+
+      points.push({
+        window,
+        totalTests: logs.length,
+        successRate:
+          logs.length > 0 ? (successful.length / logs.length) * 100 : 0,
+        averageLatency: mean(successful.map((l) => l.latency)) ?? 0,
+        rollingSuccessRate:
+          rollingTests > 0 ? (rollingSuccesses / rollingTests) * 100 : 0,
+        validators: computeRelayerMetrics(
+          this.groupLogsByValidator(logs),
+          this.relayerRegistry.hasBindings() ? 'verified-signer' : 'memo'
+        ).map((m) => ({
+          moniker: m.validatorMoniker,
+          totalTests: m.totalTests,
+          successRate: m.successRate,
+        })),
+      })
+    })
+
+    return points
+  }
+
+  /**
+   * 竞争 relay 统计：登记了绑定时按已验证的 signer 归属，否则按交易 memo
+   */
+  getRelayRaceStats(query?: LogQuery): RelayRaceStats[] {
+    const verifiedAttribution = this.relayerRegistry.hasBindings()
+    return summarizeRelayRaces(this.logStore.query(query), (attempt) => {
+      const moniker = verifiedAttribution
+        ? this.relayerRegistry.resolve(attempt.signer)?.moniker
+        : attempt.memo?.replace('relayed-by:', '')
+      return moniker || attempt.signer || 'unknown'
+    })
+  }
+
+  /**
+   * 多消息批量交易中的 packet 被各 relayer 接收的方式
+   */
+  getMultiMsgBatches(query?: LogQuery): {
+    batches: MultiMsgBatch[]
+    relayers: BatchRelayerStats[]
+  } {
+    return this.summarizeBatches(this.logStore.query(query))
+  }
+
+  private summarizeBatches(logs: RelayerTestLog[]): {
+    batches: MultiMsgBatch[]
+    relayers: BatchRelayerStats[]
+  } {
+    return summarizeMultiMsgBatches(
+      logs,
+      (log) => this.getAttributedMoniker(log) || log.relayerSigner || 'unknown'
+    )
+  }
+
+  /**
+   * 在本路径测试 packet 上出现过的全部 relayer 地址
+   */
+  getDiscoveredRelayers(query?: LogQuery): DiscoveredRelayer[] {
+    return discoverRelayers(
+      this.logStore.query(query),
+      this.config.validators,
+      this.relayerRegistry
+    )
+  }
+
+  /**
+   * 测试钱包每天的发送手续费，合计同一源链上所有路径，默认只统计今天
+   */
+  getDailySpend(
+    query: LogQuery = { from: new Date(new Date().toISOString().slice(0, 10)) }
+  ): DailySpend[] {
+    const logs = this.getWalletLogs(query)
+    // 已写入日志的发送不再单独计算
+    logs
+      .filter((log) => log.sendCost)
+      .forEach((log) => this.unloggedSends.delete(log.txHash))
+
+    return summarizeDailySpend(logs, this.config.relayer.dailyBudget, [
+      ...this.walletFeeStore.list(
+        this.path.source.chainId,
+        query.from,
+        query.to
+      ),
+      ...Array.from(this.unloggedSends.values()),
+    ])
+  }
+
+  /**
+   * 与本路径共用测试钱包的路径：源链相同，发送地址即相同
+   */
+  getWalletPaths(): IBCPathConfig[] {
+    return this.config.paths.filter(
+      (p) => p.source.chainId === this.path.source.chainId
+    )
+  }
+
+  private getWalletLogs(query: LogQuery): RelayerTestLog[] {
+    if (!this.walletStores) {
+      this.walletStores = this.getWalletPaths().map((p) =>
+        p.id === this.path.id ? this.logStore : createLogStore(p.id)
+      )
+    }
+    return this.walletStores.flatMap((store) => store.query(query))
+  }
+
+  getIdentityAnomalies(query?: LogQuery): IdentityAnomaly[] {
+    return detectIdentityAnomalies(
+      this.logStore.query(query),
+      this.config.validators,
+      this.relayerRegistry
+    )
+  }
+
+  /**
+   * 激励评分的输入：周期内的日志及其 validator 归属
+   */
+  getIncentiveInput(query?: LogQuery): IncentiveInput {
+    const logs = this.logStore.query(query)
+    return {
+      groups: this.groupLogsByValidator(logs),
+      logs,
+      anomalies: this.getIdentityAnomalies(query),
+    }
   }
 }
@@ -1,7 +1,9 @@
 import { BaseTest } from './BaseTest'
 import { CosmosClient } from '../clients/CosmosClient'
+import { AccountPool } from '../clients/AccountPool'
 import { TestResult, TestConfig } from '../types'
 import { logger } from '../utils/logger'
+import { parseRevisionNumber } from '../utils/timeoutPolicy'
 import { coins } from '@cosmjs/stargate'
 
 export class PacketTransmissionTest extends BaseTest {
@@ -81,7 +83,7 @@ export class PacketTransmissionTest extends BaseTest {
       }
 
       // 检查初始余额
-      const initialBalance = await this.clientA.getBalance()
+      const initialBalance = await this.clientA.getBalance('stake')
       logger.debug('Initial balance', { balance: initialBalance })
 
       // 构造 IBC 转账消息
@@ -94,7 +96,7 @@ export class PacketTransmissionTest extends BaseTest {
           sender: senderAddress,
           receiver: recipientAddress,
           timeoutHeight: {
-            revisionNumber: 0,
+            revisionNumber: parseRevisionNumber(this.config.chainB.chainId),
             revisionHeight: this.config.ibc.packetTimeoutHeight,
           },
           timeoutTimestamp: this.config.ibc.packetTimeoutTimestamp,
@@ -140,10 +142,13 @@ export class PacketTransmissionTest extends BaseTest {
 
     const batchSize = Math.min(this.config.test.maxConcurrentTxs, 5)
     const promises: Promise<boolean>[] = []
+    const pool = await this.setupAccountPool()
 
     for (let i = 0; i < batchSize; i++) {
-      promises.push(this.executeSingleTransfer(i))
-      await this.sleep(100) // 小延迟避免nonce冲突
+      promises.push(this.executeSingleTransfer(i, pool))
+      if (!pool) {
+        await this.sleep(100) // 小延迟避免nonce冲突
+      }
     }
 
     try {
@@ -161,13 +166,51 @@ export class PacketTransmissionTest extends BaseTest {
     } catch (error) {
       logger.error('Batch transfer test failed', error)
       return false
+    } finally {
+      if (pool) {
+        if (this.config.test.accountPool.sweep) {
+          await pool.sweep(this.clientA.getAddress()!, ['stake'])
+        }
+        await pool.disconnect()
+      }
     }
   }
 
-  private async executeSingleTransfer(index: number): Promise<boolean> {
+  /**
+   * 配置了 ACCOUNT_POOL_SIZE 时，批量转账分散到从主账户充值的账户池
+   */
+  private async setupAccountPool(): Promise<AccountPool | undefined> {
+    const { size, transfersPerAccount } = this.config.test.accountPool
+    if (size <= 0) return undefined
+
+    try {
+      const pool = new AccountPool(this.config.chainA, size, this.config.gas)
+      await pool.setup(this.config.test.mnemonic)
+      await pool.fund(this.clientA, [
+        coins(100 * transfersPerAccount, 'stake')[0],
+        {
+          denom: pool.getFeeDenom(),
+          amount: pool.estimateFees(transfersPerAccount),
+        },
+      ])
+      return pool
+    } catch (error) {
+      logger.warn(
+        'Failed to set up account pool, using the main account',
+        error
+      )
+      return undefined
+    }
+  }
+
+  private async executeSingleTransfer(
+    index: number,
+    pool?: AccountPool
+  ): Promise<boolean> {
+    const account = await pool?.acquire()
     try {
       const signingClient = this.clientA.getSigningClient()
-      const senderAddress = this.clientA.getAddress()
+      const senderAddress = account?.address || this.clientA.getAddress()
       const recipientAddress = this.clientB.getAddress()
 
       if (!signingClient || !senderAddress || !recipientAddress) {
@@ -183,19 +226,25 @@ export class PacketTransmissionTest extends BaseTest {
           sender: senderAddress,
           receiver: recipientAddress,
           timeoutHeight: {
-            revisionNumber: 0,
+            revisionNumber: parseRevisionNumber(this.config.chainB.chainId),
             revisionHeight: this.config.ibc.packetTimeoutHeight,
           },
           timeoutTimestamp: this.config.ibc.packetTimeoutTimestamp,
         },
       }
 
-      const txResult = await signingClient.signAndBroadcast(
-        senderAddress,
-        [transferMsg],
-        'auto',
-        `Batch transfer ${index}`
-      )
+      const txResult = account
+        ? await pool!.broadcast(
+            account,
+            [transferMsg],
+            `Batch transfer ${index}`
+          )
+        : await signingClient.signAndBroadcast(
+            senderAddress,
+            [transferMsg],
+            'auto',
+            `Batch transfer ${index}`
+          )
 
       const success = txResult.code === 0
 
@@ -214,6 +263,8 @@ export class PacketTransmissionTest extends BaseTest {
     } catch (error) {
       logger.warn(`Batch transfer ${index} failed with error`, error)
       return false
+    } finally {
+      if (account) pool!.release(account)
     }
   }
 
@@ -239,7 +290,7 @@ export class PacketTransmissionTest extends BaseTest {
           sender: senderAddress,
           receiver: recipientAddress,
           timeoutHeight: {
-            revisionNumber: 0,
+            revisionNumber: parseRevisionNumber(this.config.chainB.chainId),
             revisionHeight: 1, // 非常低的高度，应该会立即超时
           },
           timeoutTimestamp: Date.now() * 1000000 + 1000000000, // 1秒后超时
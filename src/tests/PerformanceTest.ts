@@ -2,6 +2,7 @@ import { BaseTest } from './BaseTest'
 import { CosmosClient } from '../clients/CosmosClient'
 import { TestResult, TestConfig } from '../types'
 import { logger } from '../utils/logger'
+import { summarizeLatencies } from '../utils/statistics'
 
 export class PerformanceTest extends BaseTest {
   private clientA: CosmosClient
@@ -157,23 +158,20 @@ export class PerformanceTest extends BaseTest {
       return false
     }
 
-    const avgLatency =
-      latencies.reduce((sum, l) => sum + l, 0) / latencies.length
-    const maxLatency = Math.max(...latencies)
-    const minLatency = Math.min(...latencies)
-    const p95Latency = latencies.sort((a, b) => a - b)[
-      Math.floor(latencies.length * 0.95)
-    ]
+    const distribution = summarizeLatencies(latencies)!
 
     logger.info('Latency test completed', {
-      samples: latencies.length,
-      averageLatency: avgLatency,
-      maxLatency,
-      minLatency,
-      p95Latency,
+      samples: distribution.count,
+      averageLatency: distribution.mean,
+      maxLatency: distribution.max,
+      minLatency: distribution.min,
+      p50Latency: distribution.p50,
+      p95Latency: distribution.p95,
+      p99Latency: distribution.p99,
+      stddev: distribution.stddev,
     })
 
-    return avgLatency < 2000 && p95Latency < 5000 // 平均延迟<2s, P95<5s
+    return distribution.mean < 2000 && distribution.p95 < 5000 // 平均延迟<2s, P95<5s
   }
 
   private async cleanup(): Promise<void> {
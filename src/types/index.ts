@@ -10,6 +10,7 @@ export interface ChainConfig {
   rpc: string
   chainId: string
   prefix: string
+  gasPrice?: string // 该链的 gas 价格（如 0.025uosmo），缺省使用 GAS_PRICE + FEE_DENOM
 }
 
 export interface IBCConfig {
@@ -24,6 +25,14 @@ export interface TestParams {
   durationMinutes: number
   maxConcurrentTxs: number
   mnemonic: string
+  accountPool: AccountPoolConfig
+}
+
+// 负载测试的发送账户池：从 mnemonic 的 HD 路径 1..size 派生，0 为主账户
+export interface AccountPoolConfig {
+  size: number // 0 为不使用账户池
+  transfersPerAccount: number // 充值时每个账户按这么多笔转账（含手续费）补足余额
+  sweep: boolean // 测试结束后把余额转回主账户
 }
 
 export interface TestResult {
@@ -63,6 +72,32 @@ export interface ChannelState {
   counterpartyChannelId: string
   counterpartyPortId: string
   connectionHops: string[]
+  ordering: string
+  version: string
+}
+
+export interface IBCHeight {
+  revisionNumber: number
+  revisionHeight: number
+}
+
+// 连接所使用的 Tendermint 轻客户端状态
+export interface ClientStateInfo {
+  clientId: string
+  chainId: string
+  latestHeight: IBCHeight
+  frozen: boolean
+  trustingPeriodSeconds: number
+  unbondingPeriodSeconds: number
+  maxClockDriftSeconds: number
+}
+
+export interface ConsensusStateInfo {
+  clientId: string
+  height: IBCHeight
+  timestamp?: Date
+  root: string
+  nextValidatorsHash: string
 }
 
 export interface TestStats {
@@ -74,20 +109,227 @@ export interface TestStats {
   minLatency: number
   startTime: Date
   endTime?: Date
+  latencyDistribution?: LatencyDistribution
+}
+
+// 直方图桶 [from, to]，最后一个桶没有上界
+export interface HistogramBucket {
+  from: number
+  to?: number
+  count: number
+}
+
+export interface LatencyDistribution {
+  count: number
+  mean: number
+  stddev: number
+  min: number
+  max: number
+  p50: number
+  p90: number
+  p95: number
+  p99: number
+  histogram: HistogramBucket[]
+  approximate?: boolean // 由 LatencySketch 估算
 }
 
 // New types for IBC Relayer testing
+
+// 每个测试packet的最终结果
+// acked-success: 目标链写入成功ack   acked-error: 目标链写入错误ack
+// timed-out: 已超时但还没有relayer提交MsgTimeout   timeout-relayed: relayer已提交MsgTimeout
+// pending: 等待结束时仍未有结果   send-failed: 源链上的转账交易失败
+export type RelayOutcome =
+  | 'acked-success'
+  | 'acked-error'
+  | 'timed-out'
+  | 'timeout-relayed'
+  | 'pending'
+  | 'send-failed'
+
+// 测试场景：relay 为普通转账；timeout 故意发送很快超时的 packet，
+// 预期结果是 relayer 提交 MsgTimeout 并退款
+export type RelayScenario = 'relay' | 'timeout'
+
 export interface RelayerTestLog {
   testTime: Date
+  pathId?: string
+  scenario?: RelayScenario // 缺省为 relay
   txHash: string
   packetSequence: number
   success: boolean
+  outcome?: RelayOutcome
+  ackError?: string
   latency: number
   targetChainTxHash?: string
   relayerSigner?: string
   memoIdentifier?: string
   errorMessage?: string
   receivedAmount?: string
+  sendHeight?: number // 源链上发送交易的高度，用于按高度 epoch 聚合
+  sendCost?: TxCost // 测试钱包发送交易的 gas 和手续费
+  lifecycle?: PacketLifecycle
+  relayRace?: RelayRace
+  receipt?: ReceiptVerification
+  refund?: RefundVerification
+  backfilledAt?: string // 由 pending packet 重新扫描补全结果的时间
+}
+
+// 目标链上实际到账的 ICS-20 代币与预期（voucher denom、转账金额）的比对
+// event: 取自 recv 交易的 coin_received / fungible_token_packet 事件
+// balance: 事件缺失时按接收地址的余额变化判断，可能受其他转入影响
+export interface ReceiptVerification {
+  receiver: string
+  expectedDenom: string
+  expectedAmount: string
+  receivedDenom?: string
+  receivedAmount?: string
+  method: 'event' | 'balance'
+  verified: boolean
+  error?: string
+}
+
+// 超时或错误 ack 后源链退还给发送方的代币
+// event: 取自 MsgTimeout / MsgAcknowledgement 交易中发送方的 coin_received 事件
+// balance: 事件缺失时按发送方余额（扣除发送手续费）是否恢复判断
+export interface RefundVerification {
+  sender: string
+  denom: string
+  expectedAmount: string
+  refundedAmount?: string
+  txHash?: string
+  method: 'event' | 'balance'
+  refunded: boolean
+  error?: string
+}
+
+// 目标链上提交同一 packet 的一笔 MsgRecvPacket 交易，包括失败的重复 relay
+export interface RelayAttempt {
+  txHash: string
+  height: number
+  txIndex: number
+  signer?: string
+  memo?: string
+  code: number
+  gasUsed: number
+  gasWanted: number
+  fee?: string
+  fingerprint?: RelayerFingerprint
+  won: boolean
+  // 重复 relay 消耗的 gas：失败交易计全部，成功的批量交易按 recv 消息数均摊
+  wastedGas: number
+}
+
+// recv 高度附近扫描到的全部竞争交易，按上链顺序排列
+export interface RelayRace {
+  fromHeight: number
+  toHeight: number
+  attempts: RelayAttempt[]
+}
+
+export interface RelayRaceStats {
+  relayer: string // moniker，无法归属时为 signer 地址
+  signers: string[]
+  attempted: number
+  won: number
+  redundant: number
+  winRate: number // 0-100
+  wastedGas: number
+}
+
+// 已发送但尚未得到最终结果的 packet，持久化以便重启后继续跟踪
+export interface PendingPacket {
+  pathId: string
+  sequence: number
+  txHash: string
+  sendTime: string
+  height?: number
+  timeoutHeight?: number
+  timeoutTimestampMs?: number
+  scenario?: RelayScenario
+  sender?: string // 发送地址，账户池发送时不是测试钱包
+  lastCheckedAt?: string
+}
+
+// packet 生命周期中的一步，时间取自交易所在区块的区块时间
+export interface PacketLifecycleLeg {
+  txHash: string
+  height: number
+  time: string
+  relayer?: string
+  memo?: string
+  fingerprint?: RelayerFingerprint
+  cost?: TxCost
+}
+
+// 交易的 gas 与实际支付的手续费；多币种手续费只记录第一个币种
+export interface TxCost {
+  gasUsed: number
+  gasWanted: number
+  feeAmount?: string
+  feeDenom?: string
+}
+
+// 不对应 packet 日志的测试钱包手续费：账户池充值 / 回收，或已广播但尚未写入日志的发送
+export interface WalletFee {
+  time: Date
+  chainId: string
+  txHash: string
+  purpose: 'send' | 'pool-funding' | 'pool-sweep'
+  cost: TxCost
+}
+
+// 测试钱包某一天（UTC）的发送交易花费
+export interface DailySpend {
+  date: string
+  transfers: number
+  gasUsed: number
+  fees: Record<string, string> // denom -> amount
+  budget?: { amount: string; denom: string }
+  overBudget: boolean
+}
+
+// relayer 为 recv 和自己回传的 ack 支付的成本，批量交易按 packet 消息数均摊
+export interface RelayerCostEfficiency {
+  relayTxs: number
+  gasUsed: number
+  averageGasPerRelay: number
+  fees: Record<string, string>
+  feePerSuccessfulRelay: Record<string, string>
+}
+
+export type RelayerSoftware = 'hermes' | 'go-relayer' | 'ts-relayer' | 'unknown'
+
+// 从交易 memo 和消息结构识别的 relayer 实现
+export interface RelayerFingerprint {
+  software: RelayerSoftware
+  version?: string
+  // 交易中 MsgRecvPacket / MsgAcknowledgement / MsgTimeout 的数量
+  packetMessages: number
+  // 是否与 MsgUpdateClient 打包在同一交易中
+  clientUpdate: boolean
+  messageTypes: string[]
+  gasLimit?: number
+  fee?: string
+}
+
+// 按 validator 汇总的 relayer 软件分布
+export interface RelayerSoftwareMix {
+  // "hermes 1.10.0" / "go-relayer v2.5.2" / "unknown" -> relay 次数
+  versions: Record<string, number>
+  averageBatchSize: number
+  clientUpdateRate: number // 0-100
+}
+
+// send(源链) → MsgRecvPacket(目标链) → MsgAcknowledgement / MsgTimeout(源链)
+export interface PacketLifecycle {
+  send: PacketLifecycleLeg
+  recv?: PacketLifecycleLeg
+  ack?: PacketLifecycleLeg
+  timeout?: PacketLifecycleLeg
+  recvLatency?: number // send → recv (ms)
+  ackLatency?: number // recv → ack (ms)
+  roundTripLatency?: number // send → ack (ms)
 }
 
 export interface ValidatorInfo {
@@ -95,6 +337,40 @@ export interface ValidatorInfo {
   operatorAddress: string
   relayerAddresses: string[]
   isActive: boolean
+  relayerBindings?: RelayerBinding[]
+}
+
+// validator 声明的 relayer 地址（任意链），附带所有权证明
+export interface RelayerBinding {
+  address: string
+  // ADR-036 签名：operator 账户对 bindingMessage 的签名及其公钥 (base64)
+  signature?: string
+  pubKey?: string
+}
+
+export type BindingVerificationMethod = 'signature' | 'feegrant' | 'authz'
+
+// 在测试 packet 上出现过的 relayer 地址
+export interface DiscoveredRelayer {
+  address: string
+  roles: ('recv' | 'ack' | 'timeout' | 'redundant')[]
+  packets: number
+  firstSeen: Date
+  lastSeen: Date
+  memoVariants: string[]
+  // 已在 VALIDATORS_CONFIG 中声明该地址的 validator
+  declaredBy?: string
+  verified: boolean
+}
+
+export interface VerifiedBinding {
+  moniker: string
+  operatorAddress: string
+  address: string
+  verified: boolean
+  method?: BindingVerificationMethod
+  error?: string
+  verifiedAt: string
 }
 
 export interface RelayerTestConfig extends TestConfig {
@@ -105,18 +381,139 @@ export interface RelayerTestConfig extends TestConfig {
     receiverChainReceiveAddress: string
     batchSize: number
     testInterval: number
+    probeSlotSeconds: number // 可用性统计的探测时隙长度
+    raceScanBlocks: number // recv 高度前后扫描竞争 relay 的区块数，0 为关闭
+    // 测试钱包每天（UTC）手续费上限，超出后不再发送测试交易
+    dailyBudget?: { amount: string; denom: string }
+    timeoutTestCount: number // 每轮超时场景发送的 packet 数，0 为关闭
+    timeoutTestBlocks: number // 超时场景的 packet 在目标链当前高度后多少个区块超时
+    bidirectional: boolean // 为每条路径追加反向路径
+    load: LoadProfile // load-test 命令的默认负载
+    multiMsgBatchSize: number // 多消息批量场景每笔交易中的 MsgTransfer 数，小于 2 为关闭
+    multiMsgBatchCount: number // 每轮发送的多消息批量交易数
     stabilityTestCount?: number
     stabilityTestInterval?: number
+    useWebSocket: boolean
   }
+  incentive: IncentiveScoringConfig
+  paths: IBCPathConfig[]
   validators: ValidatorInfo[]
 }
 
+// 多消息批量：一笔交易中的多个 MsgTransfer 被 relay 的方式
+// together: 在同一笔 recv 交易中接收；in-order: 分多笔交易但按 sequence 顺序接收；
+// out-of-order: 后发的 packet 先被接收；partial: 部分 packet 未被接收
+export type BatchRelayPattern =
+  | 'together'
+  | 'in-order'
+  | 'out-of-order'
+  | 'partial'
+
+export interface MultiMsgBatch {
+  txHash: string // 发送交易
+  sendHeight?: number
+  sequences: number[]
+  received: number
+  recvTxs: number // 接收这些 packet 的不同 recv 交易数
+  pattern: BatchRelayPattern
+  relayers: string[]
+  recvSpreadMs?: number // 第一个与最后一个 packet 被接收的时间差
+}
+
+// relayer 在多消息批量中的表现，只看它接收的那部分 packet
+export interface BatchRelayerStats {
+  relayer: string
+  batches: number
+  packets: number
+  patterns: Record<BatchRelayPattern, number>
+}
+
+// 开环负载的速率曲线：constant 固定速率，ramp 线性增长，step 阶梯增长，burst 周期性突发
+export type LoadProfileMode = 'constant' | 'ramp' | 'step' | 'burst'
+
+export interface LoadProfile {
+  mode: LoadProfileMode
+  rate: number // packet/秒：constant 的速率，ramp / step 的起始速率，burst 的基础速率
+  peakRate: number // ramp / step 的最终速率，burst 的峰值速率
+  durationSeconds: number
+  stepSeconds: number // step 每级的时长，burst 的周期
+  burstSeconds: number // burst 每个周期开头以峰值速率发送的时长
+  sampleSeconds: number // 吞吐量和积压的统计区间
+}
+
+// 一个统计区间内的提交速率、relay 速率和区间结束时的积压
+export interface LoadSample {
+  time: string
+  offeredRate: number // 实际提交的 packet/秒
+  relayedRate: number // 目标链接收的 packet/秒
+  backlog: number // 已提交但尚未被接收的 packet 数
+}
+
+export interface RelayerLoadStats {
+  relayer: string
+  relayed: number
+  peakRelayedRate: number // 单个区间内最高的 relay 速率
+  baselineLatency?: number // 最低提交速率区间的中位数 send → recv 延迟
+  // 中位数延迟超过 baseline 的 LOAD_SATURATION_FACTOR 倍时的最低提交速率，未饱和时为空
+  saturationRate?: number
+}
+
+export interface LoadTestSummary {
+  pathId: string
+  profile: LoadProfile
+  startTime: string
+  endTime: string
+  submitted: number
+  sendFailed: number
+  relayed: number
+  timedOut: number
+  pending: number
+  maxSendLagMs: number // 实际提交相对计划时间的最大延后，过大说明发送端跟不上目标速率
+  relayedPerSecond: number // 第一个 packet 提交到最后一个 packet 被接收的平均速率
+  samples: LoadSample[]
+  relayers: RelayerLoadStats[]
+}
+
+// packet 超时方式：height 只设超时高度，timestamp 只设超时时间，both 两者都设
+export type TimeoutPolicyMode = 'height' | 'timestamp' | 'both'
+
+export interface TimeoutPolicy {
+  mode: TimeoutPolicyMode
+  heightOffset: number // 超时高度 = 目标链当前高度 + heightOffset
+  timestampSeconds: number // 超时时间 = 发送时间 + timestampSeconds
+}
+
+// 一条被测试的IBC路径：源链上的 port/channel 到目标链的转账参数
+export interface IBCPathConfig {
+  id: string
+  source: ChainConfig
+  destination: ChainConfig
+  portId: string
+  channelId: string
+  connectionId?: string
+  receiver: string
+  denom: string
+  amount: string
+  timeout: TimeoutPolicy
+  // 反向路径所基于的正向路径 ID：把正向转账收到的 voucher 转回源链
+  // portId、channelId、denom、receiver 在连接链后解析
+  reverseOf?: string
+}
+
 export interface IBCTransferResult {
   txHash: string
   success: boolean
   sequence?: number
   error?: string
   timestamp: Date
+  height?: number
+  timeoutHeight?: number
+  timeoutTimestampMs?: number
+  cost?: TxCost
+  receiverBalanceBefore?: string // 发送前接收地址的预期 denom 余额
+  senderBalanceBefore?: string // 发送前测试钱包的转账 denom 余额
+  sender?: string // 发送地址，使用账户池时为池中的账户
+  scenario?: RelayScenario
 }
 
 export interface PacketAcknowledgement {
@@ -126,8 +523,47 @@ export interface PacketAcknowledgement {
   relayerAddress?: string
   memo?: string
   targetTxHash?: string
+  outcome?: RelayOutcome
+  ackError?: string
+  lifecycle?: PacketLifecycle
+  relayRace?: RelayRace
+  receipt?: ReceiptVerification
+  refund?: RefundVerification
+}
+
+// 指标聚合范围：时间区间或源链高度区间（epoch），均为闭区间
+export interface MetricsWindow {
+  label: string
+  from?: Date
+  to?: Date
+  fromHeight?: number
+  toHeight?: number
 }
 
+export type WindowUnit = 'hourly' | 'daily' | 'weekly'
+
+// 趋势的分桶方式：按时间或每 N 个区块
+export type WindowBucket = { unit: WindowUnit } | { epochBlocks: number }
+
+export interface MetricsTrendPoint {
+  window: MetricsWindow
+  totalTests: number
+  successRate: number
+  averageLatency: number
+  // 截至本桶的最近若干桶合计成功率
+  rollingSuccessRate: number
+  validators: {
+    moniker: string
+    totalTests: number
+    successRate: number
+  }[]
+}
+
+export type RelayerAttribution =
+  | 'verified-signer'
+  | 'memo'
+  | 'unattributed-signer'
+
 export interface RelayerPerformanceMetrics {
   validatorMoniker: string
   totalTests: number
@@ -140,6 +576,108 @@ export interface RelayerPerformanceMetrics {
   uptimeHours: number
   continuousFailures: number
   lastActiveTime?: Date
+  outcomeCounts: Record<RelayOutcome, number>
+  averageAckLatency?: number
+  averageRoundTripLatency?: number
+  latencyDistribution?: LatencyDistribution // 成功 relay 的接收延迟
+  software?: RelayerSoftwareMix
+  cost?: RelayerCostEfficiency
+  receiptMismatches?: number // 成功 ack 但到账金额或 denom 不符的 packet 数
+  // verified-signer: 按已验证的 relayer 地址归属；memo: 未配置绑定时按 memo 归属
+  // unattributed-signer: 无法归属到 validator，按 signer 地址单独统计
+  attribution?: RelayerAttribution
+  relayerAddresses?: string[]
+  availability?: RelayerAvailability
+}
+
+/**
+ * 按探测时隙统计的可用性：有测试交易的时隙里该 relayer 是否成功 relay 过
+ * 连续未 relay 的时隙视为一次中断，直到下一次成功 relay 恢复
+ */
+export interface RelayerAvailability {
+  slotSeconds: number
+  eligibleSlots: number
+  relayedSlots: number
+  participationRate: number // 0-100
+  outages: number
+  longestOutageMs: number
+  // 已恢复中断的平均持续时间
+  mttrMs?: number
+  // 平均无故障时间：有 relay 的时长 / 中断次数
+  mtbfMs?: number
+  // 统计结束时仍处于中断中
+  inOutage: boolean
+}
+
+// memo 中的 moniker 与实际 signer 不一致等身份异常
+export type IdentityAnomalyType =
+  | 'moniker-mismatch' // signer 已绑定到其他 validator
+  | 'unknown-moniker' // memo 中的 moniker 不在 validator 列表中
+  | 'signer-multiple-monikers' // 同一 signer 使用多个 moniker
+  | 'moniker-multiple-signers' // 同一 moniker 下出现未绑定的多个 signer
+
+export interface IdentityAnomaly {
+  type: IdentityAnomalyType
+  moniker?: string
+  signer?: string
+  // 涉及的其他 moniker / signer
+  related: string[]
+  // 异常计入的 validator，与日志的归属方式一致（见 detectIdentityAnomalies）
+  owner?: string
+  count: number
+  packetSequences: number[]
+  firstSeen: Date
+  lastSeen: Date
+}
+
+// 激励评分模型，权重会按总和归一化
+export interface IncentiveScoringConfig {
+  weights: {
+    successShare: number // 成功 relay 数占全部成功 relay 的比例
+    latency: number // 延迟分位数得分
+    availability: number // 有成功 relay 的时间窗口占比
+  }
+  latencyPercentile: number
+  latencyTargetMs: number // 不高于该值得满分
+  latencyMaxMs: number // 不低于该值得零分
+  availabilityWindowMinutes: number
+  penalties: {
+    identityAnomaly: number // 每条身份异常扣除的比例
+    consecutiveFailure: number // 每次连续失败扣除的比例
+    maxPenalty: number
+  }
+  minSuccessfulRelays: number // 少于该数量不参与分配
+}
+
+export interface IncentiveEpoch {
+  label?: string
+  from?: Date
+  to?: Date
+}
+
+export interface IncentiveScore {
+  validatorMoniker: string
+  successfulRelays: number
+  totalRelays: number
+  successShare: number
+  latencyPercentileMs?: number
+  latencyScore: number
+  availability: number
+  identityAnomalies: number
+  consecutiveFailures: number
+  penalty: number
+  score: number
+  eligible: boolean
+  rewardShare: number
+  reward: string // 预算 denom 的最小单位整数
+}
+
+export interface IncentiveAllocation {
+  epoch: IncentiveEpoch
+  budget: { amount: string; denom: string }
+  config: IncentiveScoringConfig
+  scores: IncentiveScore[]
+  generatedAt: Date
 }
 
 export interface GasConfig {
@@ -1,7 +1,40 @@
-import { StargateClient } from '@cosmjs/stargate'
+import {
+  StargateClient,
+  QueryClient,
+  IbcExtension,
+  IndexedTx,
+  setupIbcExtension,
+} from '@cosmjs/stargate'
 import { Tendermint34Client } from '@cosmjs/tendermint-rpc'
-import { toHex, fromBase64 } from '@cosmjs/encoding'
+import { decodeTxRaw } from '@cosmjs/proto-signing'
+import { toHex, toUtf8 } from '@cosmjs/encoding'
+import { sha256 } from '@cosmjs/crypto'
+import {
+  MsgRecvPacket,
+  MsgAcknowledgement,
+  MsgTimeout,
+} from 'cosmjs-types/ibc/core/channel/v1/tx'
 import { logger } from './logger'
+import { RelayerRegistry } from './RelayerRegistry'
+import {
+  PacketLifecycle,
+  PacketLifecycleLeg,
+  ReceiptVerification,
+  RefundVerification,
+  RelayAttempt,
+  RelayRace,
+  RelayerFingerprint,
+  TxCost,
+} from '../types'
+import {
+  DecodedAcknowledgement,
+  PacketEvent,
+  extractAcknowledgement,
+  getAttribute,
+} from './packetOutcome'
+import { fingerprintRelayTx } from './relayerFingerprint'
+import { getFungibleTokenPackets, getReceivedCoins } from './ics20'
+import { getTxCost } from './txCost'
 
 export interface PacketDetails {
   sequence: number
@@ -14,18 +47,89 @@ export interface PacketDetails {
   relayerAddress?: string
   targetTxHash?: string
   ackData?: string
+  acknowledgement?: DecodedAcknowledgement
+}
+
+// 源链上提交 MsgTimeout / MsgAcknowledgement 的交易
+export interface SourcePacketTx {
+  txHash: string
+  height: number
+  signer?: string
+  memo?: string
+  fingerprint?: RelayerFingerprint
+  cost?: TxCost
+}
+
+export interface ProofHeight {
+  revisionNumber: number
+  revisionHeight: number
+}
+
+// 源链上的 packet commitment，packet 被确认或超时后会被删除
+export interface PacketCommitmentResult {
+  sequence: number
+  exists: boolean
+  commitment?: string
+  proofHeight?: ProofHeight
+}
+
+// 目标链上的 packet receipt (unordered channel)
+export interface PacketReceiptResult {
+  sequence: number
+  received: boolean
+  proofHeight?: ProofHeight
+}
+
+// 目标链上写入的 acknowledgement commitment (sha256(ack bytes))
+export interface PacketAckResult {
+  sequence: number
+  exists: boolean
+  acknowledgementHash?: string
+  proofHeight?: ProofHeight
+}
+
+// 综合两条链上的状态得到的 packet 生命周期状态
+export interface PacketState {
+  sequence: number
+  sourcePort: string
+  sourceChannel: string
+  destinationPort: string
+  destinationChannel: string
+  commitmentExists: boolean
+  received: boolean
+  acknowledgementWritten: boolean
+  acknowledgementHash?: string
+  ackRelayed: boolean
 }
 
 export class IBCQueryHelper {
+  private sourceQueryClient: QueryClient & IbcExtension
+  private targetQueryClient: QueryClient & IbcExtension
+  private counterpartyCache = new Map<
+    string,
+    { portId: string; channelId: string }
+  >()
+
   constructor(
     private sourceClient: StargateClient,
     private targetClient: StargateClient,
     private sourceTmClient: Tendermint34Client,
-    private targetTmClient: Tendermint34Client
-  ) {}
+    private targetTmClient: Tendermint34Client,
+    private registry?: RelayerRegistry
+  ) {
+    this.sourceQueryClient = QueryClient.withExtensions(
+      sourceTmClient,
+      setupIbcExtension
+    )
+    this.targetQueryClient = QueryClient.withExtensions(
+      targetTmClient,
+      setupIbcExtension
+    )
+  }
 
   /**
    * 查询packet acknowledgement
+   * 以目标链上的 packet receipt 为准，再查找对应的接收交易识别relayer
    */
   async queryPacketAcknowledgement(
     sourcePort: string,
@@ -33,54 +137,40 @@ export class IBCQueryHelper {
     sequence: number
   ): Promise<PacketDetails> {
     try {
-      // 1. 查询源链上的 packet acknowledgement
-      const ackQuery = await this.sourceTmClient.abciQuery({
-        path: '/ibc.core.channel.v1.Query/PacketAcknowledgement',
-        data: this.encodePacketAckQuery(sourcePort, sourceChannel, sequence),
-      })
-
-      if (ackQuery.code !== 0) {
-        return {
-          sequence,
-          sourcePort,
-          sourceChannel,
-          destinationPort: 'transfer',
-          destinationChannel: this.getCounterpartyChannel(sourceChannel),
-          acknowledged: false,
-        }
-      }
-
-      // 2. 解析 acknowledgement 数据
-      const ackData = this.decodeAcknowledgement(ackQuery.value)
-
-      if (!ackData) {
-        return {
-          sequence,
-          sourcePort,
-          sourceChannel,
-          destinationPort: 'transfer',
-          destinationChannel: this.getCounterpartyChannel(sourceChannel),
-          acknowledged: false,
-        }
-      }
-
-      // 3. 在目标链上查找对应的接收交易
-      const targetTxInfo = await this.findTargetChainTransaction(
+      const state = await this.queryPacketState(
+        sourcePort,
         sourceChannel,
         sequence
       )
 
-      return {
+      const details: PacketDetails = {
         sequence,
         sourcePort,
         sourceChannel,
-        destinationPort: 'transfer',
-        destinationChannel: this.getCounterpartyChannel(sourceChannel),
-        acknowledged: true,
+        destinationPort: state.destinationPort,
+        destinationChannel: state.destinationChannel,
+        acknowledged: state.received,
+        ackData: state.acknowledgementHash,
+      }
+
+      if (!state.received) {
+        return details
+      }
+
+      // 在目标链上查找对应的接收交易
+      const targetTx = await this.findRecvPacketTx(sourceChannel, sequence)
+
+      return {
+        ...details,
         ackTime: new Date(),
-        relayerAddress: targetTxInfo?.relayerAddress,
-        targetTxHash: targetTxInfo?.txHash,
-        ackData: ackData,
+        relayerAddress: targetTx
+          ? this.extractRelayerAddress(targetTx) || undefined
+          : undefined,
+        targetTxHash: targetTx?.hash,
+        acknowledgement: targetTx
+          ? extractAcknowledgement(targetTx.events, sourceChannel, sequence) ||
+            undefined
+          : undefined,
       }
     } catch (error) {
       logger.error('Error querying packet acknowledgement:', error)
@@ -89,71 +179,581 @@ export class IBCQueryHelper {
         sourcePort,
         sourceChannel,
         destinationPort: 'transfer',
-        destinationChannel: this.getCounterpartyChannel(sourceChannel),
+        destinationChannel: '',
         acknowledged: false,
       }
     }
   }
 
   /**
-   * 在目标链上查找接收交易，并识别relayer地址
+   * 同时查询源链和目标链，得到packet当前所处的生命周期阶段
+   */
+  async queryPacketState(
+    sourcePort: string,
+    sourceChannel: string,
+    sequence: number
+  ): Promise<PacketState> {
+    const counterparty = await this.getCounterparty(sourcePort, sourceChannel)
+
+    const [commitment, receipt, ack] = await Promise.all([
+      this.queryPacketCommitment(sourcePort, sourceChannel, sequence),
+      this.queryPacketReceipt(sourcePort, sourceChannel, sequence),
+      this.queryDestinationAcknowledgement(sourcePort, sourceChannel, sequence),
+    ])
+
+    return {
+      sequence,
+      sourcePort,
+      sourceChannel,
+      destinationPort: counterparty.portId,
+      destinationChannel: counterparty.channelId,
+      commitmentExists: commitment.exists,
+      received: receipt.received,
+      acknowledgementWritten: ack.exists,
+      acknowledgementHash: ack.acknowledgementHash,
+      // 目标链已收到且源链commitment已删除，说明ack已被relay回源链
+      ackRelayed: receipt.received && !commitment.exists,
+    }
+  }
+
+  /**
+   * 源链: /ibc.core.channel.v1.Query/PacketCommitment
+   */
+  async queryPacketCommitment(
+    sourcePort: string,
+    sourceChannel: string,
+    sequence: number
+  ): Promise<PacketCommitmentResult> {
+    const response = await this.queryOrNotFound(() =>
+      this.sourceQueryClient.ibc.channel.packetCommitment(
+        sourcePort,
+        sourceChannel,
+        sequence
+      )
+    )
+
+    if (!response || response.commitment.length === 0) {
+      return { sequence, exists: false }
+    }
+
+    return {
+      sequence,
+      exists: true,
+      commitment: toHex(response.commitment),
+      proofHeight: this.toProofHeight(response.proofHeight),
+    }
+  }
+
+  /**
+   * 目标链: /ibc.core.channel.v1.Query/PacketReceipt
+   */
+  async queryPacketReceipt(
+    sourcePort: string,
+    sourceChannel: string,
+    sequence: number
+  ): Promise<PacketReceiptResult> {
+    const counterparty = await this.getCounterparty(sourcePort, sourceChannel)
+    const response = await this.queryOrNotFound(() =>
+      this.targetQueryClient.ibc.channel.packetReceipt(
+        counterparty.portId,
+        counterparty.channelId,
+        sequence
+      )
+    )
+
+    return {
+      sequence,
+      received: response?.received ?? false,
+      proofHeight: response
+        ? this.toProofHeight(response.proofHeight)
+        : undefined,
+    }
+  }
+
+  /**
+   * 目标链: /ibc.core.channel.v1.Query/PacketAcknowledgement
+   * acknowledgement 由接收方写入，因此在目标链上查询
+   */
+  async queryDestinationAcknowledgement(
+    sourcePort: string,
+    sourceChannel: string,
+    sequence: number
+  ): Promise<PacketAckResult> {
+    const counterparty = await this.getCounterparty(sourcePort, sourceChannel)
+    const response = await this.queryOrNotFound(() =>
+      this.targetQueryClient.ibc.channel.packetAcknowledgement(
+        counterparty.portId,
+        counterparty.channelId,
+        sequence
+      )
+    )
+
+    if (!response || response.acknowledgement.length === 0) {
+      return { sequence, exists: false }
+    }
+
+    return {
+      sequence,
+      exists: true,
+      acknowledgementHash: toHex(response.acknowledgement),
+      proofHeight: this.toProofHeight(response.proofHeight),
+    }
+  }
+
+  /**
+   * 目标链: /ibc.core.channel.v1.Query/UnreceivedPackets
+   * 返回给定sequence中目标链尚未收到的部分
+   */
+  async queryUnreceivedPackets(
+    sourcePort: string,
+    sourceChannel: string,
+    sequences: number[]
+  ): Promise<number[]> {
+    const counterparty = await this.getCounterparty(sourcePort, sourceChannel)
+    const response = await this.targetQueryClient.ibc.channel.unreceivedPackets(
+      counterparty.portId,
+      counterparty.channelId,
+      sequences
+    )
+    return response.sequences.map((seq) => Number(seq))
+  }
+
+  /**
+   * 源链: /ibc.core.channel.v1.Query/UnreceivedAcks
+   * 返回给定sequence中ack尚未relay回源链的部分
+   */
+  async queryUnreceivedAcks(
+    sourcePort: string,
+    sourceChannel: string,
+    sequences: number[]
+  ): Promise<number[]> {
+    const response = await this.sourceQueryClient.ibc.channel.unreceivedAcks(
+      sourcePort,
+      sourceChannel,
+      sequences
+    )
+    return response.sequences.map((seq) => Number(seq))
+  }
+
+  /**
+   * 目标链: /ibc.core.channel.v1.Query/NextSequenceReceive
+   * 仅对 ordered channel 有意义
+   */
+  async queryNextSequenceReceive(
+    sourcePort: string,
+    sourceChannel: string
+  ): Promise<number> {
+    const counterparty = await this.getCounterparty(sourcePort, sourceChannel)
+    const response =
+      await this.targetQueryClient.ibc.channel.nextSequenceReceive(
+        counterparty.portId,
+        counterparty.channelId
+      )
+    return Number(response.nextSequenceReceive)
+  }
+
+  /**
+   * 获取对应的目标通道（查询源链上的channel定义）
+   */
+  async getCounterparty(
+    sourcePort: string,
+    sourceChannel: string
+  ): Promise<{ portId: string; channelId: string }> {
+    const key = `${sourcePort}/${sourceChannel}`
+    const cached = this.counterpartyCache.get(key)
+    if (cached) {
+      return cached
+    }
+
+    const response = await this.sourceQueryClient.ibc.channel.channel(
+      sourcePort,
+      sourceChannel
+    )
+    const counterparty = response.channel?.counterparty
+    if (!counterparty?.channelId) {
+      throw new Error(`Channel ${key} has no counterparty on source chain`)
+    }
+
+    const result = {
+      portId: counterparty.portId,
+      channelId: counterparty.channelId,
+    }
+    this.counterpartyCache.set(key, result)
+    return result
+  }
+
+  /**
+   * 源链上 channel 所在的 connection
+   */
+  async getChannelConnection(
+    sourcePort: string,
+    sourceChannel: string
+  ): Promise<string | undefined> {
+    const response = await this.sourceQueryClient.ibc.channel.channel(
+      sourcePort,
+      sourceChannel
+    )
+    return response.channel?.connectionHops[0]
+  }
+
+  /**
+   * 源链 denom 的完整 trace 路径，ibc/<hash> 通过 denom trace 还原
+   */
+  async getFullDenomPath(denom: string): Promise<string> {
+    if (!denom.startsWith('ibc/')) {
+      return denom
+    }
+
+    const { denomTrace } = await this.sourceQueryClient.ibc.transfer.denomTrace(
+      denom.slice('ibc/'.length)
+    )
+    if (!denomTrace) {
+      throw new Error(`Denom trace of ${denom} not found on source chain`)
+    }
+    return denomTrace.path
+      ? `${denomTrace.path}/${denomTrace.baseDenom}`
+      : denomTrace.baseDenom
+  }
+
+  /**
+   * 按 recv 交易事件核对接收地址实际到账的代币
+   * 交易中没有该接收地址的转账事件时返回 undefined，由调用方改用余额核对
+   */
+  async verifyReceipt(
+    recvTxHash: string,
+    expected: {
+      receiver: string
+      packetDenom: string
+      denom: string
+      amount: string
+    }
+  ): Promise<ReceiptVerification | undefined> {
+    const tx = await this.targetClient.getTx(recvTxHash)
+    if (!tx) {
+      return undefined
+    }
+
+    const packets = getFungibleTokenPackets(tx.events).filter(
+      (packet) => packet.receiver === expected.receiver
+    )
+    const received = getReceivedCoins(tx.events, expected.receiver)
+    if (packets.length === 0 && Object.keys(received).length === 0) {
+      return undefined
+    }
+
+    const result: ReceiptVerification = {
+      receiver: expected.receiver,
+      expectedDenom: expected.denom,
+      expectedAmount: expected.amount,
+      method: 'event',
+      verified: false,
+    }
+
+    const packet = packets.find(
+      (p) => p.denom === expected.packetDenom && p.amount === expected.amount
+    )
+    if (!packet) {
+      const other = packets[0]
+      result.error = other
+        ? `Packet data mismatch: ${other.amount}${other.denom}, expected ${expected.amount}${expected.packetDenom}`
+        : 'No fungible_token_packet event for receiver'
+      return result
+    }
+    if (!packet.success) {
+      result.error = 'Transfer module reported failure on destination'
+      return result
+    }
+
+    // 批量 relay 时同一接收地址可能收到多笔，只要求覆盖本次金额
+    const credited = received[expected.denom]
+    if (!credited || BigInt(credited) < BigInt(expected.amount)) {
+      const [denom, amount] = Object.entries(received)[0] || []
+      result.receivedDenom = credited ? expected.denom : denom
+      result.receivedAmount = credited || amount
+      result.error = `Expected ${expected.amount}${expected.denom}, received ${
+        result.receivedAmount
+          ? result.receivedAmount + result.receivedDenom
+          : 'nothing'
+      }`
+      return result
+    }
+
+    result.receivedDenom = expected.denom
+    result.receivedAmount = expected.amount
+    result.verified = true
+    return result
+  }
+
+  /**
+   * 按源链上 MsgTimeout / 错误 ack 的 MsgAcknowledgement 交易事件核对退款
+   * 交易查不到时返回 undefined，由调用方改用余额核对
    */
-  private async findTargetChainTransaction(
+  async verifyRefund(
+    txHash: string,
+    expected: { sender: string; denom: string; amount: string }
+  ): Promise<RefundVerification | undefined> {
+    const tx = await this.sourceClient.getTx(txHash)
+    if (!tx) {
+      return undefined
+    }
+
+    const refunded = getReceivedCoins(tx.events, expected.sender)[
+      expected.denom
+    ]
+    const result: RefundVerification = {
+      sender: expected.sender,
+      denom: expected.denom,
+      expectedAmount: expected.amount,
+      refundedAmount: refunded,
+      txHash,
+      method: 'event',
+      refunded: !!refunded && BigInt(refunded) >= BigInt(expected.amount),
+    }
+    if (!result.refunded) {
+      result.error = `Expected refund of ${expected.amount}${
+        expected.denom
+      }, received ${refunded ? refunded + expected.denom : 'nothing'}`
+    }
+    return result
+  }
+
+  /**
+   * 在目标链上通过 tx_search 查找接收交易（不限制高度范围）
+   */
+  async findRecvPacketTx(
     sourceChannel: string,
     sequence: number
-  ): Promise<{ txHash: string; relayerAddress: string } | null> {
+  ): Promise<IndexedTx | null> {
     try {
-      // 获取最近的区块
-      const latestHeight = await this.targetClient.getHeight()
-      const searchFromHeight = Math.max(1, latestHeight - 1000) // 搜索最近1000个区块
-
-      // 搜索包含IBC接收事件的交易
-      for (let height = latestHeight; height >= searchFromHeight; height--) {
-        const block = await this.targetTmClient.block(height)
-
-        for (const tx of block.block.txs) {
-          const txHash = toHex(tx).toUpperCase()
-
-          try {
-            // 查询交易详情
-            const txResult = await this.targetClient.getTx(txHash)
-            if (!txResult) continue
-
-            // 检查是否包含IBC接收事件
-            const ibcReceiveEvent = this.findIBCReceiveEvent(
-              txResult.events,
-              sourceChannel,
-              sequence
-            )
-
-            if (ibcReceiveEvent) {
-              // 从交易中提取relayer地址（通常是交易的第一个签名者）
-              const relayerAddress = this.extractRelayerAddress(txResult)
-
-              if (relayerAddress) {
-                logger.info(
-                  `Found relayer transaction: ${txHash} by ${relayerAddress}`
-                )
-                return {
-                  txHash,
-                  relayerAddress,
-                }
-              }
-            }
-          } catch (error) {
-            // 跳过解析失败的交易
-            continue
-          }
-        }
+      const txs = await this.targetClient.searchTx([
+        { key: 'recv_packet.packet_src_channel', value: sourceChannel },
+        { key: 'recv_packet.packet_sequence', value: sequence.toString() },
+      ])
+
+      // 只取执行成功的交易，失败的是重复relay
+      const matched = txs
+        .filter((tx) => tx.code === 0)
+        .filter((tx) =>
+          this.findIBCReceiveEvent(tx.events, sourceChannel, sequence)
+        )
+        .sort((a, b) => a.height - b.height)
+
+      if (matched.length > 0) {
+        logger.info(
+          `Found relayer transaction: ${matched[0].hash} at height ${matched[0].height}`
+        )
       }
 
-      return null
+      return matched[0] || null
     } catch (error) {
       logger.error('Error finding target chain transaction:', error)
       return null
     }
   }
 
+  /**
+   * 扫描 recv 高度前后的目标链区块，找出同一 packet 的全部 MsgRecvPacket
+   * 重复 relay 的交易执行失败，不会产生 recv_packet 事件，tx_search 查不到
+   */
+  async findRelayRace(
+    sourceChannel: string,
+    sequence: number,
+    recvHeight: number,
+    blockWindow: number
+  ): Promise<RelayRace> {
+    const fromHeight = Math.max(1, recvHeight - blockWindow)
+    const toHeight = recvHeight + blockWindow
+    const latestHeight = await this.targetClient.getHeight()
+    const attempts: RelayAttempt[] = []
+
+    for (
+      let height = fromHeight;
+      height <= Math.min(toHeight, latestHeight);
+      height++
+    ) {
+      const block = await this.targetClient.getBlock(height)
+
+      for (const txBytes of block.txs) {
+        const recvCount = countMatchingRecvPackets(
+          txBytes,
+          sourceChannel,
+          sequence
+        )
+        if (recvCount === 0) continue
+
+        const tx = await this.targetClient.getTx(
+          toHex(sha256(txBytes)).toUpperCase()
+        )
+        if (tx) {
+          attempts.push(this.toRelayAttempt(tx, sourceChannel, sequence))
+        }
+      }
+    }
+
+    attempts.sort((a, b) => a.height - b.height || a.txIndex - b.txIndex)
+    return { fromHeight, toHeight, attempts }
+  }
+
+  private toRelayAttempt(
+    tx: IndexedTx,
+    sourceChannel: string,
+    sequence: number
+  ): RelayAttempt {
+    const decoded = decodeTxRaw(tx.tx)
+    const won =
+      tx.code === 0 &&
+      !!this.findIBCReceiveEvent(tx.events, sourceChannel, sequence)
+    const fingerprint = fingerprintRelayTx(tx.tx)
+    const gasUsed = Number(tx.gasUsed)
+    const recvMessages = decoded.body.messages.filter(
+      (msg) => msg.typeUrl === '/ibc.core.channel.v1.MsgRecvPacket'
+    ).length
+
+    return {
+      txHash: tx.hash,
+      height: tx.height,
+      txIndex: tx.txIndex,
+      signer: this.extractRelayerAddress(tx) || undefined,
+      memo: decoded.body.memo || undefined,
+      code: tx.code,
+      gasUsed,
+      gasWanted: Number(tx.gasWanted),
+      fee: fingerprint?.fee,
+      fingerprint,
+      won,
+      wastedGas: won
+        ? 0
+        : tx.code !== 0
+        ? gasUsed
+        : Math.round(gasUsed / Math.max(1, recvMessages)),
+    }
+  }
+
+  /**
+   * 按两条链的区块时间追踪 packet 生命周期，并记录每一步的 relayer
+   * send(源链) → MsgRecvPacket(目标链) → MsgAcknowledgement / MsgTimeout(源链)
+   */
+  async tracePacketLifecycle(
+    sendTxHash: string,
+    sendHeight: number,
+    sourceChannel: string,
+    sequence: number
+  ): Promise<PacketLifecycle> {
+    const lifecycle: PacketLifecycle = {
+      send: {
+        txHash: sendTxHash,
+        height: sendHeight,
+        time: await this.getBlockTime(this.sourceClient, sendHeight),
+      },
+    }
+
+    const recvTx = await this.findRecvPacketTx(sourceChannel, sequence)
+    if (recvTx) {
+      lifecycle.recv = {
+        txHash: recvTx.hash,
+        height: recvTx.height,
+        time: await this.getBlockTime(this.targetClient, recvTx.height),
+        relayer: this.extractRelayerAddress(recvTx) || undefined,
+        memo: decodeTxRaw(recvTx.tx).body.memo || undefined,
+        fingerprint: fingerprintRelayTx(recvTx.tx),
+        cost: getTxCost(recvTx),
+      }
+      lifecycle.recvLatency = legDuration(lifecycle.send, lifecycle.recv)
+
+      const ackTx = await this.findAcknowledgePacketTx(sourceChannel, sequence)
+      if (ackTx) {
+        lifecycle.ack = await this.toSourceLeg(ackTx)
+        lifecycle.ackLatency = legDuration(lifecycle.recv, lifecycle.ack)
+        lifecycle.roundTripLatency = legDuration(lifecycle.send, lifecycle.ack)
+      }
+    } else {
+      const timeoutTx = await this.findTimeoutPacketTx(sourceChannel, sequence)
+      if (timeoutTx) {
+        lifecycle.timeout = await this.toSourceLeg(timeoutTx)
+        lifecycle.roundTripLatency = legDuration(
+          lifecycle.send,
+          lifecycle.timeout
+        )
+      }
+    }
+
+    return lifecycle
+  }
+
+  private async toSourceLeg(tx: SourcePacketTx): Promise<PacketLifecycleLeg> {
+    return {
+      txHash: tx.txHash,
+      height: tx.height,
+      time: await this.getBlockTime(this.sourceClient, tx.height),
+      relayer: tx.signer,
+      memo: tx.memo,
+      fingerprint: tx.fingerprint,
+      cost: tx.cost,
+    }
+  }
+
+  private async getBlockTime(
+    client: StargateClient,
+    height: number
+  ): Promise<string> {
+    const block = await client.getBlock(height)
+    return new Date(block.header.time).toISOString()
+  }
+
+  /**
+   * 在源链上查找提交 MsgTimeout 的交易（timeout_packet 事件）
+   */
+  async findTimeoutPacketTx(
+    sourceChannel: string,
+    sequence: number
+  ): Promise<SourcePacketTx | null> {
+    return this.findSourcePacketTx('timeout_packet', sourceChannel, sequence)
+  }
+
+  /**
+   * 在源链上查找把ack relay回来的 MsgAcknowledgement 交易（acknowledge_packet 事件）
+   */
+  async findAcknowledgePacketTx(
+    sourceChannel: string,
+    sequence: number
+  ): Promise<SourcePacketTx | null> {
+    return this.findSourcePacketTx(
+      'acknowledge_packet',
+      sourceChannel,
+      sequence
+    )
+  }
+
+  private async findSourcePacketTx(
+    eventType: string,
+    sourceChannel: string,
+    sequence: number
+  ): Promise<SourcePacketTx | null> {
+    try {
+      const txs = await this.sourceClient.searchTx([
+        { key: `${eventType}.packet_src_channel`, value: sourceChannel },
+        { key: `${eventType}.packet_sequence`, value: sequence.toString() },
+      ])
+
+      const tx = txs
+        .filter((t) => t.code === 0)
+        .sort((a, b) => a.height - b.height)[0]
+      if (!tx) return null
+
+      return {
+        txHash: tx.hash,
+        height: tx.height,
+        signer: this.extractRelayerAddress(tx) || undefined,
+        memo: decodeTxRaw(tx.tx).body.memo || undefined,
+        fingerprint: fingerprintRelayTx(tx.tx),
+        cost: getTxCost(tx),
+      }
+    } catch (error) {
+      logger.error(`Error finding ${eventType} transaction:`, error)
+      return null
+    }
+  }
+
   /**
    * 查找IBC接收事件
    */
@@ -189,40 +789,8 @@ export class IBCQueryHelper {
   /**
    * 从交易中提取relayer地址
    */
-  private extractRelayerAddress(txResult: any): string | null {
-    try {
-      // 方法1: 从交易的签名者中获取
-      if (txResult.tx?.authInfo?.signerInfos?.[0]) {
-        // 这里需要从签名信息中提取地址，具体实现取决于交易结构
-        // 通常relayer是交易的第一个签名者
-      }
-
-      // 方法2: 从交易事件中提取
-      const msgEvents = txResult.events || []
-      for (const event of msgEvents) {
-        if (event.type === 'message') {
-          const senderAttr = event.attributes?.find(
-            (attr: any) => attr.key === 'sender'
-          )
-          if (senderAttr) {
-            return senderAttr.value
-          }
-        }
-      }
-
-      // 方法3: 从交易消息中提取
-      if (txResult.tx?.body?.messages?.[0]) {
-        const firstMsg = txResult.tx.body.messages[0]
-        if (firstMsg.typeUrl === '/ibc.core.channel.v1.MsgRecvPacket') {
-          return firstMsg.value?.signer || null
-        }
-      }
-
-      return null
-    } catch (error) {
-      logger.error('Error extracting relayer address:', error)
-      return null
-    }
+  private extractRelayerAddress(tx: IndexedTx): string | null {
+    return extractPacketSigner(tx.tx, tx.events)
   }
 
   /**
@@ -250,66 +818,128 @@ export class IBCQueryHelper {
    * 根据moniker获取relayer地址
    */
   private getRelayerAddressByMoniker(moniker: string): string | null {
-    // 这里应该查询验证器信息或使用配置的映射
-    // 暂时返回null，需要根据实际情况实现
-    return null
+    // 只返回已验证绑定的地址，memo 本身不可信
+    return this.registry?.getVerifiedAddresses(moniker)[0] || null
   }
 
   /**
-   * 编码packet acknowledgement查询参数
+   * 验证relayer地址是否属于指定的validator
    */
-  private encodePacketAckQuery(
-    port: string,
-    channel: string,
-    sequence: number
-  ): Uint8Array {
-    // 这里需要根据protobuf定义编码查询参数
-    // 简化实现，实际需要使用正确的protobuf编码
-    const queryData = {
-      port_id: port,
-      channel_id: channel,
-      sequence: sequence,
+  async verifyRelayerOwnership(
+    relayerAddress: string,
+    validatorOperatorAddress: string
+  ): Promise<boolean> {
+    try {
+      return !!this.registry?.isVerified(
+        relayerAddress,
+        validatorOperatorAddress
+      )
+    } catch (error) {
+      logger.error('Error verifying relayer ownership:', error)
+      return false
     }
-    return new TextEncoder().encode(JSON.stringify(queryData))
   }
 
   /**
-   * 解码acknowledgement数据
+   * ibc-go 对不存在的 commitment/ack 返回 NotFound 错误，这里转换为 null
    */
-  private decodeAcknowledgement(data: Uint8Array): string | null {
+  private async queryOrNotFound<T>(query: () => Promise<T>): Promise<T | null> {
     try {
-      // 这里需要根据实际的acknowledgement格式进行解码
-      const decoded = new TextDecoder().decode(data)
-      return decoded
+      return await query()
     } catch (error) {
-      return null
+      const message = error instanceof Error ? error.message : String(error)
+      if (/not found/i.test(message)) {
+        return null
+      }
+      throw error
     }
   }
 
-  /**
-   * 获取对应的目标通道
-   */
-  private getCounterpartyChannel(sourceChannel: string): string {
-    // 这里应该查询实际的channel映射
-    // 简化实现
-    return sourceChannel.replace('channel', 'channel')
+  private toProofHeight(height?: {
+    revisionNumber: bigint
+    revisionHeight: bigint
+  }): ProofHeight | undefined {
+    if (!height) return undefined
+    return {
+      revisionNumber: Number(height.revisionNumber),
+      revisionHeight: Number(height.revisionHeight),
+    }
   }
+}
 
-  /**
-   * 验证relayer地址是否属于指定的validator
-   */
-  async verifyRelayerOwnership(
-    relayerAddress: string,
-    validatorOperatorAddress: string
-  ): Promise<boolean> {
-    try {
-      // 这里需要实现验证逻辑
-      // 可能需要查询validator的委托信息或其他方式来验证
-      // 暂时返回true，需要根据实际情况实现
-      return true
-    } catch (error) {
-      logger.error('Error verifying relayer ownership:', error)
-      return false
+/**
+ * 交易中针对指定 packet 的 MsgRecvPacket 数量，无法解码的交易返回 0
+ */
+function countMatchingRecvPackets(
+  txBytes: Uint8Array,
+  sourceChannel: string,
+  sequence: number
+): number {
+  try {
+    return decodeTxRaw(txBytes)
+      .body.messages.filter(
+        (msg) => msg.typeUrl === '/ibc.core.channel.v1.MsgRecvPacket'
+      )
+      .map((msg) => MsgRecvPacket.decode(msg.value).packet)
+      .filter(
+        (packet) =>
+          packet?.sourceChannel === sourceChannel &&
+          packet.sequence === BigInt(sequence)
+      ).length
+  } catch (error) {
+    return 0
+  }
+}
+
+/**
+ * 提取 packet 交易（MsgRecvPacket / MsgAcknowledgement / MsgTimeout）的 relayer 地址
+ */
+export function extractPacketSigner(
+  txBytes: Uint8Array | undefined,
+  events: readonly PacketEvent[]
+): string | null {
+  try {
+    // 方法1: 从 packet 消息的 signer 中获取（最准确）
+    const messages = txBytes ? decodeTxRaw(txBytes).body.messages : []
+    for (const msg of messages) {
+      switch (msg.typeUrl) {
+        case '/ibc.core.channel.v1.MsgRecvPacket':
+          return MsgRecvPacket.decode(msg.value).signer
+        case '/ibc.core.channel.v1.MsgAcknowledgement':
+          return MsgAcknowledgement.decode(msg.value).signer
+        case '/ibc.core.channel.v1.MsgTimeout':
+          return MsgTimeout.decode(msg.value).signer
+      }
+    }
+
+    // 方法2: 从交易事件中提取
+    for (const event of events) {
+      if (event.type === 'message') {
+        const sender = getAttribute(event, 'sender')
+        if (sender) {
+          return sender
+        }
+      }
     }
+
+    return null
+  } catch (error) {
+    logger.error('Error extracting relayer address:', error)
+    return null
   }
 }
+
+function legDuration(from: PacketLifecycleLeg, to: PacketLifecycleLeg): number {
+  return new Date(to.time).getTime() - new Date(from.time).getTime()
+}
+
+/**
+ * 校验acknowledgement原文与链上的 ack commitment 是否一致
+ */
+export function verifyAcknowledgementHash(
+  ack: string | Uint8Array,
+  acknowledgementHash: string
+): boolean {
+  const bytes = typeof ack === 'string' ? toUtf8(ack) : ack
+  return toHex(sha256(bytes)) === acknowledgementHash.toLowerCase()
+}
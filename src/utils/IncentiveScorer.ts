@@ -0,0 +1,240 @@
+import { writeFileSync } from 'fs'
+import { join } from 'path'
+import {
+  IdentityAnomaly,
+  IncentiveAllocation,
+  IncentiveEpoch,
+  IncentiveScore,
+  IncentiveScoringConfig,
+  RelayerTestLog,
+} from '../types'
+import { logger } from './logger'
+import { pathScopedFileName } from './ibcPaths'
+import { getLogOutcome, isSuccessfulRelay } from './packetOutcome'
+import { percentile } from './statistics'
+
+export interface IncentiveInput {
+  // 按 validator 归属的日志
+  groups: Map<string, RelayerTestLog[]>
+  // 周期内的全部日志，用于确定有测试的时间窗口
+  logs: RelayerTestLog[]
+  anomalies: IdentityAnomaly[]
+}
+
+const CSV_COLUMNS: (keyof IncentiveScore)[] = [
+  'validatorMoniker',
+  'successfulRelays',
+  'totalRelays',
+  'successShare',
+  'latencyPercentileMs',
+  'latencyScore',
+  'availability',
+  'identityAnomalies',
+  'consecutiveFailures',
+  'penalty',
+  'score',
+  'eligible',
+  'rewardShare',
+  'reward',
+]
+
+/**
+ * 把 relayer 测试结果换算成评分和奖励分配
+ *   score = 加权(成功占比, 延迟得分, 可用性) × (1 - 惩罚)
+ * 奖励按 score 比例分配，整数舍入的余数给得分最高者
+ */
+export class IncentiveScorer {
+  constructor(private config: IncentiveScoringConfig) {}
+
+  allocate(
+    input: IncentiveInput,
+    epoch: IncentiveEpoch,
+    budget: { amount: string; denom: string }
+  ): IncentiveAllocation {
+    const totalSuccessful = Array.from(input.groups.values()).reduce(
+      (sum, logs) => sum + logs.filter(isSuccessfulRelay).length,
+      0
+    )
+    const windows = this.getTestedWindows(input.logs)
+
+    const scores = Array.from(input.groups.entries()).map(([moniker, logs]) =>
+      this.scoreValidator(
+        moniker,
+        logs,
+        totalSuccessful,
+        windows,
+        input.anomalies
+      )
+    )
+    this.splitBudget(scores, BigInt(budget.amount))
+
+    return {
+      epoch,
+      budget,
+      config: this.config,
+      scores: scores.sort((a, b) => b.score - a.score),
+      generatedAt: new Date(),
+    }
+  }
+
+  toCsv(allocation: IncentiveAllocation): string {
+    const rows = allocation.scores.map((score) =>
+      CSV_COLUMNS.map((column) => csvValue(score[column])).join(',')
+    )
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+  }
+
+  save(
+    allocation: IncentiveAllocation,
+    formats: ('json' | 'csv')[],
+    pathId?: string,
+    outputDir: string = process.cwd()
+  ): string[] {
+    const label = allocation.epoch.label ? `-${allocation.epoch.label}` : ''
+    const files: string[] = []
+
+    formats.forEach((format) => {
+      const file = join(
+        outputDir,
+        pathScopedFileName(`incentive-allocation${label}.${format}`, pathId)
+      )
+      writeFileSync(
+        file,
+        format === 'json'
+          ? JSON.stringify(allocation, null, 2)
+          : this.toCsv(allocation)
+      )
+      files.push(file)
+    })
+
+    logger.info(`Incentive allocation saved: ${files.join(', ')}`)
+    return files
+  }
+
+  private scoreValidator(
+    moniker: string,
+    logs: RelayerTestLog[],
+    totalSuccessful: number,
+    windows: Set<number>,
+    anomalies: IdentityAnomaly[]
+  ): IncentiveScore {
+    const successful = logs.filter(isSuccessfulRelay)
+    const successShare =
+      totalSuccessful > 0 ? successful.length / totalSuccessful : 0
+
+    const latencyPercentileMs = percentile(
+      successful
+        .filter((l) => getLogOutcome(l) === 'acked-success')
+        .map((l) => l.latency),
+      this.config.latencyPercentile
+    )
+    const latencyScore = this.scoreLatency(latencyPercentileMs)
+
+    const activeWindows = new Set(
+      successful.map((l) => this.windowOf(l.testTime))
+    )
+    const availability =
+      windows.size > 0
+        ? Array.from(activeWindows).filter((w) => windows.has(w)).length /
+          windows.size
+        : 0
+
+    const identityAnomalies = anomalies
+      .filter((a) => a.owner === moniker)
+      .reduce((sum, a) => sum + a.count, 0)
+    const consecutiveFailures = maxConsecutiveFailures(logs)
+    const { penalties, weights } = this.config
+    const penalty = Math.min(
+      penalties.maxPenalty,
+      identityAnomalies * penalties.identityAnomaly +
+        consecutiveFailures * penalties.consecutiveFailure
+    )
+
+    const totalWeight =
+      weights.successShare + weights.latency + weights.availability
+    const base =
+      totalWeight > 0
+        ? (weights.successShare * successShare +
+            weights.latency * latencyScore +
+            weights.availability * availability) /
+          totalWeight
+        : 0
+
+    return {
+      validatorMoniker: moniker,
+      successfulRelays: successful.length,
+      totalRelays: logs.length,
+      successShare,
+      latencyPercentileMs,
+      latencyScore,
+      availability,
+      identityAnomalies,
+      consecutiveFailures,
+      penalty,
+      score: Math.max(0, base * (1 - penalty)),
+      eligible: successful.length >= this.config.minSuccessfulRelays,
+      rewardShare: 0,
+      reward: '0',
+    }
+  }
+
+  // 目标值以内满分，超过上限零分，中间线性递减
+  private scoreLatency(latency?: number): number {
+    if (latency === undefined) return 0
+    const { latencyTargetMs, latencyMaxMs } = this.config
+    if (latency <= latencyTargetMs) return 1
+    if (latency >= latencyMaxMs) return 0
+    return (latencyMaxMs - latency) / (latencyMaxMs - latencyTargetMs)
+  }
+
+  /**
+   * 发送过测试交易的时间窗口；没有测试的窗口不计入可用性分母
+   */
+  private getTestedWindows(logs: RelayerTestLog[]): Set<number> {
+    return new Set(logs.map((log) => this.windowOf(log.testTime)))
+  }
+
+  private windowOf(time: Date): number {
+    const windowMs = this.config.availabilityWindowMinutes * 60 * 1000
+    return Math.floor(new Date(time).getTime() / windowMs)
+  }
+
+  private splitBudget(scores: IncentiveScore[], budget: bigint): void {
+    const eligible = scores.filter((s) => s.eligible && s.score > 0)
+    const totalScore = eligible.reduce((sum, s) => sum + s.score, 0)
+    if (totalScore === 0) return
+
+    // 以 1e6 精度换算为整数，避免浮点数乘大额预算
+    const precision = BigInt(1000000)
+    let distributed = BigInt(0)
+    eligible.forEach((s) => {
+      s.rewardShare = s.score / totalScore
+      const reward =
+        (budget * BigInt(Math.floor(s.rewardShare * 1000000))) / precision
+      s.reward = reward.toString()
+      distributed += reward
+    })
+
+    const top = eligible.reduce((a, b) => (b.score > a.score ? b : a))
+    top.reward = (BigInt(top.reward) + budget - distributed).toString()
+  }
+}
+
+function maxConsecutiveFailures(logs: RelayerTestLog[]): number {
+  let max = 0
+  let current = 0
+  logs.forEach((log) => {
+    current = isSuccessfulRelay(log) ? 0 : current + 1
+    max = Math.max(max, current)
+  })
+  return max
+}
+
+function csvValue(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? String(value) : value.toFixed(6)
+  }
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
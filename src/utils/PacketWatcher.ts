@@ -0,0 +1,364 @@
+import WebSocket from 'ws'
+import { fromBase64 } from '@cosmjs/encoding'
+import { decodeTxRaw } from '@cosmjs/proto-signing'
+import { logger } from './logger'
+import { PacketEvent, getAttribute } from './packetOutcome'
+import { extractPacketSigner } from './IBCQueryHelper'
+
+export type WatchedEventType =
+  | 'recv_packet'
+  | 'acknowledge_packet'
+  | 'timeout_packet'
+
+// 通过 websocket 收到的 packet 交易
+export interface WatchedPacketEvent {
+  type: WatchedEventType
+  sequence: number
+  txHash: string
+  height: number
+  signer?: string
+  memo?: string
+  events: PacketEvent[]
+}
+
+interface PendingWaiter {
+  resolve: (event: WatchedPacketEvent | null) => void
+  timer: NodeJS.Timeout
+}
+
+const RECONNECT_DELAY_MS = 5000
+const MAX_RECONNECT_ATTEMPTS = 5
+// 未被等待的事件最多保留的条数
+const MAX_BUFFERED_EVENTS = 1000
+
+/**
+ * 订阅 Tendermint /websocket 上指定 channel 的 packet 事件
+ * 按 sequence 唤醒等待者；断线时等待者得到 null，由调用方回退到轮询
+ */
+export class PacketWatcher {
+  private ws?: WebSocket
+  private connected = false
+  private closed = false
+  private reconnectAttempts = 0
+  private nextRequestId = 1
+  private received = new Map<string, WatchedPacketEvent>()
+  private waiters = new Map<string, PendingWaiter[]>()
+
+  constructor(
+    private rpcUrl: string,
+    private sourceChannel: string,
+    private eventTypes: WatchedEventType[]
+  ) {}
+
+  /**
+   * 建立连接并订阅事件，失败时返回 false（不抛出）
+   */
+  async connect(): Promise<boolean> {
+    this.closed = false
+
+    try {
+      await this.open()
+      this.reconnectAttempts = 0
+      logger.info(
+        `📡 Subscribed to ${this.eventTypes.join(', ')} on ${this.getWsUrl()}`
+      )
+      return true
+    } catch (error) {
+      logger.warn(
+        `⚠️ WebSocket subscription to ${this.getWsUrl()} failed, falling back to polling:`,
+        error instanceof Error ? error.message : error
+      )
+      return false
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  /**
+   * 等待指定 sequence 的事件，超时或断线时返回 null
+   */
+  waitFor(
+    type: WatchedEventType,
+    sequence: number,
+    timeoutMs: number
+  ): Promise<WatchedPacketEvent | null> {
+    const key = this.eventKey(type, sequence)
+    const buffered = this.received.get(key)
+    if (buffered) {
+      this.received.delete(key)
+      return Promise.resolve(buffered)
+    }
+
+    if (!this.connected) {
+      return Promise.resolve(null)
+    }
+
+    return new Promise((resolve) => {
+      const waiter: PendingWaiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.removeWaiter(key, waiter)
+          resolve(null)
+        }, timeoutMs),
+      }
+      const list = this.waiters.get(key) || []
+      list.push(waiter)
+      this.waiters.set(key, list)
+    })
+  }
+
+  /**
+   * 同时等待多种事件，返回最先到达的一个
+   */
+  async waitForAny(
+    types: WatchedEventType[],
+    sequence: number,
+    timeoutMs: number
+  ): Promise<WatchedPacketEvent | null> {
+    const pending = types.map((type) => ({
+      type,
+      promise: this.waitFor(type, sequence, timeoutMs),
+    }))
+    const result = await Promise.race(pending.map((p) => p.promise))
+
+    // 取消其余等待者
+    pending.forEach(({ type }) => {
+      if (type !== result?.type) {
+        this.cancel(type, sequence)
+      }
+    })
+    return result
+  }
+
+  /**
+   * 取消指定 sequence 的等待，等待者得到 null 并清除其超时计时器
+   */
+  cancel(type: WatchedEventType, sequence: number): void {
+    this.resolveWaiters(this.eventKey(type, sequence), null)
+  }
+
+  close(): void {
+    this.closed = true
+    this.connected = false
+    this.resolveAllWaiters()
+    this.ws?.close()
+    this.ws = undefined
+  }
+
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.getWsUrl())
+      let opened = false
+
+      ws.on('open', () => {
+        opened = true
+        this.ws = ws
+        this.connected = true
+        this.eventTypes.forEach((type) => this.subscribe(ws, type))
+        resolve()
+      })
+
+      ws.on('message', (data) => this.handleMessage(data.toString()))
+
+      ws.on('error', (error) => {
+        if (!opened) {
+          reject(error)
+        } else {
+          logger.debug(`WebSocket error on ${this.getWsUrl()}: ${error}`)
+        }
+      })
+
+      ws.on('close', () => {
+        if (!opened) return
+        this.handleDisconnect()
+      })
+    })
+  }
+
+  private subscribe(ws: WebSocket, type: WatchedEventType): void {
+    ws.send(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'subscribe',
+        id: this.nextRequestId++,
+        params: {
+          query: `tm.event='Tx' AND ${type}.packet_src_channel='${this.sourceChannel}'`,
+        },
+      })
+    )
+  }
+
+  private handleDisconnect(): void {
+    this.connected = false
+    this.ws = undefined
+    // 断线期间的事件会丢失，唤醒所有等待者让调用方回退到轮询
+    this.resolveAllWaiters()
+
+    if (!this.closed) {
+      this.scheduleReconnect()
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      logger.warn(
+        `⚠️ WebSocket ${this.getWsUrl()} disconnected, giving up after ${
+          this.reconnectAttempts
+        } reconnect attempts`
+      )
+      return
+    }
+
+    this.reconnectAttempts++
+    logger.warn(
+      `⚠️ WebSocket ${this.getWsUrl()} disconnected, reconnecting (${
+        this.reconnectAttempts
+      }/${MAX_RECONNECT_ATTEMPTS})...`
+    )
+    setTimeout(() => {
+      if (this.closed) return
+      this.open()
+        .then(() => {
+          this.reconnectAttempts = 0
+          logger.info(`📡 WebSocket ${this.getWsUrl()} reconnected`)
+        })
+        .catch(() => this.scheduleReconnect())
+    }, RECONNECT_DELAY_MS)
+  }
+
+  private handleMessage(raw: string): void {
+    try {
+      const message = JSON.parse(raw)
+      const result = message.result
+      if (!result?.events || !result.data?.value?.TxResult) {
+        // 订阅确认等消息
+        return
+      }
+
+      const txResult = result.data.value.TxResult
+      if (txResult.result?.code && txResult.result.code !== 0) {
+        // 失败的交易（例如重复relay）不计入
+        return
+      }
+
+      const events = eventsFromMap(result.events)
+      const txHash = result.events['tx.hash']?.[0] || ''
+      const height = parseInt(txResult.height || '0')
+      const txBytes = txResult.tx ? fromBase64(txResult.tx) : undefined
+
+      for (const type of this.eventTypes) {
+        for (const event of events) {
+          if (
+            event.type !== type ||
+            getAttribute(event, 'packet_src_channel') !== this.sourceChannel
+          ) {
+            continue
+          }
+
+          const sequence = parseInt(
+            getAttribute(event, 'packet_sequence') || '0'
+          )
+          this.dispatch({
+            type,
+            sequence,
+            txHash,
+            height,
+            signer: extractPacketSigner(txBytes, events) || undefined,
+            memo: txBytes
+              ? decodeTxRaw(txBytes).body.memo || undefined
+              : undefined,
+            events,
+          })
+        }
+      }
+    } catch (error) {
+      logger.debug(`Failed to handle WebSocket message: ${error}`)
+    }
+  }
+
+  private dispatch(event: WatchedPacketEvent): void {
+    const key = this.eventKey(event.type, event.sequence)
+    if (this.waiters.has(key)) {
+      this.resolveWaiters(key, event)
+      return
+    }
+
+    this.received.set(key, event)
+    if (this.received.size > MAX_BUFFERED_EVENTS) {
+      // Map 按插入顺序迭代，删除最早的事件
+      const oldest = this.received.keys().next().value
+      if (oldest !== undefined) this.received.delete(oldest)
+    }
+  }
+
+  private resolveWaiters(key: string, event: WatchedPacketEvent | null): void {
+    const list = this.waiters.get(key) || []
+    this.waiters.delete(key)
+    list.forEach((waiter) => {
+      clearTimeout(waiter.timer)
+      waiter.resolve(event)
+    })
+  }
+
+  private resolveAllWaiters(): void {
+    Array.from(this.waiters.keys()).forEach((key) =>
+      this.resolveWaiters(key, null)
+    )
+  }
+
+  private removeWaiter(key: string, waiter: PendingWaiter): void {
+    const list = (this.waiters.get(key) || []).filter((w) => w !== waiter)
+    if (list.length > 0) {
+      this.waiters.set(key, list)
+    } else {
+      this.waiters.delete(key)
+    }
+  }
+
+  private eventKey(type: WatchedEventType, sequence: number): string {
+    return `${type}:${sequence}`
+  }
+
+  private getWsUrl(): string {
+    return `${this.rpcUrl.replace(/^http/, 'ws').replace(/\/+$/, '')}/websocket`
+  }
+}
+
+/**
+ * 订阅结果中的 events 是 "type.key" → values 的扁平结构
+ * （不同 CometBFT 版本都不做 base64 编码），按下标还原为事件列表
+ */
+function eventsFromMap(map: Record<string, string[]>): PacketEvent[] {
+  const grouped = new Map<string, Map<string, string[]>>()
+
+  Object.entries(map).forEach(([compositeKey, values]) => {
+    const dotIndex = compositeKey.indexOf('.')
+    if (dotIndex === -1) return
+    const type = compositeKey.slice(0, dotIndex)
+    const key = compositeKey.slice(dotIndex + 1)
+    if (type === 'tm' || type === 'tx') return
+
+    if (!grouped.has(type)) {
+      grouped.set(type, new Map())
+    }
+    grouped.get(type)!.set(key, values)
+  })
+
+  const events: PacketEvent[] = []
+  grouped.forEach((attributes, type) => {
+    const count = Math.max(
+      ...Array.from(attributes.values()).map((v) => v.length)
+    )
+    for (let i = 0; i < count; i++) {
+      events.push({
+        type,
+        attributes: Array.from(attributes.entries())
+          .filter(([, values]) => values[i] !== undefined)
+          .map(([key, values]) => ({ key, value: values[i] })),
+      })
+    }
+  })
+  return events
+}
@@ -0,0 +1,66 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { PendingPacket } from '../types'
+import { logger } from './logger'
+import { pathScopedFileName } from './ibcPaths'
+
+/**
+ * 按路径持久化已发送但尚未确定结果的 packet
+ * 每次修改立即写盘，进程在等待ack时退出也不会丢失记录
+ */
+export class PendingPacketStore {
+  private file: string
+  private packets: PendingPacket[] = []
+
+  constructor(pathId: string) {
+    this.file = join(
+      process.cwd(),
+      pathScopedFileName('pending-packets.json', pathId)
+    )
+    this.load()
+  }
+
+  list(): PendingPacket[] {
+    return [...this.packets]
+  }
+
+  add(packet: PendingPacket): void {
+    this.packets = this.packets.filter((p) => p.sequence !== packet.sequence)
+    this.packets.push(packet)
+    this.save()
+  }
+
+  update(sequence: number, changes: Partial<PendingPacket>): void {
+    const packet = this.packets.find((p) => p.sequence === sequence)
+    if (!packet) return
+    Object.assign(packet, changes)
+    this.save()
+  }
+
+  remove(sequence: number): void {
+    const count = this.packets.length
+    this.packets = this.packets.filter((p) => p.sequence !== sequence)
+    if (this.packets.length !== count) {
+      this.save()
+    }
+  }
+
+  private load(): void {
+    try {
+      if (existsSync(this.file)) {
+        this.packets = JSON.parse(readFileSync(this.file, 'utf-8'))
+      }
+    } catch (error) {
+      logger.warn(`Failed to load pending packets from ${this.file}:`, error)
+      this.packets = []
+    }
+  }
+
+  private save(): void {
+    try {
+      writeFileSync(this.file, JSON.stringify(this.packets, null, 2))
+    } catch (error) {
+      logger.error(`Failed to save pending packets to ${this.file}:`, error)
+    }
+  }
+}
@@ -0,0 +1,298 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import {
+  makeSignDoc,
+  rawSecp256k1PubkeyToRawAddress,
+  serializeSignDoc,
+} from '@cosmjs/amino'
+import { Secp256k1, Secp256k1Signature, sha256 } from '@cosmjs/crypto'
+import {
+  fromBase64,
+  fromBech32,
+  toBase64,
+  toBech32,
+  toUtf8,
+} from '@cosmjs/encoding'
+import {
+  RelayerBinding,
+  ValidatorInfo,
+  VerifiedBinding,
+  BindingVerificationMethod,
+} from '../types'
+import { CosmosClient } from '../clients/CosmosClient'
+import { logger } from './logger'
+
+// 链上验证结果缓存，离线生成 metrics / 报告时使用
+const BINDINGS_FILE = 'relayer-bindings.json'
+
+/**
+ * operator 需要用 ADR-036 (signArbitrary) 签名的内容
+ */
+export function bindingMessage(
+  operatorAddress: string,
+  relayerAddress: string
+): string {
+  return `Bind relayer ${relayerAddress} to validator ${operatorAddress}`
+}
+
+/**
+ * validator operator 地址对应的账户地址，例如 doravaloper1... -> dora1...
+ * 指定 prefix 时换成其他链的前缀（同一私钥）
+ */
+export function operatorAccountAddress(
+  operatorAddress: string,
+  prefix?: string
+): string {
+  const { prefix: operatorPrefix, data } = fromBech32(operatorAddress)
+  return toBech32(prefix || operatorPrefix.replace(/valoper$/, ''), data)
+}
+
+/**
+ * 验证 ADR-036 签名：签名者必须是 operator 账户，签名内容为 bindingMessage
+ */
+export async function verifyBindingSignature(
+  operatorAddress: string,
+  binding: RelayerBinding
+): Promise<boolean> {
+  if (!binding.signature || !binding.pubKey) return false
+
+  try {
+    const pubKey = fromBase64(binding.pubKey)
+    const { data: operatorBytes } = fromBech32(operatorAddress)
+    const signerBytes = rawSecp256k1PubkeyToRawAddress(pubKey)
+    if (toBase64(signerBytes) !== toBase64(operatorBytes)) {
+      return false
+    }
+
+    const signer = operatorAccountAddress(operatorAddress)
+    const signDoc = makeSignDoc(
+      [
+        {
+          type: 'sign/MsgSignData',
+          value: {
+            signer,
+            data: toBase64(
+              toUtf8(bindingMessage(operatorAddress, binding.address))
+            ),
+          },
+        },
+      ],
+      { gas: '0', amount: [] },
+      '',
+      '',
+      0,
+      0
+    )
+
+    return await Secp256k1.verifySignature(
+      Secp256k1Signature.fromFixedLength(fromBase64(binding.signature)),
+      sha256(serializeSignDoc(signDoc)),
+      pubKey
+    )
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * validator 与 relayer 地址的绑定登记
+ * 只有通过签名、feegrant 或 authz 验证的地址才会被用于归属 relay
+ */
+export class RelayerRegistry {
+  private file: string
+  private results = new Map<string, VerifiedBinding>()
+
+  constructor(private validators: ValidatorInfo[]) {
+    this.file = join(process.cwd(), BINDINGS_FILE)
+    this.loadCachedResults()
+  }
+
+  /**
+   * 是否有 validator 声明了 relayer 地址；没有时仍按 memo 归属
+   */
+  hasBindings(): boolean {
+    return this.getDeclaredBindings().length > 0
+  }
+
+  /**
+   * 验证所有声明的绑定，feegrant / authz 在地址前缀对应的链上查询
+   * 结果写入缓存，离线生成 metrics 时使用上次的验证结果
+   */
+  async verify(clients: CosmosClient[]): Promise<VerifiedBinding[]> {
+    for (const { validator, binding } of this.getDeclaredBindings()) {
+      try {
+        if (await verifyBindingSignature(validator.operatorAddress, binding)) {
+          this.setResult(validator, binding.address, true, 'signature')
+          continue
+        }
+
+        const { prefix } = fromBech32(binding.address)
+        const client = clients.find((c) => c.getChainConfig().prefix === prefix)
+        if (!client) {
+          this.setResult(
+            validator,
+            binding.address,
+            false,
+            undefined,
+            binding.signature
+              ? 'Invalid signature'
+              : `No connected chain with prefix ${prefix}`
+          )
+          continue
+        }
+
+        const method = await this.verifyOnChain(
+          client,
+          validator.operatorAddress,
+          binding.address
+        )
+        this.setResult(
+          validator,
+          binding.address,
+          !!method,
+          method,
+          method ? undefined : 'No signature, feegrant or authz grant found'
+        )
+      } catch (error) {
+        this.setResult(
+          validator,
+          binding.address,
+          false,
+          undefined,
+          error instanceof Error ? error.message : String(error)
+        )
+      }
+    }
+
+    this.saveResults()
+    const results = this.getResults()
+    logger.info(
+      `🔐 Relayer bindings verified: ${
+        results.filter((r) => r.verified).length
+      }/${results.length}`
+    )
+    return results
+  }
+
+  /**
+   * 已验证地址所属的 validator，未验证或未登记时返回 undefined
+   */
+  resolve(address?: string): VerifiedBinding | undefined {
+    if (!address) return undefined
+    const result = this.results.get(address)
+    return result?.verified ? result : undefined
+  }
+
+  getVerifiedAddresses(moniker: string): string[] {
+    return this.getResults()
+      .filter((r) => r.verified && r.moniker === moniker)
+      .map((r) => r.address)
+  }
+
+  isVerified(address: string, operatorAddress: string): boolean {
+    return this.resolve(address)?.operatorAddress === operatorAddress
+  }
+
+  getResults(): VerifiedBinding[] {
+    return Array.from(this.results.values())
+  }
+
+  /**
+   * operator 账户授予 relayer 的 feegrant 或 authz 权限
+   */
+  private async verifyOnChain(
+    client: CosmosClient,
+    operatorAddress: string,
+    relayerAddress: string
+  ): Promise<BindingVerificationMethod | undefined> {
+    const granter = operatorAccountAddress(
+      operatorAddress,
+      client.getChainConfig().prefix
+    )
+
+    if (await client.hasFeeAllowance(granter, relayerAddress)) {
+      return 'feegrant'
+    }
+    if (await client.hasAuthzGrant(granter, relayerAddress)) {
+      return 'authz'
+    }
+    return undefined
+  }
+
+  /**
+   * relayerBindings 以及旧的 relayerAddresses（只能通过 feegrant / authz 验证）
+   */
+  private getDeclaredBindings(): {
+    validator: ValidatorInfo
+    binding: RelayerBinding
+  }[] {
+    return this.validators.flatMap((validator) => [
+      ...(validator.relayerBindings || []).map((binding) => ({
+        validator,
+        binding,
+      })),
+      ...(validator.relayerAddresses || []).map((address) => ({
+        validator,
+        binding: { address },
+      })),
+    ])
+  }
+
+  private setResult(
+    validator: ValidatorInfo,
+    address: string,
+    verified: boolean,
+    method?: BindingVerificationMethod,
+    error?: string
+  ): void {
+    // 同一地址已通过其他方式验证时保留
+    const existing = this.results.get(address)
+    if (
+      !verified &&
+      existing?.verified &&
+      existing.operatorAddress === validator.operatorAddress
+    ) {
+      return
+    }
+
+    this.results.set(address, {
+      moniker: validator.moniker,
+      operatorAddress: validator.operatorAddress,
+      address,
+      verified,
+      method,
+      error,
+      verifiedAt: new Date().toISOString(),
+    })
+  }
+
+  private loadCachedResults(): void {
+    try {
+      if (!existsSync(this.file)) return
+
+      const cached: VerifiedBinding[] = JSON.parse(
+        readFileSync(this.file, 'utf-8')
+      )
+      // 只保留当前配置中仍然声明的绑定
+      const declared = new Set(
+        this.getDeclaredBindings().map(
+          ({ validator, binding }) =>
+            `${validator.operatorAddress}/${binding.address}`
+        )
+      )
+      cached
+        .filter((r) => declared.has(`${r.operatorAddress}/${r.address}`))
+        .forEach((r) => this.results.set(r.address, r))
+    } catch (error) {
+      logger.warn(`Failed to load ${this.file}:`, error)
+    }
+  }
+
+  private saveResults(): void {
+    try {
+      writeFileSync(this.file, JSON.stringify(this.getResults(), null, 2))
+    } catch (error) {
+      logger.error(`Failed to save ${this.file}:`, error)
+    }
+  }
+}
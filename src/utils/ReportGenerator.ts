@@ -1,18 +1,82 @@
-import { RelayerTestLog, RelayerPerformanceMetrics } from '../types'
+import {
+  RelayerTestLog,
+  RelayerPerformanceMetrics,
+  IBCPathConfig,
+  RelayOutcome,
+  IdentityAnomaly,
+  MetricsWindow,
+  MetricsTrendPoint,
+  LatencyDistribution,
+  HistogramBucket,
+  RelayRaceStats,
+} from '../types'
 import { writeFileSync } from 'fs'
 import { join } from 'path'
 import { logger } from './logger'
+import { describePath, pathScopedFileName } from './ibcPaths'
+import {
+  OUTCOME_LABELS,
+  RELAY_OUTCOMES,
+  countOutcomes,
+  getLogOutcome,
+} from './packetOutcome'
+import { IDENTITY_ANOMALY_LABELS } from './identityAnomalies'
+import { mean, summarizeLatencies } from './statistics'
+import { countContestedPackets } from './relayRace'
+import {
+  BATCH_PATTERNS,
+  BATCH_PATTERN_LABELS,
+  summarizeMultiMsgBatches,
+} from './batchRelay'
+import { summarizeDailySpend } from './txCost'
+
+// 报告的统计范围及按窗口的趋势
+export interface ReportWindow {
+  range?: MetricsWindow
+  trends?: MetricsTrendPoint[]
+}
 
 export class ReportGenerator {
   private logs: RelayerTestLog[]
   private metrics: RelayerPerformanceMetrics[]
+  private path?: IBCPathConfig
+  private identityAnomalies: IdentityAnomaly[]
+  private window: ReportWindow
+  private relayRaces: RelayRaceStats[]
 
-  constructor(logs: RelayerTestLog[], metrics: RelayerPerformanceMetrics[]) {
+  constructor(
+    logs: RelayerTestLog[],
+    metrics: RelayerPerformanceMetrics[],
+    path?: IBCPathConfig,
+    identityAnomalies: IdentityAnomaly[] = [],
+    window: ReportWindow = {},
+    relayRaces: RelayRaceStats[] = []
+  ) {
     this.logs = logs
     this.metrics = metrics
+    this.path = path
+    this.identityAnomalies = identityAnomalies
+    this.window = window
+    this.relayRaces = relayRaces
+  }
+
+  private getPathLabel(): string {
+    return this.path ? describePath(this.path) : ''
+  }
+
+  private getWindowLabel(): string {
+    const range = this.window.range
+    if (!range) return ''
+    if (range.fromHeight !== undefined) {
+      return `${range.label} (height ${range.fromHeight} - ${range.toHeight})`
+    }
+    return `${range.label} (${range.from?.toISOString() || '…'} - ${
+      range.to?.toISOString() || '…'
+    })`
   }
 
   generateHtmlReport(): string {
+    const contestedPackets = countContestedPackets(this.logs)
     const html = `
 <!DOCTYPE html>
 <html lang="zh-CN">
@@ -197,6 +261,18 @@ export class ReportGenerator {
         .hidden {
             display: none;
         }
+        .histogram {
+            display: flex;
+            align-items: flex-end;
+            gap: 2px;
+            height: 40px;
+            min-width: 160px;
+        }
+        .histogram-bar {
+            flex: 1;
+            min-height: 1px;
+            background-color: #4299e1;
+        }
     </style>
 </head>
 <body>
@@ -215,6 +291,16 @@ export class ReportGenerator {
     )}">vota-bobtail 激励测试网 - 生成时间: ${new Date().toLocaleString(
       'zh-CN'
     )}</div>
+            ${
+              this.path
+                ? `<div class="subtitle" data-zh="测试路径: ${this.getPathLabel()}" data-en="Test Path: ${this.getPathLabel()}">测试路径: ${this.getPathLabel()}</div>`
+                : ''
+            }
+            ${
+              this.window.range
+                ? `<div class="subtitle" data-zh="统计范围: ${this.getWindowLabel()}" data-en="Window: ${this.getWindowLabel()}">统计范围: ${this.getWindowLabel()}</div>`
+                : ''
+            }
         </div>
 
         <div class="summary">
@@ -229,17 +315,45 @@ export class ReportGenerator {
                 )}%</div>
             </div>
             <div class="summary-card warning">
-                <h3 data-zh="平均延迟" data-en="Average Latency">平均延迟</h3>
+                <h3 data-zh="平均接收延迟" data-en="Avg Recv Latency">平均接收延迟</h3>
                 <div class="value">${this.calculateAverageLatency().toFixed(
                   0
                 )}ms</div>
             </div>
+            <div class="summary-card warning">
+                <h3 data-zh="平均Ack回传延迟" data-en="Avg Ack Latency">平均Ack回传延迟</h3>
+                <div class="value">${this.formatLatency(
+                  this.calculateAverageLegLatency('ackLatency')
+                )}</div>
+            </div>
+            <div class="summary-card warning">
+                <h3 data-zh="平均往返延迟" data-en="Avg Round Trip">平均往返延迟</h3>
+                <div class="value">${this.formatLatency(
+                  this.calculateAverageLegLatency('roundTripLatency')
+                )}</div>
+            </div>
             <div class="summary-card">
                 <h3 data-zh="活跃 Validators" data-en="Active Validators">活跃 Validators</h3>
                 <div class="value">${this.metrics.length}</div>
             </div>
         </div>
 
+        <div class="section">
+            <h2 data-zh="🧾 Packet 结果分布" data-en="🧾 Packet Outcomes">🧾 Packet 结果分布</h2>
+            <table>
+                <thead>
+                    <tr>
+                        <th data-zh="结果" data-en="Outcome">结果</th>
+                        <th data-zh="数量" data-en="Count">数量</th>
+                        <th data-zh="占比" data-en="Share">占比</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${this.generateOutcomeRows()}
+                </tbody>
+            </table>
+        </div>
+
         <div class="section">
             <h2 data-zh="📊 Validator 性能排名" data-en="📊 Validator Performance Ranking">📊 Validator 性能排名</h2>
             <div class="validator-metrics">
@@ -247,6 +361,54 @@ export class ReportGenerator {
             </div>
         </div>
 
+        <div class="section">
+            <h2 data-zh="🕵️ 身份异常" data-en="🕵️ Identity Anomalies">🕵️ 身份异常</h2>
+            ${
+              this.identityAnomalies.length > 0
+                ? `<table>
+                <thead>
+                    <tr>
+                        <th data-zh="类型" data-en="Type">类型</th>
+                        <th data-zh="Memo Moniker" data-en="Memo Moniker">Memo Moniker</th>
+                        <th data-zh="Signer地址" data-en="Signer Address">Signer地址</th>
+                        <th data-zh="相关" data-en="Related">相关</th>
+                        <th data-zh="次数" data-en="Count">次数</th>
+                        <th data-zh="最近出现" data-en="Last Seen">最近出现</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${this.generateIdentityAnomalyRows()}
+                </tbody>
+            </table>`
+                : `<p data-zh="未发现 memo 与签名者不一致的情况" data-en="No mismatch between memo monikers and signers detected">未发现 memo 与签名者不一致的情况</p>`
+            }
+        </div>
+
+        <div class="section">
+            <h2 data-zh="🏁 Relay 竞争" data-en="🏁 Relay Races">🏁 Relay 竞争</h2>
+            ${
+              this.relayRaces.length > 0
+                ? `<p data-zh="${contestedPackets} 个 packet 被多个 relayer 同时提交" data-en="${contestedPackets} packets were submitted by more than one relayer">${contestedPackets} 个 packet 被多个 relayer 同时提交</p>
+            <table>
+                <thead>
+                    <tr>
+                        <th data-zh="Relayer" data-en="Relayer">Relayer</th>
+                        <th data-zh="获胜" data-en="Won">获胜</th>
+                        <th data-zh="提交" data-en="Attempted">提交</th>
+                        <th data-zh="重复" data-en="Redundant">重复</th>
+                        <th data-zh="胜率" data-en="Win Rate">胜率</th>
+                        <th data-zh="浪费 Gas" data-en="Wasted Gas">浪费 Gas</th>
+                        <th data-zh="Signer地址" data-en="Signer Address">Signer地址</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${this.generateRelayRaceRows()}
+                </tbody>
+            </table>`
+                : `<p data-zh="未发现重复 relay" data-en="No redundant relays detected">未发现重复 relay</p>`
+            }
+        </div>
+
         <div class="section">
             <h2 data-zh="📝 最近测试日志" data-en="📝 Recent Test Logs">📝 最近测试日志</h2>
             <table>
@@ -256,9 +418,12 @@ export class ReportGenerator {
                         <th data-zh="交易Hash" data-en="Transaction Hash">交易Hash</th>
                         <th data-zh="Packet序列" data-en="Packet Sequence">Packet序列</th>
                         <th data-zh="状态" data-en="Status">状态</th>
-                        <th data-zh="延迟(ms)" data-en="Latency(ms)">延迟(ms)</th>
+                        <th data-zh="接收延迟(ms)" data-en="Recv Latency(ms)">接收延迟(ms)</th>
+                        <th data-zh="Ack回传(ms)" data-en="Ack Latency(ms)">Ack回传(ms)</th>
+                        <th data-zh="往返(ms)" data-en="Round Trip(ms)">往返(ms)</th>
                         <th data-zh="Relayer标识" data-en="Relayer Identifier">Relayer标识</th>
                         <th data-zh="Signer地址" data-en="Signer Address">Signer地址</th>
+                        <th data-zh="Ack Signer地址" data-en="Ack Signer Address">Ack Signer地址</th>
                     </tr>
                 </thead>
                 <tbody>
@@ -275,9 +440,13 @@ export class ReportGenerator {
                         <th data-zh="Validator" data-en="Validator">Validator</th>
                         <th data-zh="总测试数" data-en="Total Tests">总测试数</th>
                         <th data-zh="成功数" data-en="Successful">成功数</th>
+                        <th data-zh="错误Ack" data-en="Error Acks">错误Ack</th>
+                        <th data-zh="超时" data-en="Timeouts">超时</th>
+                        <th data-zh="未完成" data-en="Pending">未完成</th>
                         <th data-zh="成功率" data-en="Success Rate">成功率</th>
                         <th data-zh="平均延迟" data-en="Average Latency">平均延迟</th>
                         <th data-zh="最大延迟" data-en="Max Latency">最大延迟</th>
+                        <th data-zh="平均往返" data-en="Avg Round Trip">平均往返</th>
                         <th data-zh="连续失败" data-en="Consecutive Failures">连续失败</th>
                         <th data-zh="状态" data-en="Status">状态</th>
                     </tr>
@@ -288,6 +457,27 @@ export class ReportGenerator {
             </table>
         </div>
 
+        <div class="section">
+            <h2 data-zh="⏱️ 接收延迟分布" data-en="⏱️ Recv Latency Distribution">⏱️ 接收延迟分布</h2>
+            <table>
+                <thead>
+                    <tr>
+                        <th data-zh="Validator" data-en="Validator">Validator</th>
+                        <th data-zh="样本数" data-en="Samples">样本数</th>
+                        <th>P50</th>
+                        <th>P90</th>
+                        <th>P95</th>
+                        <th>P99</th>
+                        <th data-zh="标准差" data-en="Std Dev">标准差</th>
+                        <th data-zh="分布" data-en="Histogram">分布</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${this.generateLatencyDistributionRows()}
+                </tbody>
+            </table>
+        </div>
+
         <div class="footer">
             <p data-zh="此报告由 IBC Relayer 测试系统自动生成" data-en="This report is automatically generated by the IBC Relayer testing system">此报告由 IBC Relayer 测试系统自动生成</p>
         </div>
@@ -338,7 +528,9 @@ export class ReportGenerator {
     const md = `# 🧪 IBC Relayer 测试报告
 
 **生成时间**: ${new Date().toLocaleString('zh-CN')}  
-**测试网络**: vota-bobtail 激励测试网
+**测试网络**: vota-bobtail 激励测试网${
+      this.path ? `  \n**测试路径**: ${this.getPathLabel()}` : ''
+    }${this.window.range ? `  \n**统计范围**: ${this.getWindowLabel()}` : ''}
 
 ---
 
@@ -349,9 +541,23 @@ export class ReportGenerator {
 | 总测试数 | ${this.logs.length} |
 | 成功测试数 | ${this.logs.filter((l) => l.success).length} |
 | 成功率 | ${this.calculateOverallSuccessRate().toFixed(2)}% |
-| 平均延迟 | ${this.calculateAverageLatency().toFixed(0)}ms |
+| 平均接收延迟 | ${this.calculateAverageLatency().toFixed(0)}ms |
+| 平均Ack回传延迟 | ${this.formatLatency(
+      this.calculateAverageLegLatency('ackLatency')
+    )} |
+| 平均往返延迟 | ${this.formatLatency(
+      this.calculateAverageLegLatency('roundTripLatency')
+    )} |
 | 活跃 Validators | ${this.metrics.length} |
 
+### Packet 结果分布
+
+| 结果 | 数量 |
+|------|------|
+${this.getOutcomeEntries()
+  .map(({ outcome, count }) => `| ${OUTCOME_LABELS[outcome].zh} | ${count} |`)
+  .join('\n')}
+
 ---
 
 ## 🏆 Validator 性能排名
@@ -362,16 +568,24 @@ ${this.generateMarkdownValidatorRanking()}
 
 ## 📈 详细性能指标
 
-| Validator | 总测试 | 成功 | 成功率 | 平均延迟 | 最大延迟 | 连续失败 | 状态 |
-|-----------|--------|------|--------|----------|----------|----------|------|
+| Validator | 总测试 | 成功 | 错误Ack | 超时 | 未完成 | 成功率 | 平均延迟 | 最大延迟 | 平均往返 | 连续失败 | 状态 |
+|-----------|--------|------|---------|------|--------|--------|----------|----------|----------|----------|------|
 ${this.metrics
   .map(
     (m) =>
-      `| ${m.validatorMoniker} | ${m.totalTests} | ${
-        m.successfulRelays
-      } | ${m.successRate.toFixed(1)}% | ${m.averageLatency.toFixed(
+      `| ${m.validatorMoniker}${this.unattributedTag(m, false)} | ${
+        m.totalTests
+      } | ${m.successfulRelays} | ${this.getMetricOutcomeCount(
+        m,
+        'acked-error'
+      )} | ${this.getMetricTimeoutCount(m)} | ${this.getMetricOutcomeCount(
+        m,
+        'pending'
+      )} | ${m.successRate.toFixed(1)}% | ${m.averageLatency.toFixed(
         0
-      )}ms | ${m.maxLatency.toFixed(0)}ms | ${m.continuousFailures} | ${
+      )}ms | ${m.maxLatency.toFixed(0)}ms | ${this.formatLatency(
+        m.averageRoundTripLatency
+      )} | ${m.continuousFailures} | ${
         m.successRate >= 90
           ? '🟢 优秀'
           : m.successRate >= 70
@@ -383,20 +597,88 @@ ${this.metrics
 
 ---
 
+## ⏱️ 接收延迟分布
+
+| Validator | 样本数 | P50 | P90 | P95 | P99 | 标准差 | 分布 |
+|-----------|--------|-----|-----|-----|-----|--------|------|
+${this.getLatencyDistributions()
+  .map(
+    ({ name, distribution: d }) =>
+      `| ${name} | ${d.count} | ${this.formatLatency(
+        d.p50
+      )} | ${this.formatLatency(d.p90)} | ${this.formatLatency(
+        d.p95
+      )} | ${this.formatLatency(d.p99)} | ${this.formatLatency(
+        d.stddev
+      )} | ${d.histogram
+        .filter((b) => b.count > 0)
+        .map((b) => `${this.formatBucket(b)}: ${b.count}`)
+        .join(', ')} |`
+  )
+  .join('\n')}
+
+---
+
+## 💰 成本
+
+${this.generateMarkdownCosts()}
+
+---
+
+## ⏰ 超时与退款
+
+${this.generateMarkdownTimeouts()}
+
+---
+
+## 🪙 到账核对
+
+${this.generateMarkdownReceipts()}
+
+---
+
+## 🧬 Relayer 软件
+
+${this.generateMarkdownSoftwareMix()}
+
+---
+
+## 🕵️ 身份异常
+
+${this.generateMarkdownIdentityAnomalies()}
+
+---
+
+## 🏁 Relay 竞争
+
+${this.generateMarkdownRelayRaces()}
+
+---
+
+## 📦 多消息批量
+
+${this.generateMarkdownMultiMsgBatches()}
+
+---
+
 ## 📝 最近测试记录 (最新10条)
 
-| 时间 | 状态 | 延迟 | Validator | Packet序列 |
-|------|------|------|-----------|------------|
+| 时间 | 状态 | 接收延迟 | Ack回传 | 往返 | Validator | Ack Relayer | Packet序列 |
+|------|------|----------|---------|------|-----------|-------------|------------|
 ${this.logs
   .slice(-10)
   .reverse()
   .map(
     (log) =>
       `| ${log.testTime.toLocaleString('zh-CN')} | ${
-        log.success ? '✅ 成功' : '❌ 失败'
-      } | ${log.latency}ms | ${
+        OUTCOME_LABELS[getLogOutcome(log)].zh
+      }${log.ackError ? ` (${log.ackError})` : ''} | ${
+        log.latency
+      }ms | ${this.formatLatency(
+        log.lifecycle?.ackLatency
+      )} | ${this.formatLatency(log.lifecycle?.roundTripLatency)} | ${
         log.memoIdentifier?.replace('relayed-by:', '') || 'Unknown'
-      } | ${log.packetSequence} |`
+      } | ${log.lifecycle?.ack?.relayer || 'Unknown'} | ${log.packetSequence} |`
   )
   .join('\n')}
 
@@ -419,8 +701,13 @@ ${this.generateRecommendations()}
     return (successCount / this.logs.length) * 100
   }
 
+  // 被目标链接收的 packet，延迟只按这些统计（不含超时场景）
+  private getReceivedLogs(): RelayerTestLog[] {
+    return this.logs.filter((log) => getLogOutcome(log) === 'acked-success')
+  }
+
   private calculateAverageLatency(): number {
-    const successfulLogs = this.logs.filter((log) => log.success)
+    const successfulLogs = this.getReceivedLogs()
     if (successfulLogs.length === 0) return 0
     const totalLatency = successfulLogs.reduce(
       (sum, log) => sum + log.latency,
@@ -429,6 +716,75 @@ ${this.generateRecommendations()}
     return totalLatency / successfulLogs.length
   }
 
+  // 基于区块时间的 ack 回传 / 往返延迟，旧日志没有 lifecycle 时忽略
+  private calculateAverageLegLatency(
+    leg: 'recvLatency' | 'ackLatency' | 'roundTripLatency'
+  ): number | undefined {
+    const values = this.getReceivedLogs()
+      .map((log) => log.lifecycle?.[leg])
+      .filter((v): v is number => v !== undefined)
+    return mean(values)
+  }
+
+  // 全部成功 relay 的分布在前，其后按 validator
+  private getLatencyDistributions(): {
+    name: string
+    distribution: LatencyDistribution
+  }[] {
+    const overall = summarizeLatencies(
+      this.getReceivedLogs().map((log) => log.latency)
+    )
+    return [
+      ...(overall ? [{ name: 'All', distribution: overall }] : []),
+      ...this.metrics
+        .filter((m) => m.latencyDistribution)
+        .map((m) => ({
+          name: m.validatorMoniker,
+          distribution: m.latencyDistribution!,
+        })),
+    ]
+  }
+
+  private generateLatencyDistributionRows(): string {
+    return this.getLatencyDistributions()
+      .map(({ name, distribution: d }) => {
+        const maxCount = Math.max(...d.histogram.map((b) => b.count), 1)
+        const bars = d.histogram
+          .map(
+            (b) =>
+              `<div class="histogram-bar" title="${this.formatBucket(b)}: ${
+                b.count
+              }" style="height: ${(b.count / maxCount) * 100}%"></div>`
+          )
+          .join('')
+
+        return `
+        <tr>
+            <td><strong>${name}</strong></td>
+            <td>${d.count}</td>
+            <td>${this.formatLatency(d.p50)}</td>
+            <td>${this.formatLatency(d.p90)}</td>
+            <td>${this.formatLatency(d.p95)}</td>
+            <td>${this.formatLatency(d.p99)}</td>
+            <td>${this.formatLatency(d.stddev)}</td>
+            <td><div class="histogram">${bars}</div></td>
+        </tr>
+        `
+      })
+      .join('')
+  }
+
+  private formatBucket(bucket: HistogramBucket): string {
+    const seconds = (ms: number) => `${ms / 1000}s`
+    return bucket.to !== undefined
+      ? `≤${seconds(bucket.to)}`
+      : `>${seconds(bucket.from)}`
+  }
+
+  private formatLatency(latency?: number): string {
+    return latency !== undefined ? `${latency.toFixed(0)}ms` : 'N/A'
+  }
+
   private generateValidatorCards(): string {
     return this.metrics
       .sort((a, b) => b.successRate - a.successRate)
@@ -442,7 +798,9 @@ ${this.generateRecommendations()}
 
         return `
         <div class="validator-card">
-            <h4>🏷️ ${metric.validatorMoniker}</h4>
+            <h4>🏷️ ${metric.validatorMoniker}${this.unattributedTag(
+          metric
+        )}</h4>
             <div class="metric-row">
                 <span class="metric-label" data-zh="成功率" data-en="Success Rate">成功率</span>
                 <span class="metric-value">${metric.successRate.toFixed(
@@ -464,6 +822,16 @@ ${this.generateRecommendations()}
                   0
                 )}ms</span>
             </div>
+            <div class="metric-row">
+                <span class="metric-label" data-zh="平均往返延迟" data-en="Avg Round Trip">平均往返延迟</span>
+                <span class="metric-value">${this.formatLatency(
+                  metric.averageRoundTripLatency
+                )}</span>
+            </div>
+            ${this.generateAvailabilityRows(metric)}
+            ${this.generateSoftwareRows(metric)}
+            ${this.generateCostRows(metric)}
+            ${this.generateReceiptRow(metric)}
             <div class="metric-row">
                 <span class="metric-label" data-zh="连续失败次数" data-en="Consecutive Failures">连续失败次数</span>
                 <span class="metric-value">${metric.continuousFailures}</span>
@@ -482,14 +850,127 @@ ${this.generateRecommendations()}
       .join('')
   }
 
+  // 无法归属到 validator、按 signer 地址统计的条目
+  private unattributedTag(
+    metric: RelayerPerformanceMetrics,
+    html: boolean = true
+  ): string {
+    if (metric.attribution !== 'unattributed-signer') return ''
+    return html
+      ? ` <small data-zh="(未归属)" data-en="(unattributed)">(未归属)</small>`
+      : ' (未归属)'
+  }
+
+  private generateAvailabilityRows(metric: RelayerPerformanceMetrics): string {
+    const availability = metric.availability
+    if (!availability) return ''
+
+    const rows: [string, string, string][] = [
+      [
+        '时隙参与率',
+        'Slot Participation',
+        `${availability.participationRate.toFixed(1)}% (${
+          availability.relayedSlots
+        }/${availability.eligibleSlots})`,
+      ],
+      [
+        '最长中断',
+        'Longest Outage',
+        `${this.formatDuration(availability.longestOutageMs)}${
+          availability.inOutage ? ' ⚠️' : ''
+        }`,
+      ],
+      ['MTTR', 'MTTR', this.formatDuration(availability.mttrMs)],
+      ['MTBF', 'MTBF', this.formatDuration(availability.mtbfMs)],
+    ]
+
+    return rows
+      .map(
+        ([zh, en, value]) => `
+            <div class="metric-row">
+                <span class="metric-label" data-zh="${zh}" data-en="${en}">${zh}</span>
+                <span class="metric-value">${value}</span>
+            </div>`
+      )
+      .join('')
+  }
+
+  private generateSoftwareRows(metric: RelayerPerformanceMetrics): string {
+    const software = metric.software
+    if (!software) return ''
+
+    return `
+            <div class="metric-row">
+                <span class="metric-label" data-zh="Relayer 软件" data-en="Relayer Software">Relayer 软件</span>
+                <span class="metric-value">${this.formatSoftwareVersions(
+                  software.versions
+                )}</span>
+            </div>
+            <div class="metric-row">
+                <span class="metric-label" data-zh="平均批量 / 捆绑客户端更新" data-en="Avg Batch / Client Update">平均批量 / 捆绑客户端更新</span>
+                <span class="metric-value">${software.averageBatchSize.toFixed(
+                  1
+                )} / ${software.clientUpdateRate.toFixed(0)}%</span>
+            </div>`
+  }
+
+  private generateCostRows(metric: RelayerPerformanceMetrics): string {
+    const cost = metric.cost
+    if (!cost) return ''
+
+    return `
+            <div class="metric-row">
+                <span class="metric-label" data-zh="平均 Gas / Relay" data-en="Avg Gas / Relay">平均 Gas / Relay</span>
+                <span class="metric-value">${cost.averageGasPerRelay}</span>
+            </div>
+            <div class="metric-row">
+                <span class="metric-label" data-zh="每次成功 Relay 手续费" data-en="Fee / Successful Relay">每次成功 Relay 手续费</span>
+                <span class="metric-value">${
+                  this.formatFees(cost.feePerSuccessfulRelay) || 'N/A'
+                }</span>
+            </div>`
+  }
+
+  private generateReceiptRow(metric: RelayerPerformanceMetrics): string {
+    if (!metric.receiptMismatches) return ''
+
+    return `
+            <div class="metric-row">
+                <span class="metric-label" data-zh="到账不符" data-en="Receipt Mismatches">到账不符</span>
+                <span class="metric-value">⚠️ ${metric.receiptMismatches}</span>
+            </div>`
+  }
+
+  private formatFees(fees: Record<string, string>): string {
+    return Object.entries(fees)
+      .map(([denom, amount]) => `${amount}${denom}`)
+      .join(', ')
+  }
+
+  private formatSoftwareVersions(versions: Record<string, number>): string {
+    return Object.entries(versions)
+      .sort((a, b) => b[1] - a[1])
+      .map(([version, count]) => `${version} (${count})`)
+      .join(', ')
+  }
+
+  private formatDuration(ms?: number): string {
+    if (ms === undefined) return 'N/A'
+    const minutes = Math.round(ms / 60000)
+    if (minutes < 60) return `${minutes}m`
+    const hours = Math.floor(minutes / 60)
+    return minutes % 60 > 0 ? `${hours}h ${minutes % 60}m` : `${hours}h`
+  }
+
   private generateLogRows(): string {
     return this.logs
       .slice(-20) // 显示最近20条
       .reverse()
       .map((log) => {
+        const outcome = getLogOutcome(log)
         const statusClass = log.success ? 'status-success' : 'status-failed'
-        const statusTextZh = log.success ? '✅ 成功' : '❌ 失败'
-        const statusTextEn = log.success ? '✅ Success' : '❌ Failed'
+        const statusTextZh = OUTCOME_LABELS[outcome].zh
+        const statusTextEn = OUTCOME_LABELS[outcome].en
         const latencyClass =
           log.latency < 5000
             ? 'latency-excellent'
@@ -505,20 +986,70 @@ ${this.generateRecommendations()}
               16
             )}...</td>
             <td>${log.packetSequence}</td>
-            <td class="${statusClass}" data-zh="${statusTextZh}" data-en="${statusTextEn}">${statusTextZh}</td>
+            <td class="${statusClass}" title="${
+          log.ackError || ''
+        }" data-zh="${statusTextZh}" data-en="${statusTextEn}">${statusTextZh}</td>
             <td class="${latencyClass}">${log.latency}</td>
+            <td>${log.lifecycle?.ackLatency ?? '-'}</td>
+            <td>${log.lifecycle?.roundTripLatency ?? '-'}</td>
             <td>${
               log.memoIdentifier?.replace('relayed-by:', '') || 'Unknown'
             }</td>
             <td style="font-family: monospace; font-size: 12px;">${
               log.relayerSigner?.slice(0, 16) + '...' || 'Unknown'
             }</td>
+            <td style="font-family: monospace; font-size: 12px;">${
+              log.lifecycle?.ack?.relayer
+                ? log.lifecycle.ack.relayer.slice(0, 16) + '...'
+                : 'Unknown'
+            }</td>
+        </tr>
+        `
+      })
+      .join('')
+  }
+
+  private getOutcomeEntries(): { outcome: RelayOutcome; count: number }[] {
+    const counts = countOutcomes(this.logs)
+    return RELAY_OUTCOMES.map((outcome) => ({
+      outcome,
+      count: counts[outcome],
+    }))
+  }
+
+  private generateOutcomeRows(): string {
+    return this.getOutcomeEntries()
+      .map(({ outcome, count }) => {
+        const share =
+          this.logs.length > 0 ? (count / this.logs.length) * 100 : 0
+        return `
+        <tr>
+            <td data-zh="${OUTCOME_LABELS[outcome].zh}" data-en="${
+          OUTCOME_LABELS[outcome].en
+        }">${OUTCOME_LABELS[outcome].zh}</td>
+            <td>${count}</td>
+            <td>${share.toFixed(1)}%</td>
         </tr>
         `
       })
       .join('')
   }
 
+  // 旧的 metrics 文件没有 outcomeCounts
+  private getMetricOutcomeCount(
+    metric: RelayerPerformanceMetrics,
+    outcome: RelayOutcome
+  ): number {
+    return metric.outcomeCounts?.[outcome] || 0
+  }
+
+  private getMetricTimeoutCount(metric: RelayerPerformanceMetrics): number {
+    return (
+      this.getMetricOutcomeCount(metric, 'timed-out') +
+      this.getMetricOutcomeCount(metric, 'timeout-relayed')
+    )
+  }
+
   private generateMetricsRows(): string {
     return this.metrics
       .sort((a, b) => b.successRate - a.successRate)
@@ -544,12 +1075,18 @@ ${this.generateRecommendations()}
 
         return `
         <tr>
-            <td><strong>${metric.validatorMoniker}</strong></td>
+            <td><strong>${
+              metric.validatorMoniker
+            }</strong>${this.unattributedTag(metric)}</td>
             <td>${metric.totalTests}</td>
             <td>${metric.successfulRelays}</td>
+            <td>${this.getMetricOutcomeCount(metric, 'acked-error')}</td>
+            <td>${this.getMetricTimeoutCount(metric)}</td>
+            <td>${this.getMetricOutcomeCount(metric, 'pending')}</td>
             <td>${metric.successRate.toFixed(1)}%</td>
             <td>${metric.averageLatency.toFixed(0)}ms</td>
             <td>${metric.maxLatency.toFixed(0)}ms</td>
+            <td>${this.formatLatency(metric.averageRoundTripLatency)}</td>
             <td>${metric.continuousFailures}</td>
             <td data-zh="${statusEmoji} ${statusTextZh}" data-en="${statusEmoji} ${statusTextEn}">${statusEmoji} ${statusTextZh}</td>
         </tr>
@@ -558,6 +1095,277 @@ ${this.generateRecommendations()}
       .join('')
   }
 
+  private generateIdentityAnomalyRows(): string {
+    return this.identityAnomalies
+      .map((anomaly) => {
+        const label = IDENTITY_ANOMALY_LABELS[anomaly.type]
+        return `
+        <tr>
+            <td class="status-failed" data-zh="${label.zh}" data-en="${
+          label.en
+        }">${label.zh}</td>
+            <td>${anomaly.moniker || '-'}</td>
+            <td>${anomaly.signer || '-'}</td>
+            <td>${anomaly.related.join(', ') || '-'}</td>
+            <td>${anomaly.count}</td>
+            <td>${new Date(anomaly.lastSeen).toLocaleString('zh-CN')}</td>
+        </tr>
+        `
+      })
+      .join('')
+  }
+
+  private generateMarkdownIdentityAnomalies(): string {
+    if (this.identityAnomalies.length === 0) {
+      return '✅ 未发现 memo 与签名者不一致的情况'
+    }
+
+    return `| 类型 | Memo Moniker | Signer地址 | 相关 | 次数 | 最近出现 |
+|------|--------------|------------|------|------|----------|
+${this.identityAnomalies
+  .map(
+    (anomaly) =>
+      `| ${IDENTITY_ANOMALY_LABELS[anomaly.type].zh} | ${
+        anomaly.moniker || '-'
+      } | ${anomaly.signer || '-'} | ${anomaly.related.join(', ') || '-'} | ${
+        anomaly.count
+      } | ${new Date(anomaly.lastSeen).toLocaleString('zh-CN')} |`
+  )
+  .join('\n')}`
+  }
+
+  private generateRelayRaceRows(): string {
+    return this.relayRaces
+      .map(
+        (race) => `
+        <tr>
+            <td><strong>${race.relayer}</strong></td>
+            <td>${race.won}</td>
+            <td>${race.attempted}</td>
+            <td class="${race.redundant > 0 ? 'status-failed' : ''}">${
+          race.redundant
+        }</td>
+            <td>${race.winRate.toFixed(1)}%</td>
+            <td>${race.wastedGas}</td>
+            <td>${race.signers.join(', ') || '-'}</td>
+        </tr>
+        `
+      )
+      .join('')
+  }
+
+  // 超时场景中各 relayer 提交的 MsgTimeout，以及超时 / 错误 ack 后的退款核对
+  private generateMarkdownTimeouts(): string {
+    const scenarioLogs = this.logs.filter(
+      (log) => log.scenario === 'timeout' && log.packetSequence > 0
+    )
+    const refunds = this.logs.filter((log) => log.refund)
+    if (scenarioLogs.length === 0 && refunds.length === 0) {
+      return '暂无超时场景和退款数据'
+    }
+
+    const relayed = new Map<string, number>()
+    scenarioLogs
+      .filter((log) => log.success)
+      .forEach((log) => {
+        const relayer =
+          log.memoIdentifier?.replace('relayed-by:', '') ||
+          log.relayerSigner ||
+          'Unknown'
+        relayed.set(relayer, (relayed.get(relayer) || 0) + 1)
+      })
+
+    const timeouts =
+      scenarioLogs.length > 0
+        ? `超时场景 packet ${scenarioLogs.length} 个，已提交 MsgTimeout ${
+            scenarioLogs.filter((log) => log.success).length
+          } 个
+
+| Relayer | MsgTimeout 数 |
+|---------|---------------|
+${Array.from(relayed.entries())
+  .sort((a, b) => b[1] - a[1])
+  .map(([relayer, count]) => `| ${relayer} | ${count} |`)
+  .join('\n')}`
+        : '暂无超时场景数据'
+
+    const mismatched = refunds.filter((log) => !log.refund!.refunded)
+    const refundSummary =
+      refunds.length > 0
+        ? `已核对 ${refunds.length} 笔退款，${mismatched.length} 笔不符${
+            mismatched.length > 0
+              ? `：
+
+| Sequence | 结果 | 预期退款 | 实际退款 | 核对方式 | 说明 |
+|----------|------|----------|----------|----------|------|
+${mismatched
+  .map((log) => {
+    const r = log.refund!
+    return `| ${log.packetSequence} | ${
+      OUTCOME_LABELS[getLogOutcome(log)].zh
+    } | ${r.expectedAmount}${r.denom} | ${
+      r.refundedAmount ? `${r.refundedAmount}${r.denom}` : '-'
+    } | ${r.method} | ${r.error || ''} |`
+  })
+  .join('\n')}`
+              : ''
+          }`
+        : '暂无退款核对数据'
+
+    return `### MsgTimeout\n\n${timeouts}\n\n### 退款\n\n${refundSummary}`
+  }
+
+  // 成功 ack 但目标链到账的 denom 或金额与预期不符的 packet
+  private generateMarkdownReceipts(): string {
+    const checked = this.logs.filter((log) => log.receipt)
+    const mismatched = checked.filter((log) => !log.receipt!.verified)
+    if (checked.length === 0) {
+      return '暂无到账核对数据'
+    }
+    if (mismatched.length === 0) {
+      return `已核对 ${
+        checked.length
+      } 个 packet，到账 denom 和金额均符合预期 (${
+        checked[0].receipt!.expectedDenom
+      })`
+    }
+
+    return `已核对 ${checked.length} 个 packet，${mismatched.length} 个不符：
+
+| Sequence | Relayer | 预期 | 实际 | 核对方式 | 说明 |
+|----------|---------|------|------|----------|------|
+${mismatched
+  .map((log) => {
+    const r = log.receipt!
+    return `| ${log.packetSequence} | ${
+      log.memoIdentifier?.replace('relayed-by:', '') ||
+      log.relayerSigner ||
+      'Unknown'
+    } | ${r.expectedAmount}${r.expectedDenom} | ${
+      r.receivedAmount ? `${r.receivedAmount}${r.receivedDenom}` : '-'
+    } | ${r.method} | ${r.error || ''} |`
+  })
+  .join('\n')}`
+  }
+
+  private generateMarkdownCosts(): string {
+    const days = summarizeDailySpend(this.logs)
+    const relayers = this.metrics.filter((m) => m.cost)
+
+    const spend =
+      days.length > 0
+        ? `### 测试钱包每日花费
+
+| 日期 (UTC) | 发送交易 | Gas Used | 手续费 |
+|------------|----------|----------|--------|
+${days
+  .map(
+    (day) =>
+      `| ${day.date} | ${day.transfers} | ${day.gasUsed} | ${this.formatFees(
+        day.fees
+      )} |`
+  )
+  .join('\n')}`
+        : '暂无发送交易的手续费数据'
+
+    const relayerCosts =
+      relayers.length > 0
+        ? `### Relayer 成本效率
+
+| Validator | Relay 交易 | 平均 Gas | 总手续费 | 每次成功 Relay 手续费 |
+|-----------|------------|----------|----------|-----------------------|
+${relayers
+  .map(
+    (m) =>
+      `| ${m.validatorMoniker} | ${m.cost!.relayTxs} | ${
+        m.cost!.averageGasPerRelay
+      } | ${this.formatFees(m.cost!.fees)} | ${
+        this.formatFees(m.cost!.feePerSuccessfulRelay) || 'N/A'
+      } |`
+  )
+  .join('\n')}`
+        : '暂无 relay 交易的手续费数据'
+
+    return `${spend}\n\n${relayerCosts}`
+  }
+
+  private generateMarkdownSoftwareMix(): string {
+    const metrics = this.metrics.filter((m) => m.software)
+    if (metrics.length === 0) {
+      return '暂无 recv 交易指纹数据'
+    }
+
+    return `| Validator | 软件版本 | 平均批量 | 捆绑客户端更新 |
+|-----------|----------|----------|----------------|
+${metrics
+  .map(
+    (m) =>
+      `| ${m.validatorMoniker} | ${this.formatSoftwareVersions(
+        m.software!.versions
+      )} | ${m.software!.averageBatchSize.toFixed(
+        1
+      )} | ${m.software!.clientUpdateRate.toFixed(0)}% |`
+  )
+  .join('\n')}`
+  }
+
+  private generateMarkdownRelayRaces(): string {
+    if (this.relayRaces.length === 0) {
+      return '✅ 未发现重复 relay'
+    }
+
+    return `${countContestedPackets(
+      this.logs
+    )} 个 packet 被多个 relayer 同时提交
+
+| Relayer | 获胜 | 提交 | 重复 | 胜率 | 浪费 Gas |
+|---------|------|------|------|------|----------|
+${this.relayRaces
+  .map(
+    (race) =>
+      `| ${race.relayer} | ${race.won} | ${race.attempted} | ${
+        race.redundant
+      } | ${race.winRate.toFixed(1)}% | ${race.wastedGas} |`
+  )
+  .join('\n')}`
+  }
+
+  // 一笔交易中的多个 packet 是否被一起、按序接收
+  private generateMarkdownMultiMsgBatches(): string {
+    const { batches, relayers } = summarizeMultiMsgBatches(
+      this.logs,
+      (log) =>
+        log.memoIdentifier?.replace('relayed-by:', '') ||
+        log.relayerSigner ||
+        'Unknown'
+    )
+    if (batches.length === 0) {
+      return '暂无多消息批量数据'
+    }
+
+    const counts = BATCH_PATTERNS.map(
+      (pattern) =>
+        `${BATCH_PATTERN_LABELS[pattern].zh} ${
+          batches.filter((batch) => batch.pattern === pattern).length
+        }`
+    ).join('，')
+
+    return `${batches.length} 笔多消息交易：${counts}
+
+| Relayer | 批量数 | Packet 数 | ${BATCH_PATTERNS.map(
+      (pattern) => BATCH_PATTERN_LABELS[pattern].zh
+    ).join(' | ')} |
+|---------|--------|-----------|${BATCH_PATTERNS.map(() => '------').join('|')}|
+${relayers
+  .map(
+    (r) =>
+      `| ${r.relayer} | ${r.batches} | ${r.packets} | ${BATCH_PATTERNS.map(
+        (pattern) => r.patterns[pattern]
+      ).join(' | ')} |`
+  )
+  .join('\n')}`
+  }
+
   private generateMarkdownValidatorRanking(): string {
     return this.metrics
       .sort((a, b) => b.successRate - a.successRate)
@@ -611,6 +1419,37 @@ ${this.generateRecommendations()}
       )
     }
 
+    if (this.identityAnomalies.length > 0) {
+      recommendations.push(
+        `⚠️ **身份异常**: 发现 ${this.identityAnomalies.length} 处 memo moniker 与签名者不一致，相关 relay 不应直接按 memo 计分`
+      )
+    }
+
+    const receiptMismatches = this.logs.filter(
+      (log) => log.receipt && !log.receipt.verified
+    ).length
+    if (receiptMismatches > 0) {
+      recommendations.push(
+        `⚠️ **到账不符**: ${receiptMismatches} 个成功 ack 的 packet 在目标链到账的 denom 或金额与预期不符，需检查通道和 relayer`
+      )
+    }
+
+    const refundMismatches = this.logs.filter(
+      (log) => log.refund && !log.refund.refunded
+    ).length
+    if (refundMismatches > 0) {
+      recommendations.push(
+        `⚠️ **退款不符**: ${refundMismatches} 个超时或错误 ack 的 packet 未足额退款给发送方`
+      )
+    }
+
+    const wastedGas = this.relayRaces.reduce((sum, r) => sum + r.wastedGas, 0)
+    if (wastedGas > 0) {
+      recommendations.push(
+        `💸 **重复 relay**: 竞争 relay 共浪费 ${wastedGas} gas，可协调 relayer 分工或使用 packet 过滤`
+      )
+    }
+
     if (recommendations.length === 0) {
       recommendations.push(
         '✅ **整体表现良好**: 所有 validators 的 relayer 服务运行正常'
@@ -625,8 +1464,15 @@ ${this.generateRecommendations()}
       const htmlReport = this.generateHtmlReport()
       const mdReport = this.generateMarkdownReport()
 
-      const htmlPath = join(outputDir, 'ibc-relayer-report.html')
-      const mdPath = join(outputDir, 'ibc-relayer-report.md')
+      const suffix = this.window.range ? `-${this.window.range.label}` : ''
+      const htmlPath = join(
+        outputDir,
+        pathScopedFileName(`ibc-relayer-report${suffix}.html`, this.path?.id)
+      )
+      const mdPath = join(
+        outputDir,
+        pathScopedFileName(`ibc-relayer-report${suffix}.md`, this.path?.id)
+      )
 
       writeFileSync(htmlPath, htmlReport, 'utf-8')
       writeFileSync(mdPath, mdReport, 'utf-8')
@@ -646,10 +1492,30 @@ ${this.generateRecommendations()}
         successfulTests: this.logs.filter((l) => l.success).length,
         successRate: this.calculateOverallSuccessRate(),
         averageLatency: this.calculateAverageLatency(),
+        averageAckLatency: this.calculateAverageLegLatency('ackLatency'),
+        averageRoundTripLatency:
+          this.calculateAverageLegLatency('roundTripLatency'),
         activeValidators: this.metrics.length,
+        outcomes: countOutcomes(this.logs),
+        latencyDistribution: summarizeLatencies(
+          this.getReceivedLogs().map((l) => l.latency)
+        ),
         generatedAt: new Date().toISOString(),
       },
+      path: this.path
+        ? {
+            id: this.path.id,
+            description: this.getPathLabel(),
+            channelId: this.path.channelId,
+            portId: this.path.portId,
+          }
+        : undefined,
+      window: this.window.range,
+      trends: this.window.trends,
       validators: this.metrics.sort((a, b) => b.successRate - a.successRate),
+      identityAnomalies: this.identityAnomalies,
+      relayRaces: this.relayRaces,
+      dailySpend: summarizeDailySpend(this.logs),
       recentLogs: this.logs.slice(-10).reverse(),
     }
   }
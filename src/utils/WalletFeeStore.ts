@@ -0,0 +1,43 @@
+import { appendFileSync, existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { WalletFee } from '../types'
+import { logger } from './logger'
+
+/**
+ * 不对应 packet 日志的测试钱包手续费（账户池充值和回收），按行追加
+ * 所有路径共用一个文件，按源链区分钱包
+ */
+export class WalletFeeStore {
+  private file = join(process.cwd(), 'test-wallet-fees.jsonl')
+
+  record(fee: WalletFee): void {
+    try {
+      appendFileSync(this.file, JSON.stringify(fee) + '\n')
+    } catch (error) {
+      logger.error(`Failed to record wallet fee to ${this.file}:`, error)
+    }
+  }
+
+  list(chainId: string, from?: Date, to?: Date): WalletFee[] {
+    if (!existsSync(this.file)) return []
+
+    return readFileSync(this.file, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .flatMap((line) => {
+        try {
+          const fee: WalletFee = JSON.parse(line)
+          return [{ ...fee, time: new Date(fee.time) }]
+        } catch (error) {
+          logger.debug(`Skipping malformed wallet fee line: ${line}`)
+          return []
+        }
+      })
+      .filter(
+        (fee) =>
+          fee.chainId === chainId &&
+          (!from || fee.time >= from) &&
+          (!to || fee.time <= to)
+      )
+  }
+}
@@ -0,0 +1,93 @@
+import { RelayerAvailability, RelayerTestLog } from '../types'
+import { isSuccessfulRelay } from './packetOutcome'
+import { mean } from './statistics'
+
+/**
+ * 按探测时隙计算每个 relayer 的可用性
+ *   - 只有发送过测试交易的时隙参与统计，没有探测的时隙不算中断
+ *   - activeMonikers 中的 validator 从第一个时隙起就应当参与，
+ *     其余 relayer 从首次成功 relay 的时隙起计入
+ */
+export function computeAvailability(
+  logs: RelayerTestLog[],
+  validatorGroups: Map<string, RelayerTestLog[]>,
+  slotSeconds: number,
+  activeMonikers: string[] = []
+): Map<string, RelayerAvailability> {
+  const slotMs = slotSeconds * 1000
+  const probedSlots = Array.from(
+    new Set(logs.map((log) => slotOf(log.testTime, slotMs)))
+  ).sort((a, b) => a - b)
+
+  const monikers = new Set([...activeMonikers, ...validatorGroups.keys()])
+  const result = new Map<string, RelayerAvailability>()
+
+  monikers.forEach((moniker) => {
+    const relayed = new Set(
+      (validatorGroups.get(moniker) || [])
+        .filter(isSuccessfulRelay)
+        .map((log) => slotOf(log.testTime, slotMs))
+    )
+    const firstRelayed = Math.min(...Array.from(relayed))
+    const eligible = activeMonikers.includes(moniker)
+      ? probedSlots
+      : probedSlots.filter((slot) => slot >= firstRelayed)
+
+    result.set(moniker, summarizeSlots(eligible, relayed, slotMs, slotSeconds))
+  })
+
+  return result
+}
+
+function summarizeSlots(
+  eligible: number[],
+  relayed: Set<number>,
+  slotMs: number,
+  slotSeconds: number
+): RelayerAvailability {
+  const recovered: number[] = []
+  let outages = 0
+  let longestOutageMs = 0
+  let outageStart: number | undefined
+  let relayedSlots = 0
+
+  eligible.forEach((slot) => {
+    if (relayed.has(slot)) {
+      relayedSlots++
+      if (outageStart !== undefined) {
+        const duration = (slot - outageStart) * slotMs
+        recovered.push(duration)
+        longestOutageMs = Math.max(longestOutageMs, duration)
+        outageStart = undefined
+      }
+    } else if (outageStart === undefined) {
+      outageStart = slot
+      outages++
+    }
+  })
+
+  // 尚未恢复的中断计到最后一个时隙结束
+  if (outageStart !== undefined) {
+    longestOutageMs = Math.max(
+      longestOutageMs,
+      (eligible[eligible.length - 1] + 1 - outageStart) * slotMs
+    )
+  }
+
+  return {
+    slotSeconds,
+    eligibleSlots: eligible.length,
+    relayedSlots,
+    participationRate:
+      eligible.length > 0 ? (relayedSlots / eligible.length) * 100 : 0,
+    outages,
+    longestOutageMs,
+    mttrMs: mean(recovered),
+    mtbfMs: outages > 0 ? (relayedSlots * slotMs) / outages : undefined,
+    inOutage: outageStart !== undefined,
+  }
+}
+
+function slotOf(time: Date, slotMs: number): number {
+  return Math.floor(new Date(time).getTime() / slotMs)
+}
@@ -0,0 +1,152 @@
+import {
+  BatchRelayPattern,
+  BatchRelayerStats,
+  MultiMsgBatch,
+  RelayerTestLog,
+} from '../types'
+import { PacketEvent, getAttribute, getLogOutcome } from './packetOutcome'
+
+export const BATCH_PATTERNS: BatchRelayPattern[] = [
+  'together',
+  'in-order',
+  'out-of-order',
+  'partial',
+]
+
+export const BATCH_PATTERN_LABELS: Record<
+  BatchRelayPattern,
+  { zh: string; en: string }
+> = {
+  together: { zh: '同一交易', en: 'Together' },
+  'in-order': { zh: '按序分批', en: 'In order' },
+  'out-of-order': { zh: '乱序', en: 'Out of order' },
+  partial: { zh: '部分接收', en: 'Partial' },
+}
+
+/**
+ * 发送交易中本 channel 的全部 send_packet sequence，按消息顺序
+ */
+export function extractSendSequences(
+  events: readonly PacketEvent[],
+  sourcePort: string,
+  sourceChannel: string
+): number[] {
+  return events
+    .filter(
+      (event) =>
+        event.type === 'send_packet' &&
+        getAttribute(event, 'packet_src_port') === sourcePort &&
+        getAttribute(event, 'packet_src_channel') === sourceChannel
+    )
+    .map((event) => parseInt(getAttribute(event, 'packet_sequence') || '0'))
+    .filter((sequence) => sequence > 0)
+}
+
+function isReceived(log: RelayerTestLog): boolean {
+  const outcome = getLogOutcome(log)
+  return outcome === 'acked-success' || outcome === 'acked-error'
+}
+
+function getRecvTxHash(log: RelayerTestLog): string | undefined {
+  return log.lifecycle?.recv?.txHash || log.targetChainTxHash
+}
+
+/**
+ * 一组 packet 的接收方式；size 为批量中的 packet 总数
+ * 无法区分同一区块中不同交易的先后，只要求 recv 高度随 sequence 不减
+ */
+function classifyBatch(
+  logs: RelayerTestLog[],
+  size: number
+): BatchRelayPattern {
+  const received = logs.filter(isReceived)
+  if (received.length < size) return 'partial'
+
+  const recvTxs = new Set(received.map(getRecvTxHash))
+  if (recvTxs.size === 1) return 'together'
+
+  const heights = [...received]
+    .sort((a, b) => a.packetSequence - b.packetSequence)
+    .map((log) => log.lifecycle?.recv?.height)
+    .filter((height): height is number => height !== undefined)
+  return heights.every((height, i) => i === 0 || height >= heights[i - 1])
+    ? 'in-order'
+    : 'out-of-order'
+}
+
+/**
+ * 按发送交易分组，同一交易中有多个 packet 的即为多消息批量
+ * resolveRelayer 决定 packet 归属到哪个 relayer（moniker 或 signer）
+ */
+export function summarizeMultiMsgBatches(
+  logs: RelayerTestLog[],
+  resolveRelayer: (log: RelayerTestLog) => string
+): { batches: MultiMsgBatch[]; relayers: BatchRelayerStats[] } {
+  const groups = new Map<string, RelayerTestLog[]>()
+  logs
+    .filter((log) => log.packetSequence > 0 && log.txHash)
+    .forEach((log) => {
+      if (!groups.has(log.txHash)) groups.set(log.txHash, [])
+      groups.get(log.txHash)!.push(log)
+    })
+
+  const batches: MultiMsgBatch[] = []
+  const relayers = new Map<string, BatchRelayerStats>()
+
+  groups.forEach((group, txHash) => {
+    if (group.length < 2) return
+
+    const received = group.filter(isReceived)
+    const shares = new Map<string, RelayerTestLog[]>()
+    received.forEach((log) => {
+      const relayer = resolveRelayer(log)
+      if (!shares.has(relayer)) shares.set(relayer, [])
+      shares.get(relayer)!.push(log)
+    })
+    const recvTimes = received
+      .map((log) => log.lifecycle?.recv?.time)
+      .filter((time): time is string => !!time)
+      .map((time) => new Date(time).getTime())
+
+    batches.push({
+      txHash,
+      sendHeight: group[0].sendHeight,
+      sequences: group.map((log) => log.packetSequence).sort((a, b) => a - b),
+      received: received.length,
+      recvTxs: new Set(received.map(getRecvTxHash)).size,
+      pattern: classifyBatch(group, group.length),
+      relayers: Array.from(shares.keys()),
+      recvSpreadMs:
+        recvTimes.length > 0
+          ? Math.max(...recvTimes) - Math.min(...recvTimes)
+          : undefined,
+    })
+
+    shares.forEach((share, relayer) => {
+      if (!relayers.has(relayer)) {
+        relayers.set(relayer, {
+          relayer,
+          batches: 0,
+          packets: 0,
+          patterns: {
+            together: 0,
+            'in-order': 0,
+            'out-of-order': 0,
+            partial: 0,
+          },
+        })
+      }
+      const stats = relayers.get(relayer)!
+      stats.batches++
+      stats.packets += share.length
+      stats.patterns[classifyBatch(share, group.length)]++
+    })
+  })
+
+  return {
+    batches: batches.sort((a, b) => (b.sendHeight || 0) - (a.sendHeight || 0)),
+    relayers: Array.from(relayers.values()).sort(
+      (a, b) => b.packets - a.packets
+    ),
+  }
+}
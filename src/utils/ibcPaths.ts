@@ -0,0 +1,74 @@
+import { IBCPathConfig, RelayerTestConfig } from '../types'
+
+// 未配置 RELAYER_PATHS 时由 CHAIN_B_* / CHANNEL_ID 组成的单一路径
+export const DEFAULT_PATH_ID = 'default'
+
+/**
+ * 按路径区分输出文件名，默认路径保持原有文件名以兼容已有数据
+ * 例如 relayer-test-logs.json -> relayer-test-logs.osmosis.json
+ */
+export function pathScopedFileName(fileName: string, pathId?: string): string {
+  if (!pathId || pathId === DEFAULT_PATH_ID) {
+    return fileName
+  }
+
+  const safeId = pathId.replace(/[^a-zA-Z0-9_.-]/g, '_')
+  const dotIndex = fileName.lastIndexOf('.')
+  if (dotIndex === -1) {
+    return `${fileName}.${safeId}`
+  }
+  return `${fileName.slice(0, dotIndex)}.${safeId}${fileName.slice(dotIndex)}`
+}
+
+/**
+ * 路径的可读描述，用于日志和报告标题
+ */
+export function describePath(path: IBCPathConfig): string {
+  if (!path.channelId && path.reverseOf) {
+    return `${path.source.chainId} → ${path.destination.chainId} (reverse of ${path.reverseOf})`
+  }
+  return `${path.source.chainId} ${path.portId}/${path.channelId} → ${path.destination.chainId}`
+}
+
+/**
+ * 反向路径：从目标链把正向转账收到的 voucher 转回源链
+ * channel、denom 和 receiver 依赖链上状态，留空由 IBCRelayerTest 连接后解析
+ */
+export function reversePath(path: IBCPathConfig): IBCPathConfig {
+  return {
+    id: `${path.id}-reverse`,
+    source: path.destination,
+    destination: path.source,
+    portId: '',
+    channelId: '',
+    receiver: '',
+    denom: '',
+    amount: path.amount,
+    timeout: path.timeout,
+    reverseOf: path.id,
+  }
+}
+
+/**
+ * 按ID选择要测试的路径（包括其反向路径），不指定时返回全部路径
+ */
+export function selectPaths(
+  config: RelayerTestConfig,
+  pathId?: string
+): IBCPathConfig[] {
+  if (!pathId) {
+    return config.paths
+  }
+
+  const paths = config.paths.filter(
+    (p) => p.id === pathId || p.reverseOf === pathId
+  )
+  if (paths.length === 0) {
+    throw new Error(
+      `Unknown path: ${pathId} (available: ${config.paths
+        .map((p) => p.id)
+        .join(', ')})`
+    )
+  }
+  return paths
+}
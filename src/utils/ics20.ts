@@ -0,0 +1,97 @@
+import { sha256 } from '@cosmjs/crypto'
+import { toHex, toUtf8 } from '@cosmjs/encoding'
+import { PacketEvent, getAttribute } from './packetOutcome'
+
+/**
+ * ICS-20 voucher denom：ibc/ + sha256(完整 trace 路径) 的大写十六进制
+ */
+export function ibcDenom(fullDenomPath: string): string {
+  return `ibc/${toHex(sha256(toUtf8(fullDenomPath))).toUpperCase()}`
+}
+
+/**
+ * 目标链收到的 denom
+ *   - packet denom 以源端 port/channel 开头：代币回到来源链，去掉该前缀
+ *   - 否则在前面加上目标端 port/channel，生成新的 voucher
+ * 去掉前缀后没有剩余路径时就是原生 denom
+ */
+export function receiveDenom(
+  packetDenom: string,
+  sourcePort: string,
+  sourceChannel: string,
+  destPort: string,
+  destChannel: string
+): string {
+  const sourcePrefix = `${sourcePort}/${sourceChannel}/`
+  const path = packetDenom.startsWith(sourcePrefix)
+    ? packetDenom.slice(sourcePrefix.length)
+    : `${destPort}/${destChannel}/${packetDenom}`
+
+  return isTracePath(path) ? ibcDenom(path) : path
+}
+
+// "transfer/channel-0/uatom" 是 trace 路径，"uatom" / "factory/..." 是原生 denom
+function isTracePath(denom: string): boolean {
+  return /^[^/]+\/channel-\d+\//.test(denom)
+}
+
+/**
+ * 解析 "1000ibc/ABC...,5uatom" 形式的金额
+ */
+export function parseCoins(value: string): { amount: string; denom: string }[] {
+  return value
+    .split(',')
+    .map((coin) => coin.trim().match(/^(\d+)([a-zA-Z][\w/:.-]*)$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map((match) => ({ amount: match[1], denom: match[2] }))
+}
+
+/**
+ * recv 交易中 receiver 收到的各 denom 金额（bank coin_received 事件）
+ * 同一事件中 receiver / amount 属性成对出现
+ */
+export function getReceivedCoins(
+  events: readonly PacketEvent[],
+  receiver: string
+): Record<string, string> {
+  const received: Record<string, string> = {}
+
+  events
+    .filter((event) => event.type === 'coin_received')
+    .forEach((event) => {
+      let current: string | undefined
+      ;(event.attributes || []).forEach((attr) => {
+        if (attr.key === 'receiver') {
+          current = attr.value
+        } else if (attr.key === 'amount' && current === receiver) {
+          parseCoins(attr.value).forEach((coin) => {
+            received[coin.denom] = (
+              BigInt(received[coin.denom] || '0') + BigInt(coin.amount)
+            ).toString()
+          })
+        }
+      })
+    })
+
+  return received
+}
+
+/**
+ * transfer 模块的 fungible_token_packet 事件：packet 数据及目标链处理结果
+ * 批量 relay 的交易中每个 packet 各有一个
+ */
+export function getFungibleTokenPackets(events: readonly PacketEvent[]): {
+  receiver?: string
+  denom?: string
+  amount?: string
+  success: boolean
+}[] {
+  return events
+    .filter((event) => event.type === 'fungible_token_packet')
+    .map((event) => ({
+      receiver: getAttribute(event, 'receiver'),
+      denom: getAttribute(event, 'denom'),
+      amount: getAttribute(event, 'amount'),
+      success: getAttribute(event, 'success') !== 'false',
+    }))
+}
@@ -0,0 +1,144 @@
+import {
+  IdentityAnomaly,
+  IdentityAnomalyType,
+  RelayerTestLog,
+  ValidatorInfo,
+} from '../types'
+import { RelayerRegistry } from './RelayerRegistry'
+
+export const IDENTITY_ANOMALY_LABELS: Record<
+  IdentityAnomalyType,
+  { zh: string; en: string }
+> = {
+  'moniker-mismatch': { zh: 'Moniker 与签名者不符', en: 'Moniker mismatch' },
+  'unknown-moniker': { zh: '未知 Moniker', en: 'Unknown moniker' },
+  'signer-multiple-monikers': {
+    zh: '同一签名者多个 Moniker',
+    en: 'Signer uses multiple monikers',
+  },
+  'moniker-multiple-signers': {
+    zh: '同一 Moniker 多个签名者',
+    en: 'Moniker used by multiple signers',
+  },
+}
+
+/**
+ * memo 中 relayed-by: 后的 moniker；Hermes / rly 的默认 memo 等视为没有声明
+ * rly 会在自定义 memo 后追加 " | rly(v2.5.2)"，不属于 moniker
+ */
+export function getMemoMoniker(log: RelayerTestLog): string | undefined {
+  return (
+    log.memoIdentifier?.match(/^relayed-by:(.+?)(?:\s*\|.*)?$/)?.[1].trim() ||
+    undefined
+  )
+}
+
+/**
+ * 交叉比对 memo 中声明的 moniker 与 recv 交易的实际 signer
+ * registry 中已验证的绑定视为可信；没有绑定时只能发现 moniker/signer 的多对多关系
+ */
+export function detectIdentityAnomalies(
+  logs: RelayerTestLog[],
+  validators: ValidatorInfo[],
+  registry?: RelayerRegistry
+): IdentityAnomaly[] {
+  const knownMonikers = new Set(validators.map((v) => v.moniker))
+  const anomalies = new Map<string, IdentityAnomaly>()
+  const monikersBySigner = new Map<string, Set<string>>()
+  const signersByMoniker = new Map<string, Set<string>>()
+  const declaredOwners = new Map<string, string>()
+  validators.forEach((v) =>
+    v.relayerAddresses.forEach((address) =>
+      declaredOwners.set(address, v.moniker)
+    )
+  )
+
+  // 异常计入的 validator：登记了绑定时为 signer 已验证绑定的 moniker（未验证时为 signer 地址），
+  // 不能计入 memo 中声明的 moniker，否则任何人都能冒用 moniker 拉低他人得分；
+  // 没有登记绑定时日志按 memo 归属，优先 validator 声明的 relayer 地址，否则为声明的 moniker
+  const ownerOf = (log: RelayerTestLog, signer?: string) =>
+    registry?.hasBindings()
+      ? registry.resolve(signer)?.moniker || signer
+      : (signer && declaredOwners.get(signer)) || getMemoMoniker(log) || signer
+
+  const record = (
+    type: IdentityAnomalyType,
+    log: RelayerTestLog,
+    moniker?: string,
+    signer?: string,
+    related: string[] = []
+  ) => {
+    const owner = ownerOf(log, signer)
+    const key = `${type}/${moniker || ''}/${signer || ''}/${owner || ''}`
+    const anomaly = anomalies.get(key)
+    if (!anomaly) {
+      anomalies.set(key, {
+        type,
+        moniker,
+        signer,
+        related,
+        owner,
+        count: 1,
+        packetSequences: [log.packetSequence],
+        firstSeen: log.testTime,
+        lastSeen: log.testTime,
+      })
+      return
+    }
+
+    anomaly.count++
+    anomaly.packetSequences.push(log.packetSequence)
+    if (log.testTime < anomaly.firstSeen) anomaly.firstSeen = log.testTime
+    if (log.testTime > anomaly.lastSeen) anomaly.lastSeen = log.testTime
+  }
+
+  logs.forEach((log) => {
+    const moniker = getMemoMoniker(log)
+    const signer = log.relayerSigner
+    if (!moniker) return
+
+    if (!knownMonikers.has(moniker)) {
+      record('unknown-moniker', log, moniker, signer)
+    }
+    if (!signer) return
+
+    const binding = registry?.resolve(signer)
+    if (binding && binding.moniker !== moniker) {
+      record('moniker-mismatch', log, moniker, signer, [binding.moniker])
+    }
+
+    if (!monikersBySigner.has(signer)) monikersBySigner.set(signer, new Set())
+    monikersBySigner.get(signer)!.add(moniker)
+    if (!signersByMoniker.has(moniker)) signersByMoniker.set(moniker, new Set())
+    signersByMoniker.get(moniker)!.add(signer)
+  })
+
+  // 多对多关系需要看完所有日志后才能判断，再逐条归入异常
+  logs.forEach((log) => {
+    const moniker = getMemoMoniker(log)
+    const signer = log.relayerSigner
+    if (!moniker || !signer) return
+
+    const monikers = Array.from(monikersBySigner.get(signer)!)
+    if (monikers.length > 1) {
+      record(
+        'signer-multiple-monikers',
+        log,
+        undefined,
+        signer,
+        monikers.sort()
+      )
+    }
+
+    // 同一 validator 可以有多个已验证的 relayer 地址
+    const signers = Array.from(signersByMoniker.get(moniker)!)
+    const unverified = signers.filter(
+      (s) => registry?.resolve(s)?.moniker !== moniker
+    )
+    if (signers.length > 1 && unverified.includes(signer)) {
+      record('moniker-multiple-signers', log, moniker, signer, signers.sort())
+    }
+  })
+
+  return Array.from(anomalies.values()).sort((a, b) => b.count - a.count)
+}
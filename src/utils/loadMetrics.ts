@@ -0,0 +1,182 @@
+import {
+  LoadProfile,
+  LoadSample,
+  LoadTestSummary,
+  RelayerLoadStats,
+  RelayerTestLog,
+} from '../types'
+import { getLogOutcome } from './packetOutcome'
+import { max, percentile } from './statistics'
+
+// relayer 的中位数延迟达到最低负载时的这个倍数即视为饱和
+export const LOAD_SATURATION_FACTOR = 2
+
+// 负载测试中的一个 packet：计划 / 实际提交时间 (ms) 及最终日志
+export interface LoadPacket {
+  plannedAt: number
+  sentAt: number
+  log: RelayerTestLog
+}
+
+/**
+ * 目标链接收 packet 的时间：优先取 recv 交易的区块时间
+ */
+function getRecvTime(packet: LoadPacket): number | undefined {
+  const outcome = getLogOutcome(packet.log)
+  if (outcome !== 'acked-success' && outcome !== 'acked-error') {
+    return undefined
+  }
+  const recv = packet.log.lifecycle?.recv
+  return recv
+    ? new Date(recv.time).getTime()
+    : packet.sentAt + packet.log.latency
+}
+
+function getTimeoutTime(packet: LoadPacket): number | undefined {
+  const timeout = packet.log.lifecycle?.timeout
+  return timeout ? new Date(timeout.time).getTime() : undefined
+}
+
+/**
+ * 汇总一次开环负载测试：按区间统计提交 / relay 速率和积压，
+ * 以及每个 relayer 的峰值 relay 速率和延迟开始恶化时的提交速率（饱和点）
+ * resolveRelayer 决定 packet 归属到哪个 relayer（moniker 或 signer）
+ */
+export function summarizeLoadTest(
+  pathId: string,
+  profile: LoadProfile,
+  startTime: number,
+  packets: LoadPacket[],
+  resolveRelayer: (log: RelayerTestLog) => string
+): LoadTestSummary {
+  const submitted = packets.filter((p) => p.log.packetSequence > 0)
+  const recvTimes = submitted.map(getRecvTime)
+  const received = recvTimes.filter((t): t is number => t !== undefined)
+  const timeoutTimes = submitted
+    .map(getTimeoutTime)
+    .filter((t): t is number => t !== undefined)
+
+  const endTime = max(
+    [startTime].concat(
+      packets.map((p) => p.sentAt),
+      received,
+      timeoutTimes
+    )
+  )!
+  const sampleMs = profile.sampleSeconds * 1000
+  const bucketOf = (time: number) =>
+    Math.max(0, Math.floor((time - startTime) / sampleMs))
+  const bucketCount = bucketOf(endTime) + 1
+
+  const offered = new Array<number>(bucketCount).fill(0)
+  const relayed = new Array<number>(bucketCount).fill(0)
+  submitted.forEach((p) => offered[bucketOf(p.sentAt)]++)
+  received.forEach((t) => relayed[bucketOf(t)]++)
+
+  const samples: LoadSample[] = offered.map((count, i) => {
+    const bucketEnd = startTime + (i + 1) * sampleMs
+    const countUntil = (times: number[]) =>
+      times.filter((t) => t < bucketEnd).length
+    return {
+      time: new Date(startTime + i * sampleMs).toISOString(),
+      offeredRate: count / profile.sampleSeconds,
+      relayedRate: relayed[i] / profile.sampleSeconds,
+      // 已被 relay 超时的 packet 不再计入积压
+      backlog:
+        countUntil(submitted.map((p) => p.sentAt)) -
+        countUntil(received) -
+        countUntil(timeoutTimes),
+    }
+  })
+
+  const lastRecv = max(received)
+  const outcomes = submitted.map((p) => getLogOutcome(p.log))
+
+  return {
+    pathId,
+    profile,
+    startTime: new Date(startTime).toISOString(),
+    endTime: new Date(endTime).toISOString(),
+    submitted: submitted.length,
+    sendFailed: packets.length - submitted.length,
+    relayed: received.length,
+    timedOut: outcomes.filter(
+      (o) => o === 'timed-out' || o === 'timeout-relayed'
+    ).length,
+    pending: outcomes.filter((o) => o === 'pending').length,
+    maxSendLagMs: Math.max(
+      0,
+      max(packets.map((p) => p.sentAt - p.plannedAt)) ?? 0
+    ),
+    relayedPerSecond:
+      lastRecv !== undefined && lastRecv > startTime
+        ? received.length / ((lastRecv - startTime) / 1000)
+        : 0,
+    samples,
+    relayers: summarizeRelayerLoad(
+      submitted,
+      recvTimes,
+      samples,
+      bucketOf,
+      profile.sampleSeconds,
+      resolveRelayer
+    ),
+  }
+}
+
+function summarizeRelayerLoad(
+  submitted: LoadPacket[],
+  recvTimes: (number | undefined)[],
+  samples: LoadSample[],
+  bucketOf: (time: number) => number,
+  sampleSeconds: number,
+  resolveRelayer: (log: RelayerTestLog) => string
+): RelayerLoadStats[] {
+  const relayers = new Map<
+    string,
+    { relayed: number[]; latencies: Map<number, number[]> }
+  >()
+
+  submitted.forEach((packet, i) => {
+    const recvTime = recvTimes[i]
+    if (recvTime === undefined) return
+
+    const relayer = resolveRelayer(packet.log)
+    if (!relayers.has(relayer)) {
+      relayers.set(relayer, {
+        relayed: new Array<number>(samples.length).fill(0),
+        latencies: new Map(),
+      })
+    }
+
+    const entry = relayers.get(relayer)!
+    entry.relayed[bucketOf(recvTime)]++
+    // 延迟按提交所在区间归组，对应当时的提交速率
+    const sendBucket = bucketOf(packet.sentAt)
+    if (!entry.latencies.has(sendBucket)) entry.latencies.set(sendBucket, [])
+    entry.latencies.get(sendBucket)!.push(packet.log.latency)
+  })
+
+  return Array.from(relayers.entries())
+    .map(([relayer, entry]) => {
+      const byRate = Array.from(entry.latencies.entries())
+        .map(([bucket, latencies]) => ({
+          offeredRate: samples[bucket].offeredRate,
+          median: percentile(latencies, 50)!,
+        }))
+        .sort((a, b) => a.offeredRate - b.offeredRate)
+      const baselineLatency = byRate[0]?.median
+      const saturated = byRate.find(
+        (point) => point.median > baselineLatency * LOAD_SATURATION_FACTOR
+      )
+
+      return {
+        relayer,
+        relayed: entry.relayed.reduce((sum, count) => sum + count, 0),
+        peakRelayedRate: (max(entry.relayed) ?? 0) / sampleSeconds,
+        baselineLatency,
+        saturationRate: saturated?.offeredRate,
+      }
+    })
+    .sort((a, b) => b.relayed - a.relayed)
+}
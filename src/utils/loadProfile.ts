@@ -0,0 +1,62 @@
+import { LoadProfile, LoadProfileMode } from '../types'
+
+export const LOAD_PROFILE_MODES: LoadProfileMode[] = [
+  'constant',
+  'ramp',
+  'step',
+  'burst',
+]
+
+/**
+ * 负载开始后第 t 秒的目标速率 (packet/秒)
+ */
+export function rateAt(profile: LoadProfile, t: number): number {
+  const { rate, peakRate, durationSeconds, stepSeconds } = profile
+
+  switch (profile.mode) {
+    case 'ramp':
+      return rate + ((peakRate - rate) * t) / durationSeconds
+    case 'step': {
+      const steps = Math.max(1, Math.ceil(durationSeconds / stepSeconds))
+      if (steps === 1) return rate
+      const level = Math.min(steps - 1, Math.floor(t / stepSeconds))
+      return rate + ((peakRate - rate) * level) / (steps - 1)
+    }
+    case 'burst':
+      return t % stepSeconds < profile.burstSeconds ? peakRate : rate
+    default:
+      return rate
+  }
+}
+
+/**
+ * 负载过程中的最高目标速率 (packet/秒)
+ */
+export function maxRateOf(profile: LoadProfile): number {
+  return profile.mode === 'constant'
+    ? profile.rate
+    : Math.max(profile.rate, profile.peakRate)
+}
+
+// loadSchedule 积分的时间步长 (ms)
+const SCHEDULE_STEP_MS = 10
+
+/**
+ * 各 packet 相对负载开始的计划提交时间 (ms)
+ * 目标速率按时间积分，累计期望数每超过一个整数安排一个 packet；
+ * 不按当前速率的倒数取间隔，否则从 0 开始的 ramp 会被起始的极低速率拖住
+ */
+export function loadSchedule(profile: LoadProfile): number[] {
+  const end = profile.durationSeconds * 1000
+  const schedule: number[] = []
+
+  let expected = 0
+  for (let t = 0; t < end; t += SCHEDULE_STEP_MS) {
+    expected += (rateAt(profile, t / 1000) * SCHEDULE_STEP_MS) / 1000
+    // 容差避免浮点累加误差把整数边界推迟一个步长
+    while (schedule.length < expected - 1e-6) {
+      schedule.push(t)
+    }
+  }
+  return schedule
+}
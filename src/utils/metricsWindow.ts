@@ -0,0 +1,203 @@
+import { LogQuery } from '../storage'
+import { MetricsWindow, WindowBucket, WindowUnit } from '../types'
+
+const HOUR_MS = 60 * 60 * 1000
+const UNIT_MS: Record<WindowUnit, number> = {
+  hourly: HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+}
+// Unix 纪元是周四，按周聚合时从周一 00:00 UTC 开始
+const WEEK_OFFSET_MS = 4 * 24 * HOUR_MS
+
+// 未指定范围起点时，趋势包含截至所选窗口的最近若干桶
+const TREND_BUCKETS = 30
+const MAX_TREND_BUCKETS = 500
+
+export interface WindowOptions {
+  from?: string
+  to?: string
+  window?: string // hourly | daily | weekly | epoch:<blocks>[:<index>]
+}
+
+export interface ResolvedWindow {
+  range: MetricsWindow
+  bucket: WindowBucket
+  // 用户显式给出了 --from，趋势只覆盖该范围
+  explicitStart: boolean
+}
+
+// 日志中最新的测试时间和发送高度，用于确定默认窗口
+export interface LatestLogPosition {
+  time?: Date
+  height?: number
+}
+
+/**
+ * 解析 --from/--to/--window，没有任何选项时返回 undefined（聚合全部日志）
+ *   --window daily            包含 --to（默认当前时间）的自然日
+ *   --from ... --to ...       自定义时间范围，--window 只决定趋势的分桶
+ *   --window epoch:10000      最新发送高度所在的 10000 区块 epoch
+ *   --window epoch:10000:42   第 42 个 epoch（高度 420000-429999）
+ */
+export function resolveMetricsWindow(
+  options: WindowOptions,
+  latest: LatestLogPosition
+): ResolvedWindow | undefined {
+  if (!options.from && !options.to && !options.window) return undefined
+
+  const epochMatch = options.window?.match(/^epoch:(\d+)(?::(\d+))?$/)
+  if (epochMatch) {
+    if (options.from || options.to) {
+      throw new Error('--from/--to cannot be combined with epoch windows')
+    }
+    const blocks = parseInt(epochMatch[1])
+    if (blocks <= 0) throw new Error('Epoch length must be positive')
+
+    let index: number
+    if (epochMatch[2] !== undefined) {
+      index = parseInt(epochMatch[2])
+    } else if (latest.height !== undefined) {
+      index = Math.floor(latest.height / blocks)
+    } else {
+      throw new Error('No logs with a send height, cannot pick an epoch')
+    }
+
+    return {
+      range: epochWindow(blocks, index),
+      bucket: { epochBlocks: blocks },
+      explicitStart: false,
+    }
+  }
+
+  const unit = options.window ? parseWindowUnit(options.window) : undefined
+  const from = options.from ? parseTime(options.from, '--from') : undefined
+  const to = options.to ? parseTime(options.to, '--to') : undefined
+
+  if (unit && !from) {
+    // 所选时间点所在的整窗口
+    const start = alignTime((to || new Date()).getTime(), unit)
+    return {
+      range: timeWindow(unit, start),
+      bucket: { unit },
+      explicitStart: false,
+    }
+  }
+
+  return {
+    range: {
+      label: `${formatLabelTime(from)}_${formatLabelTime(to)}`,
+      from,
+      to,
+    },
+    bucket: { unit: unit || 'daily' },
+    explicitStart: !!from,
+  }
+}
+
+/**
+ * 趋势的分桶窗口，按时间 / 高度升序
+ */
+export function getTrendWindows(
+  resolved: ResolvedWindow | undefined,
+  latest: LatestLogPosition
+): MetricsWindow[] {
+  const bucket = resolved?.bucket || { unit: 'daily' as WindowUnit }
+
+  if ('epochBlocks' in bucket) {
+    const blocks = bucket.epochBlocks
+    const lastIndex = Math.floor(resolved!.range.fromHeight! / blocks)
+    const firstIndex = Math.max(0, lastIndex - TREND_BUCKETS + 1)
+    const windows: MetricsWindow[] = []
+    for (let index = firstIndex; index <= lastIndex; index++) {
+      windows.push(epochWindow(blocks, index))
+    }
+    return windows
+  }
+
+  const unitMs = UNIT_MS[bucket.unit]
+  const end = resolved?.range.to || latest.time
+  if (!end) return []
+
+  const lastStart = alignTime(end.getTime(), bucket.unit)
+  let firstStart =
+    resolved?.explicitStart && resolved.range.from
+      ? alignTime(resolved.range.from.getTime(), bucket.unit)
+      : lastStart - (TREND_BUCKETS - 1) * unitMs
+  firstStart = Math.max(
+    firstStart,
+    lastStart - (MAX_TREND_BUCKETS - 1) * unitMs
+  )
+
+  const windows: MetricsWindow[] = []
+  for (let start = firstStart; start <= lastStart; start += unitMs) {
+    windows.push(timeWindow(bucket.unit, start))
+  }
+
+  // 首尾桶裁剪到所选范围
+  if (resolved?.explicitStart && resolved.range.from) {
+    windows[0].from = resolved.range.from
+  }
+  if (resolved?.range.to && windows.length > 0) {
+    windows[windows.length - 1].to = resolved.range.to
+  }
+  return windows
+}
+
+export function windowToQuery(window?: MetricsWindow): LogQuery {
+  if (!window) return {}
+  return {
+    from: window.from,
+    to: window.to,
+    fromHeight: window.fromHeight,
+    toHeight: window.toHeight,
+  }
+}
+
+function parseWindowUnit(window: string): WindowUnit {
+  if (window in UNIT_MS) return window as WindowUnit
+  throw new Error(
+    `Invalid window "${window}", expected hourly, daily, weekly or epoch:<blocks>[:<index>]`
+  )
+}
+
+function parseTime(value: string, option: string): Date {
+  const time = new Date(value)
+  if (isNaN(time.getTime())) {
+    throw new Error(`${option} must be a valid ISO time`)
+  }
+  return time
+}
+
+function alignTime(time: number, unit: WindowUnit): number {
+  const offset = unit === 'weekly' ? WEEK_OFFSET_MS : 0
+  return Math.floor((time - offset) / UNIT_MS[unit]) * UNIT_MS[unit] + offset
+}
+
+function timeWindow(unit: WindowUnit, start: number): MetricsWindow {
+  const from = new Date(start)
+  return {
+    label: `${unit}-${
+      unit === 'hourly'
+        ? from.toISOString().slice(0, 13)
+        : from.toISOString().slice(0, 10)
+    }`,
+    from,
+    to: new Date(start + UNIT_MS[unit] - 1),
+  }
+}
+
+function epochWindow(blocks: number, index: number): MetricsWindow {
+  return {
+    label: `epoch-${blocks}-${index}`,
+    fromHeight: index * blocks,
+    toHeight: (index + 1) * blocks - 1,
+  }
+}
+
+// 用于文件名的时间：2026-10-19，不在整天时为 2026-10-19T08
+function formatLabelTime(time?: Date): string {
+  if (!time) return 'all'
+  const iso = time.toISOString()
+  return iso.slice(11, 19) !== '00:00:00' ? iso.slice(0, 13) : iso.slice(0, 10)
+}
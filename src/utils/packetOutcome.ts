@@ -0,0 +1,199 @@
+import { fromHex } from '@cosmjs/encoding'
+import { RelayOutcome, RelayScenario, RelayerTestLog } from '../types'
+
+// 事件结构兼容 cosmjs 的 Event 和 RPC tx_search 返回的原始JSON
+export interface PacketEvent {
+  type: string
+  attributes?: readonly { key: string; value: string }[]
+}
+
+// ICS-04 标准 acknowledgement: {"result": "<base64>"} 或 {"error": "..."}
+export interface DecodedAcknowledgement {
+  success: boolean
+  result?: string
+  error?: string
+}
+
+export const RELAY_OUTCOMES: RelayOutcome[] = [
+  'acked-success',
+  'acked-error',
+  'timed-out',
+  'timeout-relayed',
+  'pending',
+  'send-failed',
+]
+
+export const OUTCOME_LABELS: Record<RelayOutcome, { zh: string; en: string }> =
+  {
+    'acked-success': { zh: '✅ 成功', en: '✅ Success' },
+    'acked-error': { zh: '⚠️ 错误Ack', en: '⚠️ Error Ack' },
+    'timed-out': { zh: '⏰ 已超时', en: '⏰ Timed Out' },
+    'timeout-relayed': { zh: '↩️ 超时已回传', en: '↩️ Timeout Relayed' },
+    pending: { zh: '⏳ 未完成', en: '⏳ Pending' },
+    'send-failed': { zh: '❌ 发送失败', en: '❌ Send Failed' },
+  }
+
+export function getAttribute(
+  event: PacketEvent,
+  key: string
+): string | undefined {
+  return event.attributes?.find((attr) => attr.key === key)?.value
+}
+
+/**
+ * 在交易事件中查找指定packet的事件 (recv_packet / write_acknowledgement / timeout_packet ...)
+ */
+export function findPacketEvent(
+  events: readonly PacketEvent[],
+  eventType: string,
+  sourceChannel: string,
+  sequence: number
+): PacketEvent | undefined {
+  return events.find(
+    (event) =>
+      event.type === eventType &&
+      getAttribute(event, 'packet_sequence') === sequence.toString() &&
+      getAttribute(event, 'packet_src_channel') === sourceChannel
+  )
+}
+
+/**
+ * 从目标链接收交易的 write_acknowledgement 事件中解码ack
+ */
+export function extractAcknowledgement(
+  events: readonly PacketEvent[],
+  sourceChannel: string,
+  sequence: number
+): DecodedAcknowledgement | null {
+  const event = findPacketEvent(
+    events,
+    'write_acknowledgement',
+    sourceChannel,
+    sequence
+  )
+  if (!event) return null
+
+  // packet_ack_hex 是原始字节，优先使用
+  const ackHex = getAttribute(event, 'packet_ack_hex')
+  if (ackHex) {
+    try {
+      return decodeAcknowledgement(fromHex(ackHex))
+    } catch (error) {
+      // 回退到 packet_ack
+    }
+  }
+
+  const ack = getAttribute(event, 'packet_ack')
+  return ack ? decodeAcknowledgement(ack) : null
+}
+
+/**
+ * 根据ack内容得到packet结果
+ */
+export function outcomeFromAcknowledgement(
+  ack: DecodedAcknowledgement | null
+): { outcome: RelayOutcome; ackError?: string } {
+  if (!ack) {
+    // 收到了packet但没找到ack事件（例如异步ack），结果待 ack 查询或补写确定
+    return { outcome: 'pending' }
+  }
+  return ack.success
+    ? { outcome: 'acked-success' }
+    : { outcome: 'acked-error', ackError: ack.error }
+}
+
+/**
+ * 是否为最终结果：timed-out 之后仍可能被 relay MsgTimeout，pending 仍可能被接收
+ */
+export function isFinalOutcome(outcome?: RelayOutcome): boolean {
+  return (
+    outcome !== undefined && outcome !== 'pending' && outcome !== 'timed-out'
+  )
+}
+
+/**
+ * 非成功结果对应的错误信息，成功时返回 undefined
+ */
+export function describeOutcomeError(
+  outcome: RelayOutcome,
+  ackError?: string
+): string | undefined {
+  switch (outcome) {
+    case 'acked-error':
+      return `Error acknowledgement: ${ackError || 'unknown error'}`
+    case 'timed-out':
+      return 'Packet timed out before being received'
+    case 'timeout-relayed':
+      return 'Packet timed out, timeout relayed back to source chain'
+    case 'pending':
+      return 'Acknowledgement timeout'
+    default:
+      return undefined
+  }
+}
+
+/**
+ * 解码 write_acknowledgement 事件中的 acknowledgement
+ * 支持 packet_ack (JSON字符串) 和 packet_ack_hex 两种属性格式
+ */
+export function decodeAcknowledgement(
+  data: string | Uint8Array
+): DecodedAcknowledgement | null {
+  try {
+    const text =
+      typeof data === 'string' ? data : new TextDecoder().decode(data)
+    const ack = JSON.parse(text)
+
+    if (typeof ack.result === 'string') {
+      return { success: true, result: ack.result }
+    }
+    if (typeof ack.error === 'string') {
+      return { success: false, error: ack.error }
+    }
+    return null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * 获取日志的结果，兼容没有 outcome 字段的旧日志
+ */
+export function getLogOutcome(log: RelayerTestLog): RelayOutcome {
+  if (log.outcome) return log.outcome
+  if (log.success) return 'acked-success'
+  if (log.packetSequence === 0) return 'send-failed'
+  return 'pending'
+}
+
+/**
+ * 是否为测试场景预期的结果：超时场景中 relayer 提交 MsgTimeout 即为成功
+ */
+export function isExpectedOutcome(
+  outcome: RelayOutcome,
+  scenario: RelayScenario = 'relay'
+): boolean {
+  return scenario === 'timeout'
+    ? outcome === 'timeout-relayed'
+    : outcome === 'acked-success'
+}
+
+/**
+ * 计入 relayer 成功次数的日志
+ */
+export function isSuccessfulRelay(log: RelayerTestLog): boolean {
+  return isExpectedOutcome(getLogOutcome(log), log.scenario)
+}
+
+export function countOutcomes(
+  logs: RelayerTestLog[]
+): Record<RelayOutcome, number> {
+  const counts = Object.fromEntries(
+    RELAY_OUTCOMES.map((outcome) => [outcome, 0])
+  ) as Record<RelayOutcome, number>
+
+  logs.forEach((log) => {
+    counts[getLogOutcome(log)]++
+  })
+  return counts
+}
@@ -0,0 +1,55 @@
+import { RelayAttempt, RelayRaceStats, RelayerTestLog } from '../types'
+
+/**
+ * 汇总每个 relayer 在竞争 relay 中的 won / attempted / redundant 次数和浪费的 gas
+ * resolveRelayer 决定一次提交归属到哪个 relayer（已验证绑定的 moniker 或 signer）
+ */
+export function summarizeRelayRaces(
+  logs: RelayerTestLog[],
+  resolveRelayer: (attempt: RelayAttempt) => string
+): RelayRaceStats[] {
+  const stats = new Map<string, RelayRaceStats & { signerSet: Set<string> }>()
+
+  logs.forEach((log) => {
+    log.relayRace?.attempts.forEach((attempt) => {
+      const relayer = resolveRelayer(attempt)
+      if (!stats.has(relayer)) {
+        stats.set(relayer, {
+          relayer,
+          signers: [],
+          signerSet: new Set(),
+          attempted: 0,
+          won: 0,
+          redundant: 0,
+          winRate: 0,
+          wastedGas: 0,
+        })
+      }
+
+      const entry = stats.get(relayer)!
+      if (attempt.signer) entry.signerSet.add(attempt.signer)
+      entry.attempted++
+      if (attempt.won) {
+        entry.won++
+      } else {
+        entry.redundant++
+      }
+      entry.wastedGas += attempt.wastedGas
+    })
+  })
+
+  return Array.from(stats.values())
+    .map(({ signerSet, ...entry }) => ({
+      ...entry,
+      signers: Array.from(signerSet),
+      winRate: (entry.won / entry.attempted) * 100,
+    }))
+    .sort((a, b) => b.attempted - a.attempted)
+}
+
+/**
+ * 有多个提交的 packet 数，即确实发生了竞争
+ */
+export function countContestedPackets(logs: RelayerTestLog[]): number {
+  return logs.filter((log) => (log.relayRace?.attempts.length || 0) > 1).length
+}
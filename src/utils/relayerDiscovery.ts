@@ -0,0 +1,145 @@
+import { DiscoveredRelayer, RelayerTestLog, ValidatorInfo } from '../types'
+import { RelayerRegistry } from './RelayerRegistry'
+
+type RelayerRole = DiscoveredRelayer['roles'][number]
+
+/**
+ * 列出在测试 packet 上出现过的全部 relayer 地址：recv / ack / timeout 的签名者
+ * 以及竞争中失败的重复 relay，按出现的 packet 数排序
+ */
+export function discoverRelayers(
+  logs: RelayerTestLog[],
+  validators: ValidatorInfo[],
+  registry?: RelayerRegistry
+): DiscoveredRelayer[] {
+  const relayers = new Map<
+    string,
+    DiscoveredRelayer & { packetSet: Set<number>; memoSet: Set<string> }
+  >()
+
+  const record = (
+    address: string | undefined,
+    role: RelayerRole,
+    log: RelayerTestLog,
+    memo?: string
+  ) => {
+    if (!address || address === 'unknown') return
+
+    const seen = new Date(log.testTime)
+    if (!relayers.has(address)) {
+      relayers.set(address, {
+        address,
+        roles: [],
+        packets: 0,
+        packetSet: new Set(),
+        memoSet: new Set(),
+        memoVariants: [],
+        firstSeen: seen,
+        lastSeen: seen,
+        verified: false,
+      })
+    }
+
+    const relayer = relayers.get(address)!
+    if (!relayer.roles.includes(role)) relayer.roles.push(role)
+    relayer.packetSet.add(log.packetSequence)
+    if (memo) relayer.memoSet.add(memo)
+    if (seen < relayer.firstSeen) relayer.firstSeen = seen
+    if (seen > relayer.lastSeen) relayer.lastSeen = seen
+  }
+
+  logs.forEach((log) => {
+    record(
+      log.relayerSigner,
+      log.outcome === 'timeout-relayed' ? 'timeout' : 'recv',
+      log,
+      log.memoIdentifier
+    )
+    record(log.lifecycle?.ack?.relayer, 'ack', log, log.lifecycle?.ack?.memo)
+    record(
+      log.lifecycle?.timeout?.relayer,
+      'timeout',
+      log,
+      log.lifecycle?.timeout?.memo
+    )
+    log.relayRace?.attempts
+      .filter((attempt) => !attempt.won)
+      .forEach((attempt) =>
+        record(attempt.signer, 'redundant', log, attempt.memo)
+      )
+  })
+
+  return Array.from(relayers.values())
+    .map(({ packetSet, memoSet, ...relayer }) => ({
+      ...relayer,
+      packets: packetSet.size,
+      memoVariants: Array.from(memoSet),
+      declaredBy: findDeclaringValidator(validators, relayer.address)?.moniker,
+      verified: !!registry?.resolve(relayer.address),
+    }))
+    .sort((a, b) => b.packets - a.packets)
+}
+
+function findDeclaringValidator(
+  validators: ValidatorInfo[],
+  address: string
+): ValidatorInfo | undefined {
+  return validators.find(
+    (v) =>
+      v.relayerAddresses.includes(address) ||
+      v.relayerBindings?.some((b) => b.address === address)
+  )
+}
+
+/**
+ * 把地址登记为 validator 的 relayer，返回新的 validator 列表
+ * 地址已被其他 validator 声明时报错；未知 moniker 需要提供 operator 地址以新建条目
+ */
+export function mapRelayerToValidator(
+  validators: ValidatorInfo[],
+  address: string,
+  moniker: string,
+  options: { operatorAddress?: string; signature?: string; pubKey?: string }
+): ValidatorInfo[] {
+  const declaring = findDeclaringValidator(validators, address)
+  if (declaring && declaring.moniker !== moniker) {
+    throw new Error(`${address} is already declared by ${declaring.moniker}`)
+  }
+
+  const binding = {
+    address,
+    signature: options.signature,
+    pubKey: options.pubKey,
+  }
+  const existing = validators.find((v) => v.moniker === moniker)
+  if (!existing) {
+    if (!options.operatorAddress) {
+      throw new Error(
+        `Unknown validator ${moniker}, pass --operator to add a new entry`
+      )
+    }
+    return [
+      ...validators,
+      {
+        moniker,
+        operatorAddress: options.operatorAddress,
+        relayerAddresses: [],
+        relayerBindings: [binding],
+        isActive: true,
+      },
+    ]
+  }
+
+  return validators.map((v) =>
+    v === existing
+      ? {
+          ...v,
+          relayerAddresses: v.relayerAddresses.filter((a) => a !== address),
+          relayerBindings: [
+            ...(v.relayerBindings || []).filter((b) => b.address !== address),
+            binding,
+          ],
+        }
+      : v
+  )
+}
@@ -0,0 +1,140 @@
+import { decodeTxRaw } from '@cosmjs/proto-signing'
+import { IndexedTx } from '@cosmjs/stargate'
+import {
+  RelayerFingerprint,
+  RelayerSoftware,
+  RelayerSoftwareMix,
+  RelayerTestLog,
+} from '../types'
+import { logger } from './logger'
+import { PacketEvent, getAttribute } from './packetOutcome'
+
+const PACKET_MESSAGE_TYPES = [
+  '/ibc.core.channel.v1.MsgRecvPacket',
+  '/ibc.core.channel.v1.MsgAcknowledgement',
+  '/ibc.core.channel.v1.MsgTimeout',
+  '/ibc.core.channel.v1.MsgTimeoutOnClose',
+]
+const UPDATE_CLIENT_TYPE = '/ibc.core.client.v1.MsgUpdateClient'
+
+// 各实现默认写入的 memo：rly 追加 "rly(v2.5.2)"，Hermes 常见 "hermes 1.10.0" / "Relayed by Hermes"
+const MEMO_PATTERNS: { software: RelayerSoftware; pattern: RegExp }[] = [
+  {
+    software: 'go-relayer',
+    pattern: /\brly\s*\(?\s*(v?\d+\.\d+[\w.+-]*)?\)?/i,
+  },
+  { software: 'hermes', pattern: /\bhermes\b[\s/:@-]*(v?\d+\.\d+[\w.+-]*)?/i },
+  {
+    software: 'ts-relayer',
+    pattern: /\bts-relayer\b[\s/:@-]*(v?\d+\.\d+[\w.+-]*)?/i,
+  },
+]
+
+/**
+ * 识别 relay 交易的 relayer 实现、批量大小以及是否打包了客户端更新
+ */
+export function fingerprintRelayTx(
+  txBytes: Uint8Array
+): RelayerFingerprint | undefined {
+  try {
+    const { body, authInfo } = decodeTxRaw(txBytes)
+    const messageTypes = body.messages.map((msg) => msg.typeUrl)
+    const { software, version } = detectSoftware(body.memo)
+
+    return {
+      software,
+      version,
+      packetMessages: messageTypes.filter((type) =>
+        PACKET_MESSAGE_TYPES.includes(type)
+      ).length,
+      clientUpdate: messageTypes.includes(UPDATE_CLIENT_TYPE),
+      messageTypes: Array.from(new Set(messageTypes)),
+      gasLimit: authInfo.fee ? Number(authInfo.fee.gasLimit) : undefined,
+      fee:
+        authInfo.fee?.amount
+          .map((coin) => `${coin.amount}${coin.denom}`)
+          .join(',') || undefined,
+    }
+  } catch (error) {
+    logger.debug('Failed to fingerprint relay transaction:', error)
+    return undefined
+  }
+}
+
+export function detectSoftware(memo?: string): {
+  software: RelayerSoftware
+  version?: string
+} {
+  for (const { software, pattern } of MEMO_PATTERNS) {
+    const match = memo?.match(pattern)
+    if (match) {
+      return { software, version: match[1] }
+    }
+  }
+  return { software: 'unknown' }
+}
+
+export function describeFingerprint(fingerprint?: RelayerFingerprint): string {
+  if (!fingerprint) return 'unknown'
+  return fingerprint.version
+    ? `${fingerprint.software} ${fingerprint.version}`
+    : fingerprint.software
+}
+
+/**
+ * 交易 memo；没有时取 recv_packet 事件中 packet 数据的 memo
+ */
+export function extractRelayMemo(tx: IndexedTx): string | undefined {
+  try {
+    const memo = decodeTxRaw(tx.tx).body.memo
+    if (memo) return memo
+
+    const events: readonly PacketEvent[] = tx.events
+    for (const event of events) {
+      if (event.type === 'recv_packet') {
+        const packetData = getAttribute(event, 'packet_data')
+        if (packetData) {
+          try {
+            return JSON.parse(packetData).memo
+          } catch (parseError) {
+            // 忽略解析错误
+          }
+        }
+      }
+    }
+
+    return undefined
+  } catch (error) {
+    logger.error('Error extracting memo:', error)
+    return undefined
+  }
+}
+
+/**
+ * 按 recv 交易的指纹汇总软件版本分布、平均批量和捆绑客户端更新的比例
+ */
+export function summarizeSoftwareMix(
+  logs: RelayerTestLog[]
+): RelayerSoftwareMix | undefined {
+  const fingerprints = logs
+    .map((log) => log.lifecycle?.recv?.fingerprint)
+    .filter((f): f is RelayerFingerprint => !!f)
+  if (fingerprints.length === 0) return undefined
+
+  const versions: Record<string, number> = {}
+  fingerprints.forEach((f) => {
+    const label = describeFingerprint(f)
+    versions[label] = (versions[label] || 0) + 1
+  })
+
+  return {
+    versions,
+    averageBatchSize:
+      fingerprints.reduce((sum, f) => sum + f.packetMessages, 0) /
+      fingerprints.length,
+    clientUpdateRate:
+      (fingerprints.filter((f) => f.clientUpdate).length /
+        fingerprints.length) *
+      100,
+  }
+}
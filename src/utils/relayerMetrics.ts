@@ -0,0 +1,109 @@
+import {
+  RelayerAttribution,
+  RelayerAvailability,
+  RelayerPerformanceMetrics,
+  RelayerTestLog,
+} from '../types'
+import {
+  countOutcomes,
+  getLogOutcome,
+  isSuccessfulRelay,
+} from './packetOutcome'
+import { mean, summarizeLatencies } from './statistics'
+import { summarizeSoftwareMix } from './relayerFingerprint'
+import { summarizeRelayCost } from './txCost'
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * 按 validator 分组后的日志计算性能指标
+ * 日志的时间范围由调用方决定（全部日志或某个时间窗口 / epoch）
+ * availability 由 computeAvailability 按探测时隙单独计算
+ */
+export function computeRelayerMetrics(
+  validatorGroups: Map<string, RelayerTestLog[]>,
+  attribution: RelayerAttribution,
+  availability?: Map<string, RelayerAvailability>
+): RelayerPerformanceMetrics[] {
+  const metrics: RelayerPerformanceMetrics[] = []
+
+  validatorGroups.forEach((logs, moniker) => {
+    // 成功的ack（超时场景中为提交 MsgTimeout）计为成功，错误ack和超时分别统计
+    const successful = logs.filter(isSuccessfulRelay)
+    const failed = logs.filter((l) => !isSuccessfulRelay(l))
+    // 延迟只统计被接收的 packet
+    const received = successful.filter(
+      (l) => getLogOutcome(l) === 'acked-success'
+    )
+
+    const ackLatencies = received
+      .map((l) => l.lifecycle?.ackLatency)
+      .filter((l): l is number => l !== undefined)
+    const roundTripLatencies = received
+      .map((l) => l.lifecycle?.roundTripLatency)
+      .filter((l): l is number => l !== undefined)
+
+    const latencyDistribution = summarizeLatencies(
+      received.map((l) => l.latency)
+    )
+
+    metrics.push({
+      validatorMoniker: moniker,
+      totalTests: logs.length,
+      successfulRelays: successful.length,
+      failedRelays: failed.length,
+      averageLatency: latencyDistribution?.mean ?? 0,
+      maxLatency: latencyDistribution?.max ?? 0,
+      minLatency: latencyDistribution?.min ?? 0,
+      successRate: (successful.length / logs.length) * 100,
+      outcomeCounts: countOutcomes(logs),
+      averageAckLatency: mean(ackLatencies),
+      averageRoundTripLatency: mean(roundTripLatencies),
+      latencyDistribution,
+      software: summarizeSoftwareMix(logs),
+      cost: summarizeRelayCost(logs),
+      receiptMismatches: logs.filter((l) => l.receipt && !l.receipt.verified)
+        .length,
+      uptimeHours: calculateUptimeHours(logs),
+      continuousFailures: calculateContinuousFailures(logs),
+      lastActiveTime:
+        logs.length > 0 ? logs[logs.length - 1].testTime : undefined,
+      attribution,
+      relayerAddresses:
+        attribution !== 'memo'
+          ? Array.from(new Set(logs.map((l) => l.relayerSigner!)))
+          : undefined,
+      availability: availability?.get(moniker),
+    })
+  })
+
+  return metrics
+}
+
+export function calculateContinuousFailures(logs: RelayerTestLog[]): number {
+  let maxContinuous = 0
+  let current = 0
+
+  for (const log of logs) {
+    if (!log.success) {
+      current++
+      maxContinuous = Math.max(maxContinuous, current)
+    } else {
+      current = 0
+    }
+  }
+
+  return maxContinuous
+}
+
+/**
+ * 有成功 relay 的自然小时数，而不是首末日志之间的时间跨度
+ */
+export function calculateUptimeHours(logs: RelayerTestLog[]): number {
+  const activeHours = new Set(
+    logs
+      .filter((log) => log.success)
+      .map((log) => Math.floor(new Date(log.testTime).getTime() / HOUR_MS))
+  )
+  return activeHours.size
+}
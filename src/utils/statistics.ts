@@ -0,0 +1,185 @@
+import { HistogramBucket, LatencyDistribution } from '../types'
+
+// 直方图默认分桶上界 (ms)，最后一个桶不设上界
+export const DEFAULT_LATENCY_BUCKETS_MS = [
+  1000, 2000, 5000, 10000, 30000, 60000, 120000, 300000,
+]
+
+export function mean(values: number[]): number | undefined {
+  if (values.length === 0) return undefined
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+/**
+ * 最大值；用 reduce 而不是 Math.max(...values)，样本很多时展开参数会超出引擎限制
+ */
+export function max(values: number[]): number | undefined {
+  if (values.length === 0) return undefined
+  return values.reduce((a, b) => (b > a ? b : a))
+}
+
+/**
+ * 总体标准差
+ */
+export function stddev(values: number[]): number | undefined {
+  const avg = mean(values)
+  if (avg === undefined) return undefined
+  return Math.sqrt(
+    values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / values.length
+  )
+}
+
+/**
+ * 最近秩法：不小于 p% 样本的最小值，结果一定是某个实际样本
+ */
+export function percentile(values: number[], p: number): number | undefined {
+  if (values.length === 0) return undefined
+  return percentileOfSorted(
+    [...values].sort((a, b) => a - b),
+    p
+  )
+}
+
+function percentileOfSorted(sorted: number[], p: number): number {
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)
+  )
+  return sorted[index]
+}
+
+export function histogram(
+  values: number[],
+  bounds: number[] = DEFAULT_LATENCY_BUCKETS_MS
+): HistogramBucket[] {
+  const buckets: HistogramBucket[] = bounds.map((to, i) => ({
+    from: i === 0 ? 0 : bounds[i - 1],
+    to,
+    count: 0,
+  }))
+  buckets.push({ from: bounds[bounds.length - 1], count: 0 })
+
+  values.forEach((value) => {
+    const index = bounds.findIndex((bound) => value <= bound)
+    buckets[index === -1 ? buckets.length - 1 : index].count++
+  })
+  return buckets
+}
+
+/**
+ * 样本的完整分布：均值、标准差、分位数和直方图
+ */
+export function summarizeLatencies(
+  values: number[],
+  bounds: number[] = DEFAULT_LATENCY_BUCKETS_MS
+): LatencyDistribution | undefined {
+  if (values.length === 0) return undefined
+
+  const sorted = [...values].sort((a, b) => a - b)
+  return {
+    count: sorted.length,
+    mean: mean(sorted)!,
+    stddev: stddev(sorted)!,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    p50: percentileOfSorted(sorted, 50),
+    p90: percentileOfSorted(sorted, 90),
+    p95: percentileOfSorted(sorted, 95),
+    p99: percentileOfSorted(sorted, 99),
+    histogram: histogram(sorted, bounds),
+  }
+}
+
+/**
+ * 长时间运行时使用的对数分桶草图，不保存原始样本
+ * 相邻桶边界相差 (1+α)/(1-α) 倍，分位数的相对误差不超过 α
+ */
+export class LatencySketch {
+  private gamma: number
+  private logGamma: number
+  private buckets = new Map<number, number>()
+  private zeroCount = 0
+  private count = 0
+  private min = Infinity
+  private max = -Infinity
+  // Welford 算法累计均值和方差
+  private runningMean = 0
+  private m2 = 0
+
+  constructor(
+    relativeAccuracy = 0.01,
+    private bounds: number[] = DEFAULT_LATENCY_BUCKETS_MS
+  ) {
+    this.gamma = (1 + relativeAccuracy) / (1 - relativeAccuracy)
+    this.logGamma = Math.log(this.gamma)
+  }
+
+  add(value: number): void {
+    this.count++
+    this.min = Math.min(this.min, value)
+    this.max = Math.max(this.max, value)
+    const delta = value - this.runningMean
+    this.runningMean += delta / this.count
+    this.m2 += delta * (value - this.runningMean)
+
+    if (value <= 0) {
+      this.zeroCount++
+      return
+    }
+    const index = Math.ceil(Math.log(value) / this.logGamma)
+    this.buckets.set(index, (this.buckets.get(index) || 0) + 1)
+  }
+
+  getCount(): number {
+    return this.count
+  }
+
+  quantile(p: number): number | undefined {
+    if (this.count === 0) return undefined
+
+    const rank = Math.max(1, Math.ceil((p / 100) * this.count))
+    if (rank <= this.zeroCount) return Math.max(this.min, 0)
+
+    let seen = this.zeroCount
+    const indexes = Array.from(this.buckets.keys()).sort((a, b) => a - b)
+    for (const index of indexes) {
+      seen += this.buckets.get(index)!
+      if (seen >= rank) {
+        // 桶内代表值，限制在实际最小/最大值之间
+        const estimate = (2 * this.gamma ** index) / (this.gamma + 1)
+        return Math.min(this.max, Math.max(this.min, estimate))
+      }
+    }
+    return this.max
+  }
+
+  toDistribution(): LatencyDistribution | undefined {
+    if (this.count === 0) return undefined
+
+    return {
+      count: this.count,
+      mean: this.runningMean,
+      stddev: Math.sqrt(this.m2 / this.count),
+      min: this.min,
+      max: this.max,
+      p50: this.quantile(50)!,
+      p90: this.quantile(90)!,
+      p95: this.quantile(95)!,
+      p99: this.quantile(99)!,
+      histogram: this.toHistogram(),
+      approximate: true,
+    }
+  }
+
+  // 草图桶按代表值归入直方图桶
+  private toHistogram(): HistogramBucket[] {
+    const buckets = histogram([], this.bounds)
+    buckets[0].count += this.zeroCount
+    this.buckets.forEach((count, index) => {
+      const value = (2 * this.gamma ** index) / (this.gamma + 1)
+      const bucket = this.bounds.findIndex((bound) => value <= bound)
+      buckets[bucket === -1 ? buckets.length - 1 : bucket].count += count
+    })
+    return buckets
+  }
+}
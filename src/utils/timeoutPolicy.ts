@@ -0,0 +1,41 @@
+import { IBCHeight, TimeoutPolicy, TimeoutPolicyMode } from '../types'
+
+export const TIMEOUT_POLICY_MODES: TimeoutPolicyMode[] = [
+  'height',
+  'timestamp',
+  'both',
+]
+
+/**
+ * ibc-go 的 revision 格式：chain ID 以 "-{revision}" 结尾（如 osmo-test-5），否则为 0
+ */
+export function parseRevisionNumber(chainId: string): number {
+  const match = chainId.match(/^.*[^\n-]-([1-9][0-9]*)$/)
+  return match ? parseInt(match[1]) : 0
+}
+
+/**
+ * 按超时策略计算 MsgTransfer 的超时高度和超时时间，未启用的一项为 0
+ * destinationHeight 为目标链当前高度（revision 取自对方轻客户端）
+ */
+export function computePacketTimeout(
+  policy: TimeoutPolicy,
+  destinationHeight: IBCHeight,
+  now: number = Date.now()
+): { timeoutHeight: IBCHeight; timeoutTimestampMs?: number } {
+  const useHeight = policy.mode !== 'timestamp'
+  const useTimestamp = policy.mode !== 'height'
+
+  return {
+    timeoutHeight: useHeight
+      ? {
+          revisionNumber: destinationHeight.revisionNumber,
+          revisionHeight:
+            destinationHeight.revisionHeight + policy.heightOffset,
+        }
+      : { revisionNumber: 0, revisionHeight: 0 },
+    timeoutTimestampMs: useTimestamp
+      ? now + policy.timestampSeconds * 1000
+      : undefined,
+  }
+}
@@ -0,0 +1,142 @@
+import { IndexedTx } from '@cosmjs/stargate'
+import { decodeTxRaw } from '@cosmjs/proto-signing'
+import {
+  DailySpend,
+  RelayerCostEfficiency,
+  RelayerTestLog,
+  TxCost,
+  WalletFee,
+} from '../types'
+import { isSuccessfulRelay } from './packetOutcome'
+
+/**
+ * 链上交易的 gas 和手续费（手续费取自交易的 AuthInfo）
+ */
+export function getTxCost(tx: IndexedTx): TxCost {
+  let fee: { amount: string; denom: string } | undefined
+  try {
+    fee = decodeTxRaw(tx.tx).authInfo.fee?.amount[0]
+  } catch (error) {
+    fee = undefined
+  }
+
+  return {
+    gasUsed: Number(tx.gasUsed),
+    gasWanted: Number(tx.gasWanted),
+    feeAmount: fee?.amount,
+    feeDenom: fee?.denom,
+  }
+}
+
+/**
+ * 按 denom 累加手续费，divisor 用于批量交易按 packet 消息数均摊
+ */
+export function addFee(
+  fees: Record<string, string>,
+  cost: TxCost | undefined,
+  divisor: number = 1
+): void {
+  if (!cost?.feeAmount || !cost.feeDenom) return
+
+  fees[cost.feeDenom] = (
+    BigInt(fees[cost.feeDenom] || '0') +
+    BigInt(cost.feeAmount) / BigInt(divisor)
+  ).toString()
+}
+
+/**
+ * 测试钱包按天（UTC）的发送花费，日期升序
+ * walletFees 为不在日志中的手续费，计入花费但不计入转账数
+ */
+export function summarizeDailySpend(
+  logs: RelayerTestLog[],
+  budget?: { amount: string; denom: string },
+  walletFees: WalletFee[] = []
+): DailySpend[] {
+  const days = new Map<string, DailySpend>()
+  const getDay = (time: Date) => {
+    const date = new Date(time).toISOString().slice(0, 10)
+    if (!days.has(date)) {
+      days.set(date, {
+        date,
+        transfers: 0,
+        gasUsed: 0,
+        fees: {},
+        budget,
+        overBudget: false,
+      })
+    }
+    return days.get(date)!
+  }
+
+  logs
+    .filter((log) => log.sendCost)
+    .forEach((log) => {
+      const day = getDay(log.testTime)
+      day.transfers++
+      day.gasUsed += log.sendCost!.gasUsed
+      addFee(day.fees, log.sendCost)
+    })
+  walletFees.forEach((fee) => {
+    const day = getDay(fee.time)
+    day.gasUsed += fee.cost.gasUsed
+    addFee(day.fees, fee.cost)
+  })
+
+  return Array.from(days.values())
+    .map((day) => ({
+      ...day,
+      overBudget:
+        !!budget &&
+        BigInt(day.fees[budget.denom] || '0') >= BigInt(budget.amount),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * relayer 的 recv 交易及其自己回传的 ack 交易的成本
+ */
+export function summarizeRelayCost(
+  logs: RelayerTestLog[]
+): RelayerCostEfficiency | undefined {
+  let relayTxs = 0
+  let gasUsed = 0
+  const fees: Record<string, string> = {}
+
+  logs.forEach((log) => {
+    const recv = log.lifecycle?.recv
+    const ack = log.lifecycle?.ack
+    const legs = [
+      recv,
+      ack?.relayer === recv?.relayer ? ack : undefined,
+      log.lifecycle?.timeout,
+    ]
+
+    legs.forEach((leg) => {
+      if (!leg?.cost) return
+      const packets = Math.max(1, leg.fingerprint?.packetMessages || 1)
+      relayTxs++
+      gasUsed += leg.cost.gasUsed / packets
+      addFee(fees, leg.cost, packets)
+    })
+  })
+  if (relayTxs === 0) return undefined
+
+  const successful = logs.filter(isSuccessfulRelay).length
+  const feePerSuccessfulRelay: Record<string, string> = {}
+  if (successful > 0) {
+    Object.entries(fees).forEach(([denom, amount]) => {
+      feePerSuccessfulRelay[denom] = (
+        BigInt(amount) / BigInt(successful)
+      ).toString()
+    })
+  }
+
+  return {
+    relayTxs,
+    gasUsed: Math.round(gasUsed),
+    averageGasPerRelay: Math.round(gasUsed / relayTxs),
+    fees,
+    feePerSuccessfulRelay,
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { IncentiveScorer } from '../src/utils/IncentiveScorer'
+import { IncentiveScoringConfig, RelayerTestLog } from '../src/types'
+
+// 只按成功占比评分，便于手算奖励
+const config: IncentiveScoringConfig = {
+  weights: { successShare: 1, latency: 0, availability: 0 },
+  latencyPercentile: 90,
+  latencyTargetMs: 10000,
+  latencyMaxMs: 60000,
+  availabilityWindowMinutes: 60,
+  penalties: { identityAnomaly: 0, consecutiveFailure: 0, maxPenalty: 1 },
+  minSuccessfulRelays: 2,
+}
+
+function relays(count: number, success = true): RelayerTestLog[] {
+  return Array.from({ length: count }, (_, i) => ({
+    testTime: new Date('2026-01-01T00:00:00Z'),
+    txHash: `TX${i}`,
+    packetSequence: i + 1,
+    success,
+    latency: 1000,
+  }))
+}
+
+function allocate(groups: Record<string, RelayerTestLog[]>, amount: string) {
+  const input = {
+    groups: new Map(Object.entries(groups)),
+    logs: Object.values(groups).flat(),
+    anomalies: [],
+  }
+  const allocation = new IncentiveScorer(config).allocate(
+    input,
+    {},
+    { amount, denom: 'peaka' }
+  )
+  return Object.fromEntries(
+    allocation.scores.map((s) => [s.validatorMoniker, s])
+  )
+}
+
+describe('IncentiveScorer budget split', () => {
+  test('splits by score and gives the rounding remainder to the top scorer', () => {
+    const scores = allocate({ alice: relays(4), bob: relays(2) }, '100')
+
+    assert.equal(scores.alice.reward, '67')
+    assert.equal(scores.bob.reward, '33')
+    assert.ok(Math.abs(scores.alice.rewardShare - 2 / 3) < 1e-9)
+  })
+
+  test('distributes exactly the budget for large amounts', () => {
+    const budget = '1000000000000000000000'
+    const scores = allocate(
+      { alice: relays(3), bob: relays(3), carol: relays(3) },
+      budget
+    )
+    const total = Object.values(scores).reduce(
+      (sum, s) => sum + BigInt(s.reward),
+      BigInt(0)
+    )
+
+    assert.equal(total.toString(), budget)
+  })
+
+  test('leaves ineligible validators out of the split', () => {
+    const scores = allocate(
+      { alice: relays(3), bob: relays(1), carol: relays(3, false) },
+      '90'
+    )
+
+    assert.equal(scores.bob.eligible, false)
+    assert.equal(scores.bob.reward, '0')
+    assert.equal(scores.bob.rewardShare, 0)
+    assert.equal(scores.carol.reward, '0')
+    assert.equal(scores.alice.reward, '90')
+    assert.equal(scores.alice.rewardShare, 1)
+  })
+
+  test('allocates nothing when no validator scores', () => {
+    const scores = allocate({ alice: relays(3, false) }, '100')
+
+    assert.equal(scores.alice.reward, '0')
+    assert.equal(scores.alice.rewardShare, 0)
+  })
+})
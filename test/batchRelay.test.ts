@@ -0,0 +1,136 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  extractSendSequences,
+  summarizeMultiMsgBatches,
+} from '../src/utils/batchRelay'
+import { RelayerTestLog } from '../src/types'
+
+function packet(
+  txHash: string,
+  sequence: number,
+  recv?: { txHash: string; height: number; relayer?: string }
+): RelayerTestLog {
+  const send = { txHash, height: 100, time: '2026-01-01T00:00:00Z' }
+  return {
+    testTime: new Date(send.time),
+    txHash,
+    packetSequence: sequence,
+    success: !!recv,
+    latency: 1000,
+    sendHeight: send.height,
+    relayerSigner: recv?.relayer,
+    lifecycle: recv
+      ? {
+          send,
+          recv: {
+            ...recv,
+            // 每个区块 1 秒
+            time: new Date(
+              Date.UTC(2026, 0, 1, 0, 0, recv.height - 100)
+            ).toISOString(),
+          },
+        }
+      : { send },
+  }
+}
+
+function summarize(logs: RelayerTestLog[]) {
+  return summarizeMultiMsgBatches(logs, (log) => log.relayerSigner || 'unknown')
+}
+
+describe('batchRelay', () => {
+  test('extractSendSequences keeps this channel in message order', () => {
+    const sendPacket = (channel: string, sequence: string) => ({
+      type: 'send_packet',
+      attributes: [
+        { key: 'packet_src_port', value: 'transfer' },
+        { key: 'packet_src_channel', value: channel },
+        { key: 'packet_sequence', value: sequence },
+      ],
+    })
+
+    assert.deepEqual(
+      extractSendSequences(
+        [
+          sendPacket('channel-0', '7'),
+          { type: 'message', attributes: [] },
+          sendPacket('channel-1', '3'),
+          sendPacket('channel-0', '8'),
+        ],
+        'transfer',
+        'channel-0'
+      ),
+      [7, 8]
+    )
+  })
+
+  test('classifies a batch relayed in one transaction as together', () => {
+    const { batches } = summarize([
+      packet('A', 1, { txHash: 'R1', height: 101, relayer: 'r1' }),
+      packet('A', 2, { txHash: 'R1', height: 101, relayer: 'r1' }),
+      packet('A', 3, { txHash: 'R1', height: 101, relayer: 'r1' }),
+    ])
+
+    assert.equal(batches.length, 1)
+    assert.equal(batches[0].pattern, 'together')
+    assert.equal(batches[0].recvTxs, 1)
+    assert.equal(batches[0].recvSpreadMs, 0)
+  })
+
+  test('separates in-order and out-of-order relays by recv height', () => {
+    const inOrder = summarize([
+      packet('A', 1, { txHash: 'R1', height: 101, relayer: 'r1' }),
+      packet('A', 2, { txHash: 'R2', height: 101, relayer: 'r1' }),
+      packet('A', 3, { txHash: 'R3', height: 104, relayer: 'r1' }),
+    ])
+    const outOfOrder = summarize([
+      packet('B', 1, { txHash: 'R1', height: 105, relayer: 'r1' }),
+      packet('B', 2, { txHash: 'R2', height: 102, relayer: 'r1' }),
+    ])
+
+    assert.equal(inOrder.batches[0].pattern, 'in-order')
+    assert.equal(inOrder.batches[0].recvSpreadMs, 3000)
+    assert.equal(outOfOrder.batches[0].pattern, 'out-of-order')
+  })
+
+  test('classifies a batch with unreceived packets as partial', () => {
+    const { batches } = summarize([
+      packet('A', 1, { txHash: 'R1', height: 101, relayer: 'r1' }),
+      packet('A', 2),
+    ])
+
+    assert.equal(batches[0].pattern, 'partial')
+    assert.equal(batches[0].received, 1)
+    assert.deepEqual(batches[0].sequences, [1, 2])
+  })
+
+  test('ignores single-packet sends and failed sends', () => {
+    const { batches, relayers } = summarize([
+      packet('A', 1, { txHash: 'R1', height: 101, relayer: 'r1' }),
+      packet('B', 0),
+      packet('B', 0),
+    ])
+
+    assert.deepEqual(batches, [])
+    assert.deepEqual(relayers, [])
+  })
+
+  test('classifies each relayer share against the whole batch', () => {
+    const { batches, relayers } = summarize([
+      packet('A', 1, { txHash: 'R1', height: 101, relayer: 'r1' }),
+      packet('A', 2, { txHash: 'R1', height: 101, relayer: 'r1' }),
+      packet('A', 3, { txHash: 'R2', height: 102, relayer: 'r2' }),
+    ])
+
+    assert.equal(batches[0].pattern, 'in-order')
+    assert.deepEqual(batches[0].relayers, ['r1', 'r2'])
+    assert.deepEqual(
+      relayers.map((r) => [r.relayer, r.packets, r.patterns.partial]),
+      [
+        ['r1', 2, 1],
+        ['r2', 1, 1],
+      ]
+    )
+  })
+})
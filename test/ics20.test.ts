@@ -0,0 +1,74 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ibcDenom, receiveDenom } from '../src/utils/ics20'
+
+// Cosmos Hub ATOM 在 Osmosis 上的 voucher
+const ATOM_ON_OSMOSIS =
+  'ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2'
+
+describe('ics20', () => {
+  test('ibcDenom hashes the full trace path', () => {
+    assert.equal(ibcDenom('transfer/channel-0/uatom'), ATOM_ON_OSMOSIS)
+  })
+
+  test('receiveDenom prefixes the destination port and channel for native tokens', () => {
+    assert.equal(
+      receiveDenom('uatom', 'transfer', 'channel-141', 'transfer', 'channel-0'),
+      ATOM_ON_OSMOSIS
+    )
+  })
+
+  test('receiveDenom unwinds a voucher returning to its source chain', () => {
+    assert.equal(
+      receiveDenom(
+        'transfer/channel-0/uatom',
+        'transfer',
+        'channel-0',
+        'transfer',
+        'channel-141'
+      ),
+      'uatom'
+    )
+  })
+
+  test('receiveDenom keeps the remaining trace of multi-hop vouchers', () => {
+    assert.equal(
+      receiveDenom(
+        'transfer/channel-0/transfer/channel-9/uatom',
+        'transfer',
+        'channel-0',
+        'transfer',
+        'channel-141'
+      ),
+      ibcDenom('transfer/channel-9/uatom')
+    )
+    assert.equal(
+      receiveDenom(
+        'transfer/channel-9/uatom',
+        'transfer',
+        'channel-0',
+        'transfer',
+        'channel-141'
+      ),
+      ibcDenom('transfer/channel-141/transfer/channel-9/uatom')
+    )
+  })
+
+  test('receiveDenom treats slash-separated native denoms as native', () => {
+    const factory = 'factory/osmo1creator/token'
+    assert.equal(
+      receiveDenom(
+        `transfer/channel-0/${factory}`,
+        'transfer',
+        'channel-0',
+        'transfer',
+        'channel-141'
+      ),
+      factory
+    )
+    assert.equal(
+      receiveDenom(factory, 'transfer', 'channel-141', 'transfer', 'channel-0'),
+      ibcDenom(`transfer/channel-0/${factory}`)
+    )
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { loadSchedule, maxRateOf, rateAt } from '../src/utils/loadProfile'
+import { LoadProfile } from '../src/types'
+
+function profile(overrides: Partial<LoadProfile>): LoadProfile {
+  return {
+    mode: 'constant',
+    rate: 1,
+    peakRate: 1,
+    durationSeconds: 10,
+    stepSeconds: 1,
+    burstSeconds: 0,
+    sampleSeconds: 10,
+    ...overrides,
+  }
+}
+
+describe('loadProfile', () => {
+  test('constant load spaces packets by the inverse rate', () => {
+    assert.deepEqual(
+      loadSchedule(profile({ rate: 2, durationSeconds: 3 })),
+      [0, 500, 1000, 1500, 2000, 2500]
+    )
+  })
+
+  test('step load raises the rate at each step', () => {
+    const p = profile({
+      mode: 'step',
+      rate: 1,
+      peakRate: 3,
+      durationSeconds: 4,
+      stepSeconds: 2,
+    })
+
+    assert.equal(rateAt(p, 1.9), 1)
+    assert.equal(rateAt(p, 2), 3)
+    assert.deepEqual(
+      loadSchedule(p),
+      [0, 1000, 2000, 2330, 2660, 3000, 3330, 3660]
+    )
+  })
+
+  test('burst load sends at the peak rate at the start of each period', () => {
+    const schedule = loadSchedule(
+      profile({
+        mode: 'burst',
+        rate: 0,
+        peakRate: 10,
+        durationSeconds: 10,
+        stepSeconds: 5,
+        burstSeconds: 1,
+      })
+    )
+
+    assert.deepEqual(schedule.slice(0, 3), [0, 100, 200])
+    assert.equal(schedule.length, 20)
+    assert.ok(schedule.every((t) => t % 5000 < 1000))
+  })
+
+  test('ramp from zero offers the integrated number of packets', () => {
+    const schedule = loadSchedule(
+      profile({ mode: 'ramp', rate: 0, peakRate: 2, durationSeconds: 10 })
+    )
+
+    // ∫ 0.2t dt = t²/10，第 k 个 packet 约在 √(10k) 秒
+    assert.equal(schedule.length, 10)
+    assert.ok(Math.abs(schedule[1] - 3162) <= 10)
+    assert.ok(Math.abs(schedule[9] - 9487) <= 10)
+    assert.ok(schedule.every((t, i) => i === 0 || t > schedule[i - 1]))
+  })
+
+  test('zero rate schedules nothing', () => {
+    assert.deepEqual(loadSchedule(profile({ rate: 0 })), [])
+  })
+
+  test('maxRateOf ignores the peak rate for constant load', () => {
+    assert.equal(maxRateOf(profile({ rate: 1, peakRate: 5 })), 1)
+    assert.equal(
+      maxRateOf(profile({ mode: 'ramp', rate: 3, peakRate: 0.5 })),
+      3
+    )
+    assert.equal(maxRateOf(profile({ mode: 'burst', peakRate: 5 })), 5)
+  })
+})
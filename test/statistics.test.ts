@@ -0,0 +1,102 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  LatencySketch,
+  histogram,
+  max,
+  mean,
+  percentile,
+  stddev,
+  summarizeLatencies,
+} from '../src/utils/statistics'
+
+describe('statistics', () => {
+  test('returns undefined for empty samples', () => {
+    assert.equal(mean([]), undefined)
+    assert.equal(max([]), undefined)
+    assert.equal(stddev([]), undefined)
+    assert.equal(percentile([], 50), undefined)
+    assert.equal(summarizeLatencies([]), undefined)
+  })
+
+  test('mean and stddev are population statistics', () => {
+    assert.equal(mean([1, 2, 3, 4]), 2.5)
+    assert.equal(stddev([2, 4, 4, 4, 5, 5, 7, 9]), 2)
+  })
+
+  test('max handles more samples than Math.max can spread', () => {
+    const values = Array.from({ length: 200000 }, (_, i) => i)
+    assert.equal(max(values), 199999)
+    assert.equal(max([-3, -1, -2]), -1)
+  })
+
+  test('percentile uses the nearest rank and returns an actual sample', () => {
+    const values = [50, 15, 40, 20, 35]
+    assert.equal(percentile(values, 0), 15)
+    assert.equal(percentile(values, 30), 20)
+    assert.equal(percentile(values, 50), 35)
+    assert.equal(percentile(values, 100), 50)
+    // 不修改传入的数组
+    assert.deepEqual(values, [50, 15, 40, 20, 35])
+  })
+
+  test('histogram buckets by upper bound with an open last bucket', () => {
+    assert.deepEqual(histogram([500, 1000, 1500, 400000], [1000, 2000]), [
+      { from: 0, to: 1000, count: 2 },
+      { from: 1000, to: 2000, count: 1 },
+      { from: 2000, count: 1 },
+    ])
+  })
+
+  test('summarizeLatencies reports percentiles and extremes', () => {
+    const values = Array.from({ length: 100 }, (_, i) => 100 - i)
+    const summary = summarizeLatencies(values, [50])!
+
+    assert.equal(summary.count, 100)
+    assert.equal(summary.mean, 50.5)
+    assert.equal(summary.min, 1)
+    assert.equal(summary.max, 100)
+    assert.equal(summary.p50, 50)
+    assert.equal(summary.p90, 90)
+    assert.equal(summary.p99, 99)
+    assert.deepEqual(summary.histogram, [
+      { from: 0, to: 50, count: 50 },
+      { from: 50, count: 50 },
+    ])
+  })
+
+  test('LatencySketch quantiles stay within the relative accuracy', () => {
+    const sketch = new LatencySketch(0.01)
+    const values = Array.from({ length: 1000 }, (_, i) => (i + 1) * 10)
+    values.forEach((value) => sketch.add(value))
+
+    for (const p of [50, 90, 95, 99]) {
+      const exact = percentile(values, p)!
+      const estimate = sketch.quantile(p)!
+      assert.ok(
+        Math.abs(estimate - exact) / exact <= 0.01,
+        `p${p}: ${estimate} vs ${exact}`
+      )
+    }
+
+    const distribution = sketch.toDistribution()!
+    assert.equal(distribution.count, 1000)
+    assert.equal(distribution.min, 10)
+    assert.equal(distribution.max, 10000)
+    assert.ok(Math.abs(distribution.mean - mean(values)!) < 1e-6)
+    assert.ok(Math.abs(distribution.stddev - stddev(values)!) < 1e-6)
+    assert.equal(distribution.approximate, true)
+    assert.equal(
+      distribution.histogram.reduce((sum, b) => sum + b.count, 0),
+      1000
+    )
+  })
+
+  test('LatencySketch counts zero values below every bucket', () => {
+    const sketch = new LatencySketch()
+    assert.equal(sketch.quantile(50), undefined)
+    ;[0, 0, 0, 1000].forEach((value) => sketch.add(value))
+    assert.equal(sketch.quantile(50), 0)
+    assert.equal(sketch.getCount(), 4)
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  computePacketTimeout,
+  parseRevisionNumber,
+} from '../src/utils/timeoutPolicy'
+
+describe('timeoutPolicy', () => {
+  test('parseRevisionNumber reads the trailing revision', () => {
+    assert.equal(parseRevisionNumber('osmo-test-5'), 5)
+    assert.equal(parseRevisionNumber('cosmoshub-4'), 4)
+    assert.equal(parseRevisionNumber('evmos_9000-12'), 12)
+  })
+
+  test('parseRevisionNumber falls back to 0 for unrevisioned chain IDs', () => {
+    assert.equal(parseRevisionNumber('vota-bobtail'), 0)
+    assert.equal(parseRevisionNumber('testing'), 0)
+    assert.equal(parseRevisionNumber('chain-0'), 0)
+    assert.equal(parseRevisionNumber('chain-05'), 0)
+    assert.equal(parseRevisionNumber('chain--5'), 0)
+    assert.equal(parseRevisionNumber('-5'), 0)
+  })
+
+  test('computePacketTimeout only sets the enabled dimensions', () => {
+    const height = { revisionNumber: 5, revisionHeight: 1000 }
+    const now = 1700000000000
+    const policy = { heightOffset: 100, timestampSeconds: 600 }
+
+    assert.deepEqual(
+      computePacketTimeout({ ...policy, mode: 'height' }, height, now),
+      {
+        timeoutHeight: { revisionNumber: 5, revisionHeight: 1100 },
+        timeoutTimestampMs: undefined,
+      }
+    )
+    assert.deepEqual(
+      computePacketTimeout({ ...policy, mode: 'timestamp' }, height, now),
+      {
+        timeoutHeight: { revisionNumber: 0, revisionHeight: 0 },
+        timeoutTimestampMs: now + 600000,
+      }
+    )
+    assert.deepEqual(
+      computePacketTimeout({ ...policy, mode: 'both' }, height, now),
+      {
+        timeoutHeight: { revisionNumber: 5, revisionHeight: 1100 },
+        timeoutTimestampMs: now + 600000,
+      }
+    )
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { summarizeDailySpend } from '../src/utils/txCost'
+import { RelayerTestLog, TxCost, WalletFee } from '../src/types'
+
+function cost(feeAmount: string, gasUsed = 100000, feeDenom = 'peaka'): TxCost {
+  return { gasUsed, gasWanted: gasUsed, feeAmount, feeDenom }
+}
+
+function send(time: string, sendCost?: TxCost): RelayerTestLog {
+  return {
+    testTime: new Date(time),
+    txHash: `TX-${time}`,
+    packetSequence: 1,
+    success: true,
+    latency: 1000,
+    sendCost,
+  }
+}
+
+function walletFee(time: string, feeAmount: string): WalletFee {
+  return {
+    time: new Date(time),
+    chainId: 'vota-bobtail',
+    txHash: `FEE-${time}`,
+    purpose: 'pool-funding',
+    cost: cost(feeAmount, 50000),
+  }
+}
+
+describe('summarizeDailySpend', () => {
+  test('groups send costs by UTC day in ascending order', () => {
+    const days = summarizeDailySpend([
+      send('2026-01-02T01:00:00Z', cost('300')),
+      send('2026-01-01T23:59:59Z', cost('100')),
+      send('2026-01-01T00:00:00Z', cost('200')),
+      send('2026-01-01T12:00:00Z'),
+    ])
+
+    assert.deepEqual(
+      days.map((day) => [day.date, day.transfers, day.gasUsed, day.fees]),
+      [
+        ['2026-01-01', 2, 200000, { peaka: '300' }],
+        ['2026-01-02', 1, 100000, { peaka: '300' }],
+      ]
+    )
+    assert.ok(days.every((day) => !day.overBudget))
+  })
+
+  test('adds wallet fees to spend without counting them as transfers', () => {
+    const [day] = summarizeDailySpend(
+      [send('2026-01-01T10:00:00Z', cost('100'))],
+      undefined,
+      [walletFee('2026-01-01T11:00:00Z', '40')]
+    )
+
+    assert.equal(day.transfers, 1)
+    assert.equal(day.gasUsed, 150000)
+    assert.deepEqual(day.fees, { peaka: '140' })
+  })
+
+  test('flags days whose budget denom fees reach the budget', () => {
+    const budget = { amount: '500', denom: 'peaka' }
+    const days = summarizeDailySpend(
+      [
+        send('2026-01-01T10:00:00Z', cost('400')),
+        send('2026-01-02T10:00:00Z', cost('499')),
+        send('2026-01-02T11:00:00Z', cost('1000', 100000, 'uother')),
+      ],
+      budget,
+      [walletFee('2026-01-01T11:00:00Z', '100')]
+    )
+
+    assert.deepEqual(
+      days.map((day) => [day.date, day.overBudget]),
+      [
+        ['2026-01-01', true],
+        ['2026-01-02', false],
+      ]
+    )
+    assert.deepEqual(days[1].fees, { peaka: '499', uother: '1000' })
+    assert.deepEqual(days[0].budget, budget)
+  })
+})